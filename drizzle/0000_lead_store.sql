@@ -0,0 +1,62 @@
+CREATE TABLE `companies` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`domain` text NOT NULL,
+	`name` text NOT NULL,
+	`createdAt` text NOT NULL,
+	`updatedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `companies_domain_unique` ON `companies` (`domain`);--> statement-breakpoint
+CREATE TABLE `leads` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`companyId` integer NOT NULL,
+	`createdAt` text NOT NULL,
+	`updatedAt` text NOT NULL,
+	FOREIGN KEY (`companyId`) REFERENCES `companies`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `leads_email_unique` ON `leads` (`email`);--> statement-breakpoint
+CREATE INDEX `leads_company_idx` ON `leads` (`companyId`);--> statement-breakpoint
+CREATE TABLE `enrichment_runs` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`leadId` integer NOT NULL,
+	`version` integer NOT NULL,
+	`jobId` text,
+	`chatId` text NOT NULL,
+	`structuredData` text,
+	`structuredDataConfidence` text,
+	`structuredDataReconciliation` text,
+	`person` text,
+	`changes` text DEFAULT '[]',
+	`createdAt` text NOT NULL,
+	FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `enrichment_runs_lead_idx` ON `enrichment_runs` (`leadId`,`version`);--> statement-breakpoint
+CREATE TABLE `enrichment_answers` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`runId` integer NOT NULL,
+	`position` integer NOT NULL,
+	`questionId` text,
+	`question` text NOT NULL,
+	`answer` text NOT NULL,
+	`status` text DEFAULT 'answered' NOT NULL,
+	`sources` text DEFAULT '[]',
+	FOREIGN KEY (`runId`) REFERENCES `enrichment_runs`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `enrichment_answers_run_idx` ON `enrichment_answers` (`runId`);--> statement-breakpoint
+CREATE TABLE `scores` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`runId` integer NOT NULL,
+	`score` real NOT NULL,
+	`maxScore` real,
+	`rubricVersion` integer,
+	`breakdown` text,
+	`reason` text DEFAULT '' NOT NULL,
+	FOREIGN KEY (`runId`) REFERENCES `enrichment_runs`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scores_runId_unique` ON `scores` (`runId`);--> statement-breakpoint
+CREATE INDEX `scores_score_idx` ON `scores` (`score`);
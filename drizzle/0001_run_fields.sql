@@ -0,0 +1,2 @@
+ALTER TABLE `enrichment_runs` ADD `structuredFields` text;--> statement-breakpoint
+ALTER TABLE `enrichment_answers` ADD `error` text;
@@ -0,0 +1,10 @@
+CREATE TABLE `lead_views` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text,
+	`name` text NOT NULL,
+	`settings` text NOT NULL,
+	`createdAt` text NOT NULL,
+	`updatedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `lead_views_user_idx` ON `lead_views` (`userId`);
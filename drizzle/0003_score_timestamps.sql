@@ -0,0 +1,3 @@
+-- Scores so far were made when their run was saved
+ALTER TABLE `scores` ADD `scoredAt` text;--> statement-breakpoint
+UPDATE `scores` SET `scoredAt` = (SELECT `createdAt` FROM `enrichment_runs` WHERE `enrichment_runs`.`id` = `scores`.`runId`);
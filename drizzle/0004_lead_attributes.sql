@@ -0,0 +1,14 @@
+CREATE TABLE `lead_attributes` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`firstName` text,
+	`lastName` text,
+	`company` text,
+	`phone` text,
+	`custom` text DEFAULT '{}',
+	`source` text NOT NULL,
+	`importedAt` text NOT NULL,
+	`updatedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `lead_attributes_email_unique` ON `lead_attributes` (`email`);
@@ -0,0 +1,114 @@
+-- Databases made with `drizzle-kit push` before the migrations already have
+-- the chat tables
+CREATE TABLE IF NOT EXISTS `chats` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text NOT NULL,
+	`createdAt` text NOT NULL,
+	`focusMode` text NOT NULL,
+	`files` text DEFAULT '[]'
+);
+--> statement-breakpoint
+CREATE TABLE `company_profiles` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`domain` text NOT NULL,
+	`questionsKey` text NOT NULL,
+	`profile` text NOT NULL,
+	`researchedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `enrichment_job_items` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`jobId` text NOT NULL,
+	`email` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`result` text,
+	`error` text,
+	`startedAt` text,
+	`completedAt` text
+);
+--> statement-breakpoint
+CREATE TABLE `enrichment_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`params` text NOT NULL,
+	`errors` text DEFAULT '[]',
+	`createdAt` text NOT NULL,
+	`startedAt` text,
+	`completedAt` text
+);
+--> statement-breakpoint
+CREATE TABLE `enrichment_schedule_runs` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`scheduleId` text NOT NULL,
+	`jobId` text,
+	`leadCount` integer NOT NULL,
+	`error` text,
+	`startedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `enrichment_schedules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`cron` text NOT NULL,
+	`action` text NOT NULL,
+	`minScore` integer,
+	`savedWithinHours` integer,
+	`questionSetId` text,
+	`enabled` integer DEFAULT true NOT NULL,
+	`nextRunAt` text,
+	`lastRunAt` text,
+	`createdAt` text NOT NULL,
+	`updatedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `llm_usage` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`purpose` text NOT NULL,
+	`jobId` text,
+	`email` text,
+	`userId` text,
+	`provider` text NOT NULL,
+	`model` text NOT NULL,
+	`promptTokens` integer NOT NULL,
+	`completionTokens` integer NOT NULL,
+	`estimated` integer DEFAULT false NOT NULL,
+	`cost` real,
+	`createdAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `messages` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`content` text NOT NULL,
+	`chatId` text NOT NULL,
+	`messageId` text NOT NULL,
+	`type` text,
+	`metadata` text
+);
+--> statement-breakpoint
+CREATE TABLE `question_checkpoints` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`jobId` text,
+	`email` text NOT NULL,
+	`domain` text NOT NULL,
+	`questionsKey` text NOT NULL,
+	`questionId` text NOT NULL,
+	`chatId` text NOT NULL,
+	`result` text NOT NULL,
+	`answeredAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `question_sets` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`questions` text NOT NULL,
+	`isDefault` integer DEFAULT false NOT NULL,
+	`createdAt` text NOT NULL,
+	`updatedAt` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `rubrics` (
+	`version` integer PRIMARY KEY NOT NULL,
+	`criteria` text NOT NULL,
+	`createdAt` text NOT NULL
+);
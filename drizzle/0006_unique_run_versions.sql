@@ -0,0 +1,5 @@
+-- Concurrent saves could give two runs of a lead the same version; those
+-- leads are numbered again in the order their runs were saved
+UPDATE `enrichment_runs` SET `version` = (SELECT count(*) FROM `enrichment_runs` AS `earlier` WHERE `earlier`.`leadId` = `enrichment_runs`.`leadId` AND `earlier`.`id` <= `enrichment_runs`.`id`) WHERE `leadId` IN (SELECT `leadId` FROM `enrichment_runs` GROUP BY `leadId`, `version` HAVING count(*) > 1);--> statement-breakpoint
+DROP INDEX `enrichment_runs_lead_idx`;--> statement-breakpoint
+CREATE UNIQUE INDEX `enrichment_runs_lead_idx` ON `enrichment_runs` (`leadId`,`version`);
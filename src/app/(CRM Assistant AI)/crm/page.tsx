@@ -2,46 +2,57 @@
 
 import ChatWindow from "@/components/ChatWindow"
 import { useState, useEffect, useRef } from "react"
-
-// Question templates for the enrichment process
-const questionTemplates = [
-  "What does COMPANY company do?",
-  "What is the website of the company with the domain COMPANY?",
-  "What are the revenue figures for the company with the domain COMPANY?",
-  "What is the employee size of COMPANY company?",
-  "How many years has COMPANY company been in business?",
-  "What is the latest funding news for COMPANY company?",
-  "Is COMPANY in the Fortune 500 list?",
-  "Is COMPANY in the Fortune 100 list?",
-  "Who are the clients of COMPANY?",
-  "What is the industry classification of COMPANY?",
-  "What is the LinkedIn profile link of the company named COMPANY?",
-]
+import readEventStream from "@/lib/utils/eventStream"
+import SourceCitations, { SourceCitation } from "@/components/SourceCitations"
+import { formatScoreBreakdown, ScoreBreakdown } from "@/lib/enrichment/rubric"
+import type { StructuredDataConfidence } from "@/lib/enrichment/fieldConfidence"
+import { toCrmLeadFields } from "@/lib/enrichment/crmFields"
+import { isAnsweredQuestion, QuestionStatus } from "@/lib/enrichment/retry"
 
 interface EnrichmentData {
   question: string
   answer: string
+  status?: QuestionStatus
+  sources?: SourceCitation[]
 }
 
-interface ApiResponse {
-  results: Array<{
-    score: number
-    reason: string
-    enrichmentData: EnrichmentData[]
-    structuredFields: Record<string, any>
-  }>
+interface LeadResult {
+  score: number
+  scoreBreakdown?: ScoreBreakdown
+  enrichmentData: EnrichmentData[]
+  structuredData?: Record<string, any>
+  structuredDataConfidence?: StructuredDataConfidence
+  structuredFields: Record<string, any>
 }
 
+type Progress =
+  | { phase: "queued" }
+  | { phase: "researching" }
+  | { phase: "question"; index: number; total: number; question: string }
+  | { phase: "scoring" }
+
 export default function LeadAssistantWidget() {
   const [isLoading, setIsLoading] = useState(false)
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(-1)
+  const [progress, setProgress] = useState<Progress>({ phase: "queued" })
   const [logs, setLogs] = useState<string[]>([])
   const [score, setScore] = useState<number | null>(null)
+  const [maxScore, setMaxScore] = useState<number>(100)
   const [reason, setReason] = useState<string>("")
   const [qaData, setQaData] = useState<EnrichmentData[]>([])
   const [companyName, setCompanyName] = useState<string>("")
+  // Values rated below this are not written to the CRM
+  const [minConfidence, setMinConfidence] = useState(0.5)
   const logOutputRef = useRef<HTMLDivElement>(null)
 
+  useEffect(() => {
+    fetch("http://localhost:3000/api/config")
+      .then((res) => res.json())
+      .then((data) => {
+        if (typeof data.minFieldConfidence === "number") setMinConfidence(data.minFieldConfidence)
+      })
+      .catch((error) => console.error("Error fetching config:", error))
+  }, [])
+
   // Auto-scroll logs
   useEffect(() => {
     if (logOutputRef.current) {
@@ -53,30 +64,6 @@ export default function LeadAssistantWidget() {
     setLogs((prev) => [...prev, message])
   }
 
-  const startProgressLoader = (leadEmail: string) => {
-    const domain = leadEmail.split("@")[1]
-    const company = domain.split(".")[0]
-    setCompanyName(company)
-    setCurrentQuestionIndex(-1)
-
-    const updateLoader = () => {
-      setCurrentQuestionIndex((prev) => {
-        if (prev === -1) {
-          setTimeout(() => setCurrentQuestionIndex(0), 4000)
-          return -1
-        } else if (prev < questionTemplates.length) {
-          if (prev < questionTemplates.length - 1) {
-            setTimeout(() => setCurrentQuestionIndex(prev + 1), 12000)
-          }
-          return prev + 1
-        }
-        return prev
-      })
-    }
-
-    updateLoader()
-  }
-
   const callLLMApiWithEmail = async (leadEmail: string, leadId?: string) => {
     if (!leadEmail) {
       showLog("No lead email provided for LLM API call.")
@@ -84,35 +71,87 @@ export default function LeadAssistantWidget() {
     }
 
     showLog("Calling LLM API with lead email: " + leadEmail)
-    showLog("Note: This may take up to 5 minutes depending on the LLM response time.")
-    startProgressLoader(leadEmail)
+    setCompanyName(leadEmail.split("@")[1] || "")
+    setProgress({ phase: "queued" })
     setIsLoading(true)
 
     try {
       const response = await fetch("http://localhost:3000/api/enrich-leads", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ emails: [leadEmail] }),
+        body: JSON.stringify({ emails: [leadEmail], stream: true }),
       })
 
       if (!response.ok) {
         throw new Error("LLM API response error: " + response.status)
       }
 
-      const data: ApiResponse = await response.json()
+      showLog("Enrichment job queued: " + response.headers.get("X-Job-Id"))
+
+      let result: LeadResult | undefined
+      let failure: string | undefined
+
+      await readEventStream(response, (event, data) => {
+        switch (event) {
+          case "lead_researching":
+            setCompanyName(data.company)
+            setProgress({ phase: "researching" })
+            showLog("Researching " + data.company)
+            break
+          case "question_started":
+            setProgress({ phase: "question", index: data.index, total: data.total, question: data.question })
+            break
+          case "question_answered":
+            showLog(`Answered (${data.index + 1}/${data.total}) with ${data.sources.length} source(s): ${data.question}`)
+            break
+          case "question_failed":
+            showLog(`Question ${data.index + 1}/${data.total} failed: ${data.error}`)
+            break
+          case "scoring_started":
+            setProgress({ phase: "scoring" })
+            showLog("Scoring lead...")
+            break
+          case "fields_extracted":
+            showLog("Extracted CRM fields")
+            break
+          case "lead_finished":
+            result = data.result
+            break
+          case "lead_skipped":
+            failure = data.reason
+            break
+          case "lead_failed":
+            failure = data.error
+            break
+          case "job_completed":
+            if (data.status === "failed") failure = failure || data.errors?.[0]
+            break
+          case "error":
+            failure = data.message
+            break
+        }
+      })
+
       showLog("Received response from LLM API")
 
-      if (data && data.results && data.results.length > 0) {
-        const firstResult = data.results[0]
-        setScore(firstResult.score || 0)
-        setReason(firstResult.reason || "No reason provided")
-        setQaData(firstResult.enrichmentData || [])
+      if (result) {
+        setScore(result.score || 0)
+        setMaxScore(result.scoreBreakdown?.maxScore ?? 100)
+        setReason(result.scoreBreakdown ? formatScoreBreakdown(result.scoreBreakdown) : "No reason provided")
+        setQaData(result.enrichmentData || [])
 
         // Update Zoho CRM if leadId is provided
         if (leadId && typeof window !== "undefined" && (window as any).ZOHO) {
-          updateLeadRecordWithStructuredFields(leadId, firstResult.structuredFields)
-          createQuestionsFromLLM(firstResult.enrichmentData, leadId, firstResult.score, firstResult.reason)
+          updateLeadRecordWithStructuredFields(
+            leadId,
+            result.structuredFields,
+            result.structuredData || {},
+            result.structuredDataConfidence || {},
+          )
+          createQuestionsFromLLM(result.enrichmentData, leadId, result.score, result.scoreBreakdown)
         }
+      } else if (failure) {
+        throw new Error(failure)
       } else {
         setScore(null)
         setReason("No reason provided.")
@@ -123,7 +162,7 @@ export default function LeadAssistantWidget() {
       setReason("Error fetching data: " + (error as Error).message)
     } finally {
       setIsLoading(false)
-      setCurrentQuestionIndex(-1)
+      setProgress({ phase: "queued" })
     }
   }
 
@@ -165,27 +204,16 @@ export default function LeadAssistantWidget() {
     ZOHO.embeddedApp.init().catch((error: Error) => showLog("Error initializing Zoho SDK: " + error.message))
   }
 
-  const updateLeadRecordWithStructuredFields = (leadId: string, structuredFields: Record<string, any>) => {
-    const fieldMapping = {
-      "Customer Type": "Customer_Type",
-      "Contact Search": "Contact_Search",
-      Phone: "Phone",
-      Mobile: "Mobile",
-      Description: "Description",
-      Street: "Street",
-      City: "City",
-      State: "State",
-      "Zip Code": "Zip_Code",
-      Country: "Country",
-    }
+  const updateLeadRecordWithStructuredFields = (
+    leadId: string,
+    structuredFields: Record<string, any>,
+    structuredData: Record<string, any>,
+    structuredDataConfidence: StructuredDataConfidence,
+  ) => {
+    const { fields, skipped } = toCrmLeadFields(structuredFields, structuredData, structuredDataConfidence, minConfidence)
+    skipped.forEach((key) => showLog(`Skipped ${key}: confidence below ${minConfidence}`))
 
-    const APIData: any = { id: leadId }
-    Object.entries(structuredFields).forEach(([key, value]) => {
-      if (value !== null && value !== undefined) {
-        const zohoFieldKey = (fieldMapping as any)[key]
-        if (zohoFieldKey) APIData[zohoFieldKey] = value
-      }
-    })
+    const APIData: any = { id: leadId, ...fields }
 
     const config = { Entity: "Leads", APIData }
     const ZOHO = (window as any).ZOHO
@@ -210,19 +238,26 @@ export default function LeadAssistantWidget() {
     enrichmentData: EnrichmentData[],
     leadRecordId: string,
     score: number,
-    reason: string,
+    scoreBreakdown?: ScoreBreakdown,
   ) => {
-    enrichmentData.forEach((item) => {
+    // Failed questions have nothing to record
+    enrichmentData.filter(isAnsweredQuestion).forEach((item) => {
       const questionText = item.question.split("?")[0] + "?"
       const answerText = item.answer
       createQuestionRecord(questionText, answerText, leadRecordId)
     })
 
-    const scoreAndBreakdown = `Score: ${score}/90\nScore Break down:\n${reason.split("Reason:")[0].trim()}`
+    if (!scoreBreakdown) return
+
+    const scoreAndBreakdown = `Score: ${score}/${scoreBreakdown.maxScore}\nScore Break down:\n${formatScoreBreakdown(scoreBreakdown)}`
     createQuestionRecord("Lead Score and Breakdown", scoreAndBreakdown, leadRecordId)
 
-    const reasonText = reason.includes("Reason:") ? reason.split("Reason:")[1].trim() : reason
-    createQuestionRecord("Lead Score Reason", reasonText, leadRecordId)
+    // Only the criteria judged by the model come with a written reason
+    const reasonText = scoreBreakdown.criteria
+      .filter((criterion) => criterion.reason)
+      .map((criterion) => `${criterion.label}: ${criterion.reason}`)
+      .join("\n")
+    if (reasonText) createQuestionRecord("Lead Score Reason", reasonText, leadRecordId)
   }
 
   const createQuestionRecord = (questionText: string, answerText: string, leadRecordId: string) => {
@@ -259,13 +294,15 @@ export default function LeadAssistantWidget() {
   }
 
   const getLoaderText = () => {
-    if (currentQuestionIndex === -1) {
-      return `LLM fetching results for ${companyName}`
-    } else if (currentQuestionIndex < questionTemplates.length) {
-      const currentQuestion = questionTemplates[currentQuestionIndex].replace(/COMPANY/g, companyName)
-      return `LLM fetching results for: "${currentQuestion}" (${currentQuestionIndex + 1}/${questionTemplates.length})`
-    } else {
-      return "Intelligent lead scoring in progress..."
+    switch (progress.phase) {
+      case "queued":
+        return "Waiting for the enrichment worker..."
+      case "researching":
+        return `LLM fetching results for ${companyName}`
+      case "question":
+        return `LLM fetching results for: "${progress.question}" (${progress.index + 1}/${progress.total})`
+      case "scoring":
+        return "Intelligent lead scoring in progress..."
     }
   }
 
@@ -396,13 +433,13 @@ export default function LeadAssistantWidget() {
                 <h3 className="text-2xl font-bold text-gray-900 mb-4">Lead Score</h3>
 
                 <div className="text-6xl font-bold bg-gradient-to-r from-blue-600 to-blue-700 bg-clip-text text-transparent mb-4 animate-pulse">
-                  {score}/90
+                  {score}/{maxScore}
                 </div>
 
                 <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
                   <div
                     className="h-full bg-gradient-to-r from-blue-600 to-blue-700 rounded-full shadow-lg shadow-blue-500/50 transition-all duration-1500 ease-out"
-                    style={{ width: `${(score / 90) * 100}%` }}
+                    style={{ width: `${(score / maxScore) * 100}%` }}
                   />
                 </div>
               </div>
@@ -416,7 +453,7 @@ export default function LeadAssistantWidget() {
             <div className="bg-white/80 backdrop-blur-xl border border-gray-200/50 rounded-2xl p-6 relative">
               <div className="absolute left-6 -top-2 w-4 h-4 bg-blue-600 rounded-full animate-pulse" />
               <h3 className="text-xl font-bold text-gray-900 mb-2">Score Breakdown & Reason</h3>
-              <p className="text-gray-600 leading-relaxed italic">{reason}</p>
+              <p className="text-gray-600 leading-relaxed italic whitespace-pre-line">{reason}</p>
             </div>
           </div>
         )}
@@ -466,6 +503,7 @@ export default function LeadAssistantWidget() {
                     <div className="absolute top-0 left-0 w-1 h-full bg-gradient-to-b from-blue-600 to-blue-700" />
                     <div className="font-semibold text-gray-900 mb-2 text-sm">Q: {item.question}</div>
                     <div className="text-gray-600 text-sm leading-relaxed">A: {item.answer || "N/A"}</div>
+                    <SourceCitations sources={item.sources} />
                   </div>
                 ))}
               </div>
@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DollarSign } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  formatCost,
+  formatTokens,
+  UsageTotals,
+} from '@/lib/enrichment/costs';
+
+interface UsageReport {
+  since: string;
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byUser: (UsageTotals & { userId: string | null })[];
+  byModel: (UsageTotals & { provider: string; model: string })[];
+}
+
+const PERIODS = [7, 30, 90];
+
+const UsageTable = <T extends UsageTotals>({
+  title,
+  label,
+  rows,
+  getLabel,
+}: {
+  title: string;
+  label: string;
+  rows: T[];
+  getLabel: (row: T) => string;
+}) => {
+  const maxCost = Math.max(0, ...rows.map((row) => row.cost));
+
+  return (
+    <div className="p-4 bg-gray-100 dark:bg-[#111] rounded-md">
+      <h3 className="font-semibold mb-2 dark:text-white">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No LLM calls in this period.
+        </p>
+      ) : (
+        <table className="table-auto text-sm w-full dark:text-white">
+          <thead>
+            <tr className="text-left border-b border-gray-300 dark:border-gray-700">
+              <th className="p-2">{label}</th>
+              <th className="p-2">Calls</th>
+              <th className="p-2">Prompt tokens</th>
+              <th className="p-2">Completion tokens</th>
+              <th className="p-2">Cost</th>
+              <th className="p-2 w-1/4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={getLabel(row)}
+                className="border-t border-gray-200 dark:border-gray-800"
+              >
+                <td className="p-2 whitespace-nowrap">{getLabel(row)}</td>
+                <td className="p-2">{row.calls}</td>
+                <td className="p-2">{formatTokens(row.promptTokens)}</td>
+                <td className="p-2">{formatTokens(row.completionTokens)}</td>
+                <td className="p-2 whitespace-nowrap">
+                  {formatCost(row.cost)}
+                  {row.unpricedCalls > 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {' '}
+                      + {row.unpricedCalls} unpriced
+                    </span>
+                  )}
+                </td>
+                <td className="p-2">
+                  <div
+                    className="h-2 rounded bg-blue-500"
+                    style={{
+                      width: `${maxCost > 0 ? (row.cost / maxCost) * 100 : 0}%`,
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const Page = () => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/usage?days=${days}`);
+        const data = await res.json();
+
+        if (!res.ok) {
+          throw new Error(data.message);
+        }
+
+        setReport(data);
+      } catch (err: any) {
+        console.error('Error fetching usage:', err.message);
+        toast.error('Error fetching usage');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [days]);
+
+  const totals = report?.totals;
+
+  return (
+    <div className="pb-28 lg:pb-8">
+      <div className="flex flex-col pt-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <DollarSign />
+            <h1 className="text-3xl font-medium p-2">Costs</h1>
+          </div>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="bg-light-secondary dark:bg-dark-secondary border border-light-200 dark:border-dark-200 rounded-lg px-3 py-2 text-sm dark:text-white"
+          >
+            {PERIODS.map((period) => (
+              <option key={period} value={period}>
+                Last {period} days
+              </option>
+            ))}
+          </select>
+        </div>
+        <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      </div>
+
+      {loading && !report ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        report &&
+        totals && (
+          <div className="flex flex-col space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[
+                { label: 'Cost', value: formatCost(totals.cost) },
+                { label: 'LLM calls', value: String(totals.calls) },
+                {
+                  label: 'Tokens',
+                  value: formatTokens(
+                    totals.promptTokens + totals.completionTokens,
+                  ),
+                },
+                {
+                  label: 'Unpriced calls',
+                  value: String(totals.unpricedCalls),
+                },
+              ].map((card) => (
+                <div
+                  key={card.label}
+                  className="p-4 bg-gray-100 dark:bg-[#111] rounded-md"
+                >
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {card.label}
+                  </p>
+                  <p className="text-2xl font-semibold dark:text-white">
+                    {card.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+            {totals.estimatedCalls > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {totals.estimatedCalls} calls were to providers that report no
+                token usage, so their tokens are estimated from the text.
+              </p>
+            )}
+            <UsageTable
+              title="Per day (UTC)"
+              label="Day"
+              rows={report.byDay}
+              getLabel={(row) => row.day}
+            />
+            <UsageTable
+              title="Per user"
+              label="User"
+              rows={report.byUser}
+              getLabel={(row) => row.userId ?? 'Unattributed'}
+            />
+            <UsageTable
+              title="Per model"
+              label="Model"
+              rows={report.byModel}
+              getLabel={(row) => `${row.provider}/${row.model}`}
+            />
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default Page;
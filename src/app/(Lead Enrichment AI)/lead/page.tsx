@@ -12,6 +12,17 @@ import { getSuggestions } from '@/lib/actions';
 import { Settings } from 'lucide-react';
 import Link from 'next/link';
 import NextError from 'next/error';
+import readEventStream from '@/lib/utils/eventStream';
+import SourceCitations, { SourceCitation } from '@/components/SourceCitations';
+import { ScoreBreakdown } from '@/lib/enrichment/rubric';
+import { formatMoney } from '@/lib/enrichment/money';
+import { formatPerson, PersonProfile } from '@/lib/enrichment/person';
+import {
+  formatFieldConfidence,
+  StructuredDataConfidence,
+} from '@/lib/enrichment/fieldConfidence';
+import { formatUsage } from '@/lib/enrichment/costs';
+import { formatQuestionError } from '@/lib/enrichment/retry';
 
 export type Message = {
   messageId: string;
@@ -287,6 +298,34 @@ const loadMessages = async (
   setIsMessagesLoaded(true);
 };
 
+interface LeadEnrichmentProgress {
+  company: string;
+  chatId?: string;
+  status:
+    | 'queued'
+    | 'researching'
+    | 'scoring'
+    | 'completed'
+    | 'skipped'
+    | 'failed';
+  currentQuestion?: string;
+  answered: number;
+  total: number;
+  results: {
+    question: string;
+    answer: string;
+    sources: SourceCitation[];
+    structured?: Record<string, any>;
+    confidence?: StructuredDataConfidence;
+    // Set when every attempt failed
+    error?: string;
+  }[];
+  score?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  person?: PersonProfile;
+  error?: string;
+}
+
 interface LeadPageProps {
   params: { id?: string };
 }
@@ -294,125 +333,207 @@ interface LeadPageProps {
 // Lead component for handling lead enrichment
 const Lead = ({ params }: LeadPageProps) => {
   const { id } = params;
-  // State for lead enrichment email and domain
+  // State for lead enrichment emails
   const [leadEnrichmentEmail, setLeadEnrichmentEmail] = useState('');
-  const [leadEnrichmentDomain, setLeadEnrichmentDomain] = useState('');
-  // State for enriched leads results
-  const [leadEnrichmentResults, setLeadEnrichmentResults] = useState<{ question: string; answer: string }[]>([]);
-  // Ref to hold latest enrichment results for async handlers
-  const leadEnrichmentResultsRef = useRef<{ question: string; answer: string }[]>([]);
-  // Handler for lead enrichment process
+  const [isEnriching, setIsEnriching] = useState(false);
+  // Question sets the lead can be enriched with; empty uses the default set
+  const [questionSets, setQuestionSets] = useState<
+    { id: string; name: string; isDefault: boolean }[]
+  >([]);
+  const [questionSetId, setQuestionSetId] = useState('');
+  const [forceRefresh, setForceRefresh] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/question-sets')
+      .then((res) => res.json())
+      .then((data) => setQuestionSets(data.questionSets ?? []))
+      .catch((err) => console.error('Error fetching question sets:', err));
+  }, []);
+  // Live progress and results of each lead, keyed by email
+  const [leadEnrichmentProgress, setLeadEnrichmentProgress] = useState<
+    Record<string, LeadEnrichmentProgress>
+  >({});
+
+  const updateLeadProgress = (
+    email: string,
+    update: (lead: LeadEnrichmentProgress) => Partial<LeadEnrichmentProgress>,
+  ) => {
+    setLeadEnrichmentProgress((prev) => {
+      const lead = prev[email] ?? {
+        company: email.split('@')[1] ?? '',
+        status: 'queued',
+        answered: 0,
+        total: 0,
+        results: [],
+      };
+      return { ...prev, [email]: { ...lead, ...update(lead) } };
+    });
+  };
+
+  // Finished leads are saved by the enrichment, so they show up in the Lead
+  // Table. Re-runs are saved as a new version with what changed since the last.
+  const notifyLeadSaved = (result: any) => {
+    if (!result.version) {
+      toast.error(`Failed to save lead enrichment for ${result.email}`);
+      return;
+    }
+
+    const changes = result.changes?.length ?? 0;
+    toast.success(
+      result.version > 1
+        ? `Lead enrichment saved for ${result.email} (${changes} change${changes === 1 ? '' : 's'} since the last run)`
+        : `Lead enrichment saved for ${result.email}`,
+    );
+  };
+
+  // Handler for lead enrichment process. The server researches, scores and
+  // extracts fields for every lead and streams its progress back.
   const handleLeadEnrichment = async () => {
     // Split and validate email addresses
     const emails = leadEnrichmentEmail
       .split(',')
-      .map(e => e.trim())
-      .filter(e => e.includes('@'));
+      .map((e) => e.trim().toLowerCase())
+      .filter((e) => e.includes('@'));
 
     if (emails.length === 0) {
       toast.error('Please enter at least one valid email');
       return;
     }
 
-    // Process each email for enrichment
-    const extractCompanyInfo = (email: string) => {
-      const domain = email.split('@')[1];
-      const companyName = domain.split('.')[0];
-
-      return {
-        companyName,
-        fullDomain: domain,
-        searchQuery: `"${companyName}" site:${domain} OR "${companyName}" company`,
-        fallbackQuery: `"${companyName}.${domain.split('.').pop()}" company information`
-      };
-    };
-
-    for (const email of emails) {
-      const { companyName: company, fullDomain, searchQuery, fallbackQuery } = extractCompanyInfo(email);
-
-      // Generate a new chat ID for the enrichment process
-      const newChatId = crypto.randomBytes(20).toString('hex');
-      setChatId(newChatId);
-      setMessages([]);
-      setChatHistory([]);
-      setLeadEnrichmentDomain(company);
-      setLeadEnrichmentResults([]);
-
-      toast.success(`Started enrichment for: ${company}`);
-
-      // Define enrichment questions
-      const enrichmentQuestions = [
-        `What does ${fullDomain} company do? Please give a short description in two lines.`,
-        `What is the website of the company with the domain ${fullDomain}?`,
-        `What are the revenue figures for the company with the domain ${fullDomain}? Only include results related to this entity and list each figure along with the source name.`,
-        `What is the employee size of ${company} company? Please reply with only the number of employees in two short sentences, without additional explanation.`,
-        `How many years has ${company} company been in business? Please reply with only the number of years in two short sentences, without additional explanation.`,
-        `What is the latest funding news for ${company} company? Please reply with only the latest funding amount and date in two short sentences in bullet points, without additional explanation.`,
-        `Is ${company} in the Fortune 500 list? Please respond with a yes or no and one short supporting detail.`,
-        `Is ${company} in the Fortune 100 list? Please respond with a yes or no and one short supporting detail.`,
-        `Who are the clients of ${company}? List major clients or industries they serve.`,
-        `What is the industry classification of ${company}?`,
-        `What is the LinkedIn profile link of the company named ${company}? Return only the link.`,
-      ];
-
-      // Send each enrichment question as a message
-      for (const q of enrichmentQuestions) {
-        await sendMessage(q, undefined, false, newChatId);
-        await new Promise((resolve) => setTimeout(resolve, 4000));
-      }
-
-      // Wait for chat to settle before processing the next email
-      await new Promise((r) => setTimeout(r, 1500));
-
-      // Save enrichment results to the server
-      let extractedResults: { question: string; answer: string }[] = [];
-      extractedResults = leadEnrichmentResultsRef.current;
-      console.log("Extracted Results before POST:", extractedResults);
-      if (!extractedResults || extractedResults.length === 0) {
-        toast.error('No enrichment results to save for this lead.');
-        continue;
+    setIsEnriching(true);
+    setLeadEnrichmentProgress({});
+    emails.forEach((email) => updateLeadProgress(email, () => ({})));
+
+    try {
+      const res = await fetch('/api/enrich-leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          emails,
+          chatModelProvider,
+          embeddingModelProvider,
+          focusMode,
+          optimizationMode,
+          systemInstructions:
+            localStorage.getItem('systemInstructions') || undefined,
+          questionSetId: questionSetId || undefined,
+          forceRefresh,
+          stream: true,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || `Request failed: ${res.status}`);
       }
-      try {
-        console.log('Sending to /api/lead', {
-          email,
-          company,
-          chatId: newChatId,
-          results: extractedResults
-        });
-        const response = await fetch('/api/lead', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            email,
-            company, // this is the companyName for collection
-            chatId: newChatId,
-            results: extractedResults,
-          }),
-        });
-        const responseText = await response.clone().text();
-        console.log('Raw response from /api/lead:', responseText);
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Unknown error occurred');
+      await readEventStream(res, (event, data) => {
+        switch (event) {
+          case 'lead_researching':
+            toast.success(`Started enrichment for: ${data.company}`);
+            updateLeadProgress(data.email, () => ({
+              company: data.company,
+              chatId: data.chatId,
+              status: 'researching',
+            }));
+            break;
+          case 'question_started':
+            updateLeadProgress(data.email, () => ({
+              currentQuestion: data.question,
+              total: data.total,
+            }));
+            break;
+          case 'question_answered':
+            updateLeadProgress(data.email, (lead) => ({
+              answered: lead.answered + 1,
+              results: [
+                ...lead.results,
+                {
+                  question: data.question,
+                  answer: data.answer,
+                  sources: data.sources,
+                  structured: data.structured,
+                  confidence: data.confidence,
+                },
+              ],
+            }));
+            break;
+          case 'question_retrying':
+            updateLeadProgress(data.email, () => ({
+              currentQuestion: `${data.question} (retrying${data.fallback ? ' with the fallback model' : ''} after ${data.kind.replace('_', ' ')})`,
+            }));
+            break;
+          case 'question_failed':
+            updateLeadProgress(data.email, (lead) => ({
+              answered: lead.answered + 1,
+              results: [
+                ...lead.results,
+                {
+                  question: data.question,
+                  answer: '',
+                  sources: [],
+                  error: formatQuestionError(
+                    { kind: data.kind, message: data.error },
+                    data.attempts,
+                  ),
+                },
+              ],
+            }));
+            break;
+          case 'person_enriched':
+            updateLeadProgress(data.email, () => ({
+              person: data.person,
+            }));
+            break;
+          case 'scoring_started':
+            updateLeadProgress(data.email, () => ({
+              status: 'scoring',
+              currentQuestion: undefined,
+            }));
+            break;
+          case 'lead_finished':
+            updateLeadProgress(data.email, () => ({
+              status: 'completed',
+              score: data.result.score,
+              scoreBreakdown: data.result.scoreBreakdown,
+            }));
+            notifyLeadSaved(data.result);
+            break;
+          case 'lead_skipped':
+            updateLeadProgress(data.email, () => ({
+              status: 'skipped',
+              error: data.reason,
+            }));
+            toast.info(`${data.email}: ${data.reason}`);
+            break;
+          case 'lead_failed':
+            updateLeadProgress(data.email, () => ({
+              status: 'failed',
+              error: data.error,
+            }));
+            toast.error(`Enrichment failed for ${data.email}: ${data.error}`);
+            break;
+          case 'job_completed':
+            if (data.status === 'failed') {
+              toast.error(data.errors?.[0] || 'Lead enrichment failed');
+            }
+            if (data.usage?.calls) {
+              toast.info(`Enrichment used ${formatUsage(data.usage)}`);
+            }
+            break;
+          case 'error':
+            toast.error(data.message);
+            break;
         }
-
-        toast.success('Lead enrichment saved successfully');
-      } catch (err) {
-        console.error('Error saving lead enrichment:', err);
-        toast.error('Failed to save lead enrichment to database');
-      }
-
-      // Delay before processing the next email
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      });
+    } catch (err) {
+      console.error('Error enriching leads:', err);
+      toast.error('Lead enrichment failed');
+    } finally {
+      setIsEnriching(false);
     }
   };
 
-  // Sync leadEnrichmentResultsRef with the latest state
-  useEffect(() => {
-    leadEnrichmentResultsRef.current = leadEnrichmentResults;
-  }, [leadEnrichmentResults]);
-
   // Retrieve search parameters from the URL
   const searchParams = useSearchParams();
   const initialMessage = searchParams.get('q');
@@ -615,40 +736,6 @@ const Lead = ({ params }: LeadPageProps) => {
           ['assistant', recievedMessage],
         ]);
 
-        // Save all enrichment prompt responses
-        // Updated enrichment questions for matching
-        const enrichmentQuestions = [
-          `What does ${leadEnrichmentDomain} company do? Please give a short description in two lines.`,
-          `What is the website of the company with the domain ${leadEnrichmentDomain}?`,
-          `What are the revenue figures for the company with the domain ${leadEnrichmentDomain}? Only include results related to this entity and list each figure along with the source name.`,
-          `What is the employee size of ${leadEnrichmentDomain} company? Please reply with only the number of employees in two short sentences, without additional explanation.`,
-          `How many years has ${leadEnrichmentDomain} company been in business? Please reply with only the number of years in two short sentences, without additional explanation.`,
-          `What is the latest funding news for ${leadEnrichmentDomain} company? Please reply with only the latest funding amount and date in two short sentences in bullet points, without additional explanation.`,
-          `Is ${leadEnrichmentDomain} in the Fortune 500 list? Please respond with a yes or no and one short supporting detail.`,
-          `Is ${leadEnrichmentDomain} in the Fortune 100 list? Please respond with a yes or no and one short supporting detail.`,
-          `Who are the clients of ${leadEnrichmentDomain}? List major clients or industries they serve.`,
-          `What is the industry classification of ${leadEnrichmentDomain}?`,
-          `What is the LinkedIn profile link of the company named ${leadEnrichmentDomain}? Return only the link.`,
-        ];
-
-        // Check if message is one of the enrichment questions
-        // Use more flexible check: partial match by first word of enrichment question
-        if (
-          enrichmentQuestions.some(q =>
-            message.toLowerCase().includes(q.split(' ')[0].toLowerCase())
-          )
-        ) {
-          const answer = recievedMessage.trim();
-          const entry = { question: message, answer };
-          setLeadEnrichmentResults(prev => {
-            const updated = [...prev];
-            const idx = updated.findIndex(item => item.question === message);
-            if (idx > -1) updated[idx] = entry;
-            else updated.push(entry);
-            return updated;
-          });
-        }
-
         setLoading(false);
 
         const lastMsg = messagesRef.current[messagesRef.current.length - 1];
@@ -823,44 +910,138 @@ const Lead = ({ params }: LeadPageProps) => {
                   onChange={(e) => setLeadEnrichmentEmail(e.target.value)}
                   className="bg-[#111] text-white placeholder:text-gray-400 border border-gray-600 rounded-lg px-4 py-3 w-full sm:w-96 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+                {questionSets.length > 0 && (
+                  <select
+                    value={questionSetId}
+                    onChange={(e) => setQuestionSetId(e.target.value)}
+                    className="bg-[#111] text-white border border-gray-600 rounded-lg px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Default questions</option>
+                    {questionSets.map((set) => (
+                      <option key={set.id} value={set.id}>
+                        {set.isDefault ? `${set.name} (default)` : set.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label
+                  className="flex items-center gap-2 text-sm text-black/70 dark:text-white/70 whitespace-nowrap"
+                  title="Research the company again instead of reusing its cached profile"
+                >
+                  <input
+                    type="checkbox"
+                    checked={forceRefresh}
+                    onChange={(e) => setForceRefresh(e.target.checked)}
+                  />
+                  Refresh
+                </label>
                 <button
                   onClick={handleLeadEnrichment}
-                  className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg text-sm font-medium transition-all"
+                  disabled={isEnriching}
+                  className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-6 py-3 rounded-lg text-sm font-medium transition-all"
                 >
-                  Enrich Lead
+                  {isEnriching ? 'Enriching...' : 'Enrich Lead'}
                 </button>
               </div>
-              {leadEnrichmentDomain && (
-                <span className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                  Extracted company: {leadEnrichmentDomain}
-                </span>
-              )}
             </div>
           </div>
         </div>
         {/* End Lead Enrichment UI */}
         {/* Enriched Leads Table */}
-        {leadEnrichmentResults.length > 0 && (
-          <div className="p-4 mt-4 bg-gray-100 dark:bg-[#111] rounded-md">
-            <h3 className="font-semibold mb-2 dark:text-white">Extracted Lead Summary</h3>
-            <table className="table-auto text-sm w-full dark:text-white">
-              <thead>
-                <tr className="text-left border-b border-gray-300 dark:border-gray-700">
-                  <th className="p-2">Question</th>
-                  <th className="p-2">Answer</th>
-                </tr>
-              </thead>
-              <tbody>
-                {leadEnrichmentResults.map((item, i) => (
-                  <tr key={i} className="border-t border-gray-200 dark:border-gray-800">
-                    <td className="p-2">{item.question}</td>
-                    <td className="p-2">{item.answer}</td>
+        {Object.entries(leadEnrichmentProgress).map(([email, lead]) => (
+          <div
+            key={email}
+            className="p-4 mt-4 bg-gray-100 dark:bg-[#111] rounded-md"
+          >
+            <div className="flex flex-row items-center justify-between mb-2 dark:text-white">
+              <h3 className="font-semibold">
+                {lead.company}{' '}
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+                  {email}
+                </span>
+              </h3>
+              {lead.chatId && (
+                <Link
+                  href={`/c/${lead.chatId}`}
+                  className="text-sm text-blue-500 hover:underline"
+                >
+                  Open research chat
+                </Link>
+              )}
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              {lead.status === 'queued' && 'Waiting to start...'}
+              {lead.status === 'researching' &&
+                `Question ${Math.min(lead.answered + 1, lead.total)}/${lead.total}${lead.currentQuestion ? `: ${lead.currentQuestion}` : ''}`}
+              {lead.status === 'scoring' && 'Scoring lead...'}
+              {lead.status === 'completed' && `Completed. Score: ${lead.score ?? 'N/A'}${lead.scoreBreakdown ? `/${lead.scoreBreakdown.maxScore}` : ''}`}
+              {lead.status === 'skipped' && lead.error}
+              {lead.status === 'failed' && `Failed: ${lead.error}`}
+            </p>
+            {lead.person && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                Contact: {formatPerson(lead.person)}
+                {lead.person.profileUrl && (
+                  <>
+                    {' '}
+                    <a
+                      href={lead.person.profileUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-blue-500 hover:underline"
+                    >
+                      Profile
+                    </a>
+                  </>
+                )}
+              </p>
+            )}
+            {lead.results.length > 0 && (
+              <table className="table-auto text-sm w-full dark:text-white">
+                <thead>
+                  <tr className="text-left border-b border-gray-300 dark:border-gray-700">
+                    <th className="p-2">Question</th>
+                    <th className="p-2">Answer</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {lead.results.map((item, i) => (
+                    <tr
+                      key={i}
+                      className="border-t border-gray-200 dark:border-gray-800"
+                    >
+                      <td className="p-2">{item.question}</td>
+                      <td className="p-2">
+                        {item.error ? (
+                          <span className="text-red-500">{item.error}</span>
+                        ) : (
+                          item.answer
+                        )}
+                        {item.structured &&
+                          Object.entries(item.structured)
+                            .filter(([, value]) => value !== null)
+                            .map(([key, value]) => (
+                              <span
+                                key={key}
+                                className="block text-xs text-gray-500 dark:text-gray-400"
+                              >
+                                {key}:{' '}
+                                {typeof value === 'object' && !Array.isArray(value)
+                                  ? formatMoney(value)
+                                  : String(value)}
+                                {item.confidence?.[key] &&
+                                  ` (${formatFieldConfidence(item.confidence[key])})`}
+                              </span>
+                            ))}
+                        <SourceCitations sources={item.sources} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
           </div>
-        )}
+        ))}
         {/* End Enriched Leads Table */}
         {messages.length > 0 ? (
           <>
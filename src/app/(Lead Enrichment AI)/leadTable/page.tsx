@@ -1,220 +1,563 @@
 "use client";
 
-import { useEffect, useState, useTransition, useRef } from "react";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY!);
-
-type Lead = {
-  email: string;
-  domain: string;
-  chatId: string;
-  createdAt: string;
-  results: string;
-  score?: number;
-  reason?: string;
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, DialogPanel, DialogTitle, Transition, TransitionChild } from "@headlessui/react";
+import ColumnPicker from "@/components/LeadTable/ColumnPicker";
+import LeadDetailDrawer from "@/components/LeadTable/LeadDetailDrawer";
+import LeadFiltersBar from "@/components/LeadTable/LeadFiltersBar";
+import LeadImportDialog from "@/components/LeadTable/LeadImportDialog";
+import { DEFAULT_LEAD_COLUMNS, LEAD_COLUMNS, LeadCellContext } from "@/components/LeadTable/columns";
+import { formatLeadsCsv } from "@/lib/enrichment/leadExport";
+import {
+  DEFAULT_LEAD_SORT,
+  LeadListItem,
+  LeadPage,
+  LeadSortKey,
+  LeadView,
+  LeadViewSettings,
+  toLeadSearchParams,
+} from "@/lib/enrichment/leadQuery";
+import { toast } from "sonner";
+
+type Lead = LeadListItem;
+
+const JOB_POLL_INTERVAL_MS = 5000;
+const PAGE_SIZES = [25, 50, 100];
+
+const DEFAULT_VIEW: LeadViewSettings = {
+  columns: DEFAULT_LEAD_COLUMNS,
+  sort: DEFAULT_LEAD_SORT,
+  filters: {},
+  pageSize: PAGE_SIZES[0],
 };
 
-const scoreLeadWithGemini = async (lead: Lead): Promise<{ reason: string; score: number }> => {
-  const prompt = `
-  You are a lead scoring assistant.
-
-  Given the company's data below, assign a numeric score for each of the following criteria. Use this scoring logic:
-
-  🔸 Revenue Score (out of 20)
-    • > ₹80Cr or $10M → 20 pts
-    • ₹8Cr–₹80Cr or $1M–$10M → 15 pts
-    • ₹80L–₹8Cr or $100k–$1M → 10 pts
-    • < ₹80L or < $100k → 5 pts
-    • No data → 0 pts
-
-  🔸 Employee Size (out of 10)
-    • > 200 → 10 pts
-    • 51–200 → 7 pts
-    • 11–50 → 5 pts
-    • ≤ 10 → 2 pts
-    • No data → 0 pts
-
-  🔸 Years in Business (out of 10)
-    • > 10 years → 10 pts
-    • 5–10 years → 7 pts
-    • < 5 years → 4 pts
-    • No data → 0 pts
-
-  🔸 Funding Score (out of 15)
-    • > $5M or ₹40Cr → 15 pts
-    • < $5M or ₹40Cr → 10 pts
-    • No funding → 0 pts
-
-  🔸 Fortune 500 Presence (out of 10)
-    • In list → 10 pts
-    • Not in list → 0 pts
-
-  🔸 Fortune 100 Presence (out of 10)
-    • In list → 10 pts
-    • Not in list → 0 pts
-
-  🔸 Clients / Logos / Big Accounts (out of 15)
-    • Enterprise Clients or Well-known Brands → 15 pts
-    • Multiple Mid-size Clients → 10 pts
-    • Mostly Small Businesses → 5 pts
-    • No data → 0 pts
-
-  Add the individual scores and return a total score out of 90.
-  Then explain briefly why you gave this score.
-
-  Output ONLY in this format:
-
-  Revenue Score: <x>/20
-  Employee Size Score: <x>/10
-  Years in Business Score: <x>/10
-  Funding Score: <x>/15
-  Fortune 500 Score: <x>/10
-  Fortune 100 Score: <x>/10
-  Clients Score: <x>/15
-  Total Score: <x>/90
-  Reason: <short explanation>
-
-  Company Data:
-  ${lead.results}
-  `;
-
-  const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-  const chat = model.startChat();
-  const result = await chat.sendMessage(prompt);
-  const text = result.response.text();
-
-  let reason = "N/A",
-    score = 0;
-  try {
-    const scoreMatch = text.match(/Total Score:\s*(\d+(\.\d+)?)/);
-    const fullReason = text.match(/Revenue Score:.*(?:\n.*?)+Reason:\s*([\s\S]*)/);
-    score = scoreMatch ? parseFloat(scoreMatch[1]) : 0;
-    reason = fullReason ? text.trim() : "N/A";
-  } catch (err) {
-    reason = "Parse failed";
-    score = 0;
-  }
-
-  return { reason, score };
+const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 const LeadTablePage = () => {
   const [leads, setLeads] = useState<Lead[]>([]);
-  const [enriched, setEnriched] = useState(false);
-  const [isPending, startTransition] = useTransition();
-  const scoredLeadsCache = useRef<Lead[] | null>(null);
+  const [view, setView] = useState<LeadViewSettings>(DEFAULT_VIEW);
+  const [savedViews, setSavedViews] = useState<LeadView[]>([]);
+  // The saved view being shown, empty for the default one
+  const [viewId, setViewId] = useState("");
+  const [viewName, setViewName] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [detailEmail, setDetailEmail] = useState<string | null>(null);
+  // The bulk action running, so only one runs at a time
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Values rated below the threshold in config.toml are hidden unless asked for
+  const [minConfidence, setMinConfidence] = useState(0.5);
+  const [showLowConfidence, setShowLowConfidence] = useState(false);
+  // The cursor of every page up to the current one, for going back
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
   const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
 
-  useEffect(() => {
-    const fetchLeads = async () => {
-      const res = await fetch(`${BASE_URL}/api/lead`);
-      const json = await res.json();
-      console.log("Fetched leads from API:", json);
-      const data = Array.isArray(json) ? json : Array.isArray(json.data) ? json.data : [];
-      console.log("Parsed leads data:", data);
-      setLeads(data);
-    };
-    fetchLeads();
-  }, []);
+  // Leads are filtered, sorted and paged on the server
+  const loadPage = async (cursors = pageCursors, settings = view) => {
+    try {
+      const params = toLeadSearchParams({
+        ...settings.filters,
+        sort: settings.sort,
+        limit: settings.pageSize,
+        cursor: cursors[cursors.length - 1],
+      });
+      const res = await fetch(`${BASE_URL}/api/leads?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+
+      const page = data as LeadPage;
+      setLeads(page.leads);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      setPageCursors(cursors);
+      setSelected(new Set());
+    } catch (err) {
+      console.error("Error fetching leads:", err);
+      toast.error("Error fetching leads");
+    }
+  };
 
+  const reloadLeads = () => loadPage();
+  const pageStart = (pageCursors.length - 1) * view.pageSize;
+
+  // Any change to the view starts again from the first page
   useEffect(() => {
-    if (enriched) {
-      if (scoredLeadsCache.current) {
-        setLeads(scoredLeadsCache.current);
+    loadPage([undefined], view);
+  }, [view]);
+
+  const selectedLeads = leads.filter((lead) => selected.has(lead.email));
+  const detailLead = leads.find((lead) => lead.email === detailEmail) ?? null;
+  const columns = view.columns.flatMap((id) => LEAD_COLUMNS.filter((column) => column.id === id));
+
+  // Clicking a header sorts by it alone; shift-click adds it as a later key
+  const sortBy = (key: LeadSortKey, addKey: boolean) => {
+    const current = view.sort.find((item) => item.key === key);
+    const toggled = { key, direction: current?.direction === "asc" ? "desc" : "asc" } as const;
+    const sort = !addKey
+      ? [toggled]
+      : current
+        ? view.sort.map((item) => (item.key === key ? toggled : item))
+        : [...view.sort, toggled];
+    setView({ ...view, sort });
+  };
+
+  const toggleSelected = (email: string) => {
+    const next = new Set(selected);
+    if (next.has(email)) next.delete(email);
+    else next.add(email);
+    setSelected(next);
+  };
+
+  const loadViews = async () => {
+    try {
+      const data = await (await fetch(`${BASE_URL}/api/leads/views`)).json();
+      setSavedViews(data.views ?? []);
+    } catch (err) {
+      console.error("Error fetching saved views:", err);
+    }
+  };
+
+  const openView = (id: string) => {
+    const saved = savedViews.find((item) => item.id === id);
+    setViewId(id);
+    setViewName(saved?.name ?? "");
+    setView(
+      saved
+        ? { columns: saved.columns, sort: saved.sort, filters: saved.filters, pageSize: saved.pageSize }
+        : DEFAULT_VIEW,
+    );
+  };
+
+  // Saves over the open view, or as a new one when `asNew` is set
+  const saveView = async (asNew: boolean) => {
+    const name = viewName.trim();
+    if (!name) {
+      toast.error("Name the view to save it");
+      return;
+    }
+
+    try {
+      const res = await fetch(`${BASE_URL}/api/leads/views${asNew ? "" : `/${viewId}`}`, {
+        method: asNew ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, ...view }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+
+      await loadViews();
+      setViewId(data.view.id);
+      toast.success(`View "${name}" saved`);
+    } catch (err) {
+      console.error("Error saving view:", err);
+      toast.error(`Could not save the view: ${(err as Error).message}`);
+    }
+  };
+
+  const deleteView = async () => {
+    try {
+      const res = await fetch(`${BASE_URL}/api/leads/views/${viewId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).message);
+
+      await loadViews();
+      openView("");
+    } catch (err) {
+      console.error("Error deleting view:", err);
+      toast.error("Could not delete the view");
+    }
+  };
+
+  const waitForJob = async (jobId: string) => {
+    let job;
+    do {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      job = await (await fetch(`${BASE_URL}/api/enrich-leads/jobs/${jobId}`)).json();
+    } while (job.status === "queued" || job.status === "running");
+    return job;
+  };
+
+  // Researches the leads again and saves each run as its next version
+  const reEnrich = async (emails: string[]) => {
+    setBusy("enrich");
+    try {
+      const res = await fetch(`${BASE_URL}/api/enrich-leads`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails, forceRefresh: true }),
+      });
+      const { jobId, message } = await res.json();
+      if (!res.ok) throw new Error(message || "Could not start enrichment");
+
+      const job = await waitForJob(jobId);
+
+      // The enrichment saved every run as the lead's next version
+      const saved = (job.results ?? []).filter((result: any) => !result.error && result.version);
+      const changes = saved.reduce((count: number, result: any) => count + (result.changes?.length ?? 0), 0);
+      if (saved.length === 0) throw new Error(job.errors?.[0] || "Enrichment failed");
+
+      toast.success(
+        `${saved.length} of ${emails.length} lead${emails.length === 1 ? "" : "s"} re-enriched: ${changes} change${changes === 1 ? "" : "s"} since the last run`,
+      );
+      await reloadLeads();
+    } catch (err) {
+      console.error("Error re-enriching leads:", err);
+      toast.error(`Re-enrichment failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // The server scores with the rubric saved in settings and stores the scores
+  const reScore = async (emails: string[]) => {
+    setBusy("score");
+    try {
+      const res = await fetch(`${BASE_URL}/api/leads/score`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails }),
+      });
+      const { jobId, notFound, message } = await res.json();
+      if (!res.ok) throw new Error(message || "Could not start scoring");
+      if (!jobId) throw new Error("None of the leads are saved");
+
+      // The scores are saved as the job goes, so only the failures are read back
+      const job = await waitForJob(jobId);
+      const failed = [
+        ...(job.items ?? []).filter((item: any) => item.status === "failed"),
+        ...notFound.map((email: string) => ({ email, error: "Lead not found" })),
+      ];
+      if (failed.length > 0) {
+        toast.error(`${failed.length} of ${emails.length} leads could not be scored: ${failed[0].error || job.errors?.[0]}`);
+      } else {
+        toast.success(`${emails.length} lead${emails.length === 1 ? "" : "s"} re-scored`);
+      }
+      await reloadLeads();
+    } catch (err) {
+      console.error("Error scoring leads:", err);
+      toast.error(`Scoring failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportLeads = (targets: Lead[]) => {
+    downloadCsv(`leads-${new Date().toISOString().slice(0, 10)}.csv`, formatLeadsCsv(targets));
+  };
+
+  const deleteLeads = async (emails: string[]) => {
+    setBusy("delete");
+    try {
+      const res = await fetch(`${BASE_URL}/api/leads`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+
+      toast.success(`${data.deleted} lead${data.deleted === 1 ? "" : "s"} deleted`);
+      await reloadLeads();
+    } catch (err) {
+      console.error("Error deleting leads:", err);
+      toast.error("Could not delete the leads");
+    } finally {
+      setBusy(null);
+      setConfirmDelete(false);
+    }
+  };
+
+  const pushToCrm = async (emails: string[]) => {
+    setBusy("crm");
+    try {
+      const res = await fetch(`${BASE_URL}/api/leads/crm`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+
+      const failed = data.results.filter((result: any) => result.error);
+      if (failed.length > 0) {
+        failed.forEach((result: any) => console.error(`CRM push failed for ${result.email}: ${result.error}`));
+        toast.error(`${failed.length} of ${emails.length} leads could not be pushed: ${failed[0].error}`);
       } else {
-        startTransition(() => {
-          Promise.all(
-            leads.map(async (lead) => {
-              const { reason, score } = await scoreLeadWithGemini(lead);
-              return { ...lead, reason, score };
-            })
-          ).then((scoredLeads) => {
-            scoredLeads.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
-            scoredLeadsCache.current = scoredLeads;
-            setLeads(scoredLeads);
-          });
-        });
+        toast.success(`${emails.length} lead${emails.length === 1 ? "" : "s"} pushed to the CRM`);
       }
-    } else {
-      // Toggle OFF — reload original MongoDB data
-      const fetchLeads = async () => {
-        const res = await fetch("http://localhost:3000/api/lead");
-        const json = await res.json();
-        const data = Array.isArray(json) ? json : Array.isArray(json.data) ? json.data : [];
-        setLeads(data);
-      };
-      fetchLeads();
+    } catch (err) {
+      console.error("Error pushing leads to the CRM:", err);
+      toast.error(`CRM push failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
     }
-  }, [enriched]);
+  };
+
+  useEffect(() => {
+    fetch(`${BASE_URL}/api/config`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (typeof data.minFieldConfidence === "number") setMinConfidence(data.minFieldConfidence);
+      })
+      .catch((err) => console.error("Error fetching config:", err));
+
+    loadViews();
+  }, []);
+
+  // Imported leads show up as their enrichment saves them
+  const onImported = async (jobId: string | null, queued: number) => {
+    if (!jobId) {
+      toast.success("Lead attributes updated");
+      await reloadLeads();
+      return;
+    }
+
+    toast.success(`${queued} lead${queued === 1 ? "" : "s"} imported and queued for enrichment`);
+    try {
+      const job = await waitForJob(jobId);
+      const saved = (job.results ?? []).filter((result: any) => !result.error && result.version).length;
+      toast.success(`${saved} of ${queued} imported lead${queued === 1 ? "" : "s"} enriched`);
+      await reloadLeads();
+    } catch (err) {
+      console.error("Error watching the import's enrichment:", err);
+    }
+  };
+
+  // Replaces the picked value with another figure the sources gave
+  const overrideField = async (email: string, field: string, candidate: number) => {
+    try {
+      const res = await fetch(`${BASE_URL}/api/lead/${encodeURIComponent(email)}/fields/${encodeURIComponent(field)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ candidate }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Could not override the value");
+      toast.success(`${field} updated for ${email}`);
+      await reloadLeads();
+    } catch (err) {
+      console.error("Error overriding field:", err);
+      toast.error(`Could not update ${field} for ${email}`);
+    }
+  };
+
+  const cellContext: LeadCellContext = { minConfidence, showLowConfidence, onOverrideField: overrideField };
+  const selectedEmails = selectedLeads.map((lead) => lead.email);
+  const bulkActions = [
+    { id: "enrich", label: "Re-enrich", run: () => reEnrich(selectedEmails) },
+    { id: "score", label: "Re-score", run: () => reScore(selectedEmails) },
+    { id: "export", label: "Export CSV", run: () => exportLeads(selectedLeads) },
+    { id: "crm", label: "Push to CRM", run: () => pushToCrm(selectedEmails) },
+    { id: "delete", label: "Delete", run: () => setConfirmDelete(true) },
+  ];
 
   return (
     <div className="p-10 bg-surface text-on-surface min-h-screen">
-      <div className="flex justify-between items-center mb-4">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
         <h1 className="text-2xl font-bold">Lead Table</h1>
-        <label className="flex items-center space-x-2">
-          <span className="text-sm">Lead Enrichment</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={viewId}
+            onChange={(e) => openView(e.target.value)}
+            className="bg-transparent border border-surface-variant rounded px-2 py-1 text-sm"
+          >
+            <option value="">Default view</option>
+            {savedViews.map((item) => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
           <input
-            type="checkbox"
-            checked={enriched}
-            onChange={(e) => setEnriched(e.target.checked)}
-            className="form-checkbox"
+            type="text"
+            placeholder="View name"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            className="bg-transparent border border-surface-variant rounded px-2 py-1 text-sm w-36"
           />
-        </label>
+          {viewId && (
+            <>
+              <button onClick={() => saveView(false)} className="text-sm text-blue-500 hover:underline">Save</button>
+              <button onClick={deleteView} className="text-sm text-red-500 hover:underline">Delete view</button>
+            </>
+          )}
+          <button onClick={() => saveView(true)} className="text-sm text-blue-500 hover:underline">Save as new</button>
+          <button onClick={() => setImporting(true)} className="text-sm text-blue-500 hover:underline">Import</button>
+          <ColumnPicker columns={view.columns} setColumns={(ids) => setView({ ...view, columns: ids })} />
+          <label className="flex items-center space-x-2">
+            <span className="text-sm">Show low-confidence values</span>
+            <input
+              type="checkbox"
+              checked={showLowConfidence}
+              onChange={(e) => setShowLowConfidence(e.target.checked)}
+              className="form-checkbox"
+            />
+          </label>
+        </div>
+      </div>
+      <LeadFiltersBar filters={view.filters} onApply={(filters) => setView({ ...view, filters })} />
+      <div className="flex items-center gap-4 mb-2 text-sm min-h-[28px]">
+        {selected.size > 0 && (
+          <>
+            <span>{selected.size} selected</span>
+            {bulkActions.map((action) => (
+              <button
+                key={action.id}
+                onClick={action.run}
+                disabled={busy !== null}
+                className={`hover:underline disabled:opacity-50 ${action.id === "delete" ? "text-red-500" : "text-blue-500"}`}
+              >
+                {busy === action.id ? `${action.label}...` : action.label}
+              </button>
+            ))}
+          </>
+        )}
       </div>
-      <div className="rounded-xl shadow-lg overflow-x-auto max-w-full">
-        <table className="w-[1500px] table-auto divide-y divide-surface-variant border border-surface-variant">
-          <thead className="bg-surface-variant text-on-surface-variant">
+      {/* The grid scrolls inside its box so the header can stay in view */}
+      <div className="rounded-xl shadow-lg overflow-auto max-w-full max-h-[70vh] border border-surface-variant">
+        <table className="min-w-full table-auto text-sm">
+          <thead>
             <tr>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant rounded-tl-lg">Email</th>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant">Domain</th>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant">Created At</th>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant align-top w-[700px] max-w-[700px]">Results</th>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant">Score</th>
-              <th className="px-6 py-4 text-left font-medium text-on-surface uppercase tracking-wide border border-surface-variant w-[300px] align-top rounded-tr-lg max-w-[300px]">Reason</th>
+              <th className="sticky top-0 z-10 bg-surface-variant px-4 py-3 text-left">
+                <input
+                  type="checkbox"
+                  aria-label="Select all leads on this page"
+                  checked={leads.length > 0 && selected.size === leads.length}
+                  onChange={(e) => setSelected(new Set(e.target.checked ? leads.map((lead) => lead.email) : []))}
+                />
+              </th>
+              {columns.map((column) => {
+                const sortIndex = view.sort.findIndex((item) => item.key === column.sortKey);
+                const sort = view.sort[sortIndex];
+                return (
+                  <th
+                    key={column.id}
+                    onClick={(e) => column.sortKey && sortBy(column.sortKey, e.shiftKey)}
+                    title={column.sortKey ? "Click to sort, shift-click to add to the sort" : undefined}
+                    className={`sticky top-0 z-10 bg-surface-variant px-4 py-3 text-left font-medium uppercase tracking-wide whitespace-nowrap ${column.sortKey ? "cursor-pointer select-none" : ""}`}
+                  >
+                    {column.label}
+                    {sort && (
+                      <span className="ml-1 text-xs opacity-70">
+                        {sort.direction === "asc" ? "▲" : "▼"}
+                        {view.sort.length > 1 && sortIndex + 1}
+                      </span>
+                    )}
+                  </th>
+                );
+              })}
             </tr>
           </thead>
           <tbody>
             {leads.length === 0 ? (
               <tr>
-                <td colSpan={6} className="text-center px-6 py-4 text-sm text-on-surface">No leads found.</td>
+                <td colSpan={columns.length + 1} className="text-center px-6 py-4">No leads found.</td>
               </tr>
             ) : (
               leads.map((lead, idx) => (
-                <tr key={idx} className={idx % 2 === 0 ? 'bg-surface' : 'bg-surface-variant'}>
-                  <td className="px-6 py-4 text-sm text-on-surface align-middle whitespace-nowrap border border-surface-variant rounded-l-lg">{lead.email}</td>
-                  <td className="px-6 py-4 text-sm text-on-surface align-middle whitespace-nowrap border border-surface-variant">{lead.domain}</td>
-                  <td className="px-6 py-4 text-sm text-on-surface align-middle whitespace-nowrap border border-surface-variant">{lead.createdAt}</td>
-                  <td className="px-6 py-4 text-sm leading-snug text-on-surface align-top border border-surface-variant whitespace-pre-wrap w-[700px] max-w-[700px]">{(() => {
-                    let parsedResults;
-                    try {
-                      parsedResults = JSON.parse(lead.results);
-                    } catch {
-                      parsedResults = null;
-                    }
-                    if (Array.isArray(parsedResults)) {
-                      return parsedResults.map((item: any, idx: number) => (
-                        <div key={idx} className="rounded-lg shadow-md p-2 bg-surface-variant space-y-1 whitespace-normal leading-tight">
-                          <div>
-                            <p className="text-sm leading-snug text-on-surface"><strong>Q:</strong> {item.question}</p>
-                            <p className="text-sm leading-snug text-on-surface"><strong>A:</strong> {item.answer}</p>
-                          </div>
-                        </div>
-                      ));
-                    } else {
-                      return <p className="text-on-surface">{lead.results}</p>;
-                    }
-                  })()}</td>
-                  <td className="px-6 py-4 text-sm text-on-surface text-center align-middle border border-surface-variant">{lead.score ?? '-'}</td>
-                  <td className="px-6 py-4 text-sm text-on-surface align-top border border-surface-variant whitespace-pre-wrap w-[300px] rounded-r-lg">{lead.reason ?? '-'}</td>
+                <tr
+                  key={lead.email}
+                  onClick={() => setDetailEmail(lead.email)}
+                  className={`cursor-pointer hover:bg-blue-500/10 ${idx % 2 === 0 ? "bg-surface" : "bg-surface-variant"}`}
+                >
+                  <td className="px-4 py-3 align-top" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${lead.email}`}
+                      checked={selected.has(lead.email)}
+                      onChange={() => toggleSelected(lead.email)}
+                    />
+                  </td>
+                  {columns.map((column) => (
+                    <td key={column.id} className={`px-4 py-3 align-top border-t border-surface-variant ${column.className ?? ""}`}>
+                      {column.render(lead, cellContext)}
+                    </td>
+                  ))}
                 </tr>
               ))
             )}
           </tbody>
         </table>
       </div>
+      <div className="flex justify-between items-center mt-4 text-sm">
+        <span className="opacity-70">
+          {total === 0 ? "0 leads" : `${pageStart + 1}–${pageStart + leads.length} of ${total} leads`}
+        </span>
+        <div className="flex items-center space-x-4">
+          <select
+            value={view.pageSize}
+            onChange={(e) => setView({ ...view, pageSize: Number(e.target.value) })}
+            className="bg-transparent border border-surface-variant rounded px-2 py-1"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>{size} per page</option>
+            ))}
+          </select>
+          <button
+            onClick={() => loadPage(pageCursors.slice(0, -1))}
+            disabled={pageCursors.length === 1}
+            className="text-blue-500 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Previous
+          </button>
+          <button
+            onClick={() => nextCursor && loadPage([...pageCursors, nextCursor])}
+            disabled={!nextCursor}
+            className="text-blue-500 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+      <LeadDetailDrawer
+        lead={detailLead}
+        context={cellContext}
+        onClose={() => setDetailEmail(null)}
+        onRerun={(email) => reEnrich([email])}
+        rerunning={busy === "enrich"}
+      />
+      <LeadImportDialog open={importing} onClose={() => setImporting(false)} onImported={onImported} />
+      <Transition appear show={confirmDelete} as={Fragment}>
+        <Dialog as="div" className="relative z-50" onClose={() => busy === null && setConfirmDelete(false)}>
+          <div className="fixed inset-0 bg-black/30" />
+          <div className="fixed inset-0 flex items-center justify-center p-4">
+            <TransitionChild
+              as={Fragment}
+              enter="ease-out duration-200"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-100"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <DialogPanel className="w-full max-w-md rounded-2xl bg-surface text-on-surface p-6 shadow-xl">
+                <DialogTitle className="text-lg font-medium">Delete {selected.size} leads</DialogTitle>
+                <p className="text-sm mt-2">
+                  Every run, answer and score of these leads will be deleted. This cannot be undone.
+                </p>
+                <div className="flex justify-end space-x-4 mt-6 text-sm">
+                  <button onClick={() => setConfirmDelete(false)} disabled={busy !== null}>Cancel</button>
+                  <button
+                    onClick={() => deleteLeads(selectedEmails)}
+                    disabled={busy !== null}
+                    className="text-red-500 disabled:opacity-50"
+                  >
+                    {busy === "delete" ? "Deleting..." : "Delete"}
+                  </button>
+                </div>
+              </DialogPanel>
+            </TransitionChild>
+          </div>
+        </Dialog>
+      </Transition>
     </div>
   );
 };
 
-export default LeadTablePage;
\ No newline at end of file
+export default LeadTablePage;
@@ -1,6 +1,12 @@
 'use client';
 
-import { Settings as SettingsIcon, ArrowLeft, Loader2 } from 'lucide-react';
+import {
+  Settings as SettingsIcon,
+  ArrowLeft,
+  Loader2,
+  Plus,
+  Trash,
+} from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 import { Switch } from '@headlessui/react';
@@ -8,6 +14,17 @@ import ThemeSwitcher from '@/components/theme/Switcher';
 import { ImagesIcon, VideoIcon } from 'lucide-react';
 import Link from 'next/link';
 import { PROVIDER_METADATA } from '@/lib/providers';
+import {
+  ANSWER_TYPES,
+  EnrichmentQuestion,
+  QuestionOutputField,
+} from '@/lib/enrichment/questionTemplates';
+import {
+  CRITERION_TYPES,
+  getCriterionMaxPoints,
+  Rubric,
+  RubricCriterion,
+} from '@/lib/enrichment/rubric';
 
 interface SettingsType {
   chatModelProviders: {
@@ -27,6 +44,7 @@ interface SettingsType {
   customOpenaiApiKey: string;
   customOpenaiApiUrl: string;
   customOpenaiModelName: string;
+  scoringModel: { provider: string; name: string };
 }
 
 interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
@@ -127,6 +145,1119 @@ const SettingsSection = ({
   </div>
 );
 
+interface QuestionSet {
+  id: string;
+  name: string;
+  description: string | null;
+  questions: EnrichmentQuestion[];
+  isDefault: boolean;
+}
+
+const focusModeOptions = [
+  { value: '', label: 'Same as request' },
+  { value: 'webSearch', label: 'All' },
+  { value: 'academicSearch', label: 'Academic' },
+  { value: 'writingAssistant', label: 'Writing' },
+  { value: 'wolframAlphaSearch', label: 'Wolfram Alpha' },
+  { value: 'youtubeSearch', label: 'Youtube' },
+  { value: 'redditSearch', label: 'Reddit' },
+];
+
+const QuestionSetsSection = () => {
+  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
+  const [defaultQuestions, setDefaultQuestions] = useState<
+    EnrichmentQuestion[]
+  >([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [draft, setDraft] = useState<Omit<QuestionSet, 'id'> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQuestionSets = async () => {
+    const res = await fetch('/api/question-sets');
+    const data = await res.json();
+    setQuestionSets(data.questionSets);
+    setDefaultQuestions(data.defaultQuestions);
+    return data.questionSets as QuestionSet[];
+  };
+
+  useEffect(() => {
+    fetchQuestionSets();
+  }, []);
+
+  const selectQuestionSet = (id: string) => {
+    setSelectedId(id);
+    setError(null);
+
+    if (id === 'new') {
+      setDraft({
+        name: '',
+        description: '',
+        questions: defaultQuestions.map((question) => ({
+          ...question,
+          output: question.output?.map((field) => ({ ...field })),
+        })),
+        isDefault: false,
+      });
+      return;
+    }
+
+    const questionSet = questionSets.find((set) => set.id === id);
+    setDraft(
+      questionSet
+        ? {
+            ...questionSet,
+            questions: questionSet.questions.map((question) => ({
+              ...question,
+              output: question.output?.map((field) => ({ ...field })),
+            })),
+          }
+        : null,
+    );
+  };
+
+  const updateQuestion = (
+    index: number,
+    values: Partial<EnrichmentQuestion>,
+  ) => {
+    setDraft((prev) => ({
+      ...prev!,
+      questions: prev!.questions.map((question, i) =>
+        i === index ? { ...question, ...values } : question,
+      ),
+    }));
+  };
+
+  const updateOutputField = (
+    index: number,
+    fieldIndex: number,
+    values: Partial<QuestionOutputField>,
+  ) => {
+    const output = draft!.questions[index].output ?? [];
+    updateQuestion(index, {
+      output: output.map((field, i) =>
+        i === fieldIndex ? { ...field, ...values } : field,
+      ),
+    });
+  };
+
+  const saveQuestionSet = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(
+        selectedId === 'new'
+          ? '/api/question-sets'
+          : `/api/question-sets/${selectedId}`,
+        {
+          method: selectedId === 'new' ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft),
+        },
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to save question set');
+      }
+
+      await fetchQuestionSets();
+      setSelectedId(data.questionSet.id);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeQuestionSet = async () => {
+    if (selectedId === 'new') {
+      selectQuestionSet('');
+      return;
+    }
+
+    const res = await fetch(`/api/question-sets/${selectedId}`, {
+      method: 'DELETE',
+    });
+
+    if (!res.ok) {
+      setError('Failed to delete question set');
+      return;
+    }
+
+    await fetchQuestionSets();
+    selectQuestionSet('');
+  };
+
+  return (
+    <SettingsSection title="Enrichment Question Sets">
+      <div className="flex flex-col space-y-1">
+        <p className="text-black/70 dark:text-white/70 text-sm">
+          Question Set
+        </p>
+        <Select
+          value={selectedId}
+          onChange={(e) => selectQuestionSet(e.target.value)}
+          options={[
+            { value: '', label: 'Select a question set' },
+            ...questionSets.map((set) => ({
+              value: set.id,
+              label: set.isDefault ? `${set.name} (default)` : set.name,
+            })),
+            { value: 'new', label: '+ New question set' },
+          ]}
+        />
+        <p className="text-xs text-black/60 dark:text-white/60">
+          Leads are enriched with the default set unless a request passes a
+          questionSetId. Without a default set the built-in questions are
+          used. Templates can use the {'{company}'} and {'{domain}'}{' '}
+          placeholders.
+        </p>
+      </div>
+
+      {draft && (
+        <div className="flex flex-col space-y-4">
+          <div className="flex flex-col space-y-1">
+            <p className="text-black/70 dark:text-white/70 text-sm">Name</p>
+            <Input
+              type="text"
+              placeholder="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+
+          <div className="flex flex-col space-y-1">
+            <p className="text-black/70 dark:text-white/70 text-sm">
+              Description
+            </p>
+            <Input
+              type="text"
+              placeholder="Description"
+              value={draft.description ?? ''}
+              onChange={(e) =>
+                setDraft({ ...draft, description: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-black/70 dark:text-white/70 text-sm">
+              Use as default
+            </p>
+            <Switch
+              checked={draft.isDefault}
+              onChange={(checked) => setDraft({ ...draft, isDefault: checked })}
+              className={cn(
+                draft.isDefault
+                  ? 'bg-[#24A0ED]'
+                  : 'bg-light-200 dark:bg-dark-200',
+                'relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none',
+              )}
+            >
+              <span
+                className={cn(
+                  draft.isDefault ? 'translate-x-6' : 'translate-x-1',
+                  'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
+                )}
+              />
+            </Switch>
+          </div>
+
+          {draft.questions.map((question, index) => (
+            <div
+              key={index}
+              className="flex flex-col space-y-2 p-3 bg-light-secondary dark:bg-dark-secondary rounded-lg border border-light-200 dark:border-dark-200"
+            >
+              <div className="flex flex-row items-center space-x-2">
+                <Input
+                  type="text"
+                  placeholder="ID"
+                  value={question.id}
+                  onChange={(e) => updateQuestion(index, { id: e.target.value })}
+                />
+                <Select
+                  value={question.answerType}
+                  onChange={(e) =>
+                    updateQuestion(index, {
+                      answerType: e.target
+                        .value as EnrichmentQuestion['answerType'],
+                    })
+                  }
+                  options={ANSWER_TYPES.map((type) => ({
+                    value: type,
+                    label: type,
+                  }))}
+                />
+                <Select
+                  value={question.focusMode ?? ''}
+                  onChange={(e) =>
+                    updateQuestion(index, {
+                      focusMode: e.target.value || undefined,
+                    })
+                  }
+                  options={focusModeOptions}
+                />
+                <button
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      questions: draft.questions.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="p-2 text-black/70 dark:text-white/70 hover:text-red-500"
+                >
+                  <Trash size={16} />
+                </button>
+              </div>
+              <Textarea
+                placeholder="What does {company} do?"
+                value={question.template}
+                onChange={(e) =>
+                  updateQuestion(index, { template: e.target.value })
+                }
+              />
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Structured output
+              </p>
+              {(question.output ?? []).map((field, fieldIndex) => (
+                <div
+                  key={fieldIndex}
+                  className="flex flex-row items-center space-x-2"
+                >
+                  <Input
+                    type="text"
+                    placeholder="Key (e.g. employeeCount)"
+                    value={field.key}
+                    onChange={(e) =>
+                      updateOutputField(index, fieldIndex, {
+                        key: e.target.value,
+                      })
+                    }
+                  />
+                  <Select
+                    value={field.type}
+                    onChange={(e) =>
+                      updateOutputField(index, fieldIndex, {
+                        type: e.target.value as QuestionOutputField['type'],
+                      })
+                    }
+                    options={ANSWER_TYPES.map((type) => ({
+                      value: type,
+                      label: type,
+                    }))}
+                  />
+                  <Input
+                    type="text"
+                    placeholder="Description"
+                    value={field.description ?? ''}
+                    onChange={(e) =>
+                      updateOutputField(index, fieldIndex, {
+                        description: e.target.value,
+                      })
+                    }
+                  />
+                  <button
+                    onClick={() =>
+                      updateQuestion(index, {
+                        output: question.output!.filter(
+                          (_, i) => i !== fieldIndex,
+                        ),
+                      })
+                    }
+                    className="p-2 text-black/70 dark:text-white/70 hover:text-red-500"
+                  >
+                    <Trash size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updateQuestion(index, {
+                    output: [
+                      ...(question.output ?? []),
+                      { key: '', type: question.answerType },
+                    ],
+                  })
+                }
+                className="flex flex-row items-center space-x-1 text-xs text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+              >
+                <Plus size={14} />
+                <span>Add output field</span>
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() =>
+              setDraft({
+                ...draft,
+                questions: [
+                  ...draft.questions,
+                  {
+                    id: `question_${draft.questions.length + 1}`,
+                    template: '',
+                    answerType: 'text',
+                  },
+                ],
+              })
+            }
+            className="flex flex-row items-center space-x-1 text-sm text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+          >
+            <Plus size={16} />
+            <span>Add question</span>
+          </button>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex flex-row items-center justify-end space-x-2">
+            <button
+              onClick={removeQuestionSet}
+              className="px-4 py-2 rounded-lg text-sm text-red-500 border border-light-200 dark:border-dark-200"
+            >
+              {selectedId === 'new' ? 'Cancel' : 'Delete'}
+            </button>
+            <button
+              onClick={saveQuestionSet}
+              disabled={isSaving}
+              className="flex flex-row items-center space-x-2 px-4 py-2 rounded-lg text-sm text-white bg-[#24A0ED] disabled:opacity-50"
+            >
+              {isSaving && <Loader2 size={16} className="animate-spin" />}
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </SettingsSection>
+  );
+};
+
+const RUBRIC_CURRENCIES = ['USD', 'INR'];
+
+// Switching a criterion's type keeps its id and label but resets the rest
+const toCriterionType = (
+  criterion: RubricCriterion,
+  type: RubricCriterion['type'],
+): RubricCriterion => {
+  const base = {
+    id: criterion.id,
+    label: criterion.label,
+    notFoundPoints: criterion.notFoundPoints,
+  };
+  const field = 'field' in criterion ? criterion.field : '';
+
+  switch (type) {
+    case 'boolean':
+      return { ...base, type, field, truePoints: 10, falsePoints: 0 };
+    case 'llm':
+      return {
+        ...base,
+        type,
+        questionIds: [],
+        instructions: '',
+        bands: [{ label: '', points: 0 }],
+      };
+    default:
+      return { ...base, type, field, bands: [{ label: '', points: 0 }] };
+  }
+};
+
+const parseBound = (value: string) => (value === '' ? undefined : Number(value));
+
+const RubricSection = () => {
+  const [versions, setVersions] = useState<Rubric[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRubrics = async () => {
+    const res = await fetch('/api/rubrics');
+    const data = await res.json();
+    setVersions([...data.versions, data.defaultRubric]);
+    setSelectedVersion(data.rubric.version);
+    setCriteria(structuredClone(data.rubric.criteria));
+  };
+
+  useEffect(() => {
+    fetchRubrics();
+  }, []);
+
+  const loadVersion = (version: number) => {
+    const rubric = versions.find((rubric) => rubric.version === version);
+    if (rubric) setCriteria(structuredClone(rubric.criteria));
+    setError(null);
+  };
+
+  const updateCriterion = (index: number, criterion: RubricCriterion) => {
+    setCriteria((prev) => prev.map((c, i) => (i === index ? criterion : c)));
+  };
+
+  const updateBand = (index: number, bandIndex: number, values: any) => {
+    const criterion = criteria[index];
+    if (criterion.type === 'boolean') return;
+
+    updateCriterion(index, {
+      ...criterion,
+      bands: (criterion.bands as any[]).map((band, i) =>
+        i === bandIndex ? { ...band, ...values } : band,
+      ),
+    } as RubricCriterion);
+  };
+
+  const updateMoneyBound = (
+    index: number,
+    bandIndex: number,
+    bound: 'min' | 'max',
+    currency: string,
+    value: string,
+  ) => {
+    const criterion = criteria[index];
+    if (criterion.type !== 'money') return;
+
+    const bounds = { ...criterion.bands[bandIndex][bound] };
+    const amount = parseBound(value);
+    if (amount === undefined) delete bounds[currency];
+    else bounds[currency] = amount;
+
+    updateBand(index, bandIndex, {
+      [bound]: Object.keys(bounds).length > 0 ? bounds : undefined,
+    });
+  };
+
+  const saveRubric = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/rubrics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ criteria }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to save rubric');
+      }
+
+      await fetchRubrics();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const maxScore = criteria.reduce(
+    (total, criterion) => total + getCriterionMaxPoints(criterion),
+    0,
+  );
+
+  return (
+    <SettingsSection title="Lead Scoring Rubric">
+      <div className="flex flex-col space-y-1">
+        <p className="text-black/70 dark:text-white/70 text-sm">Version</p>
+        <Select
+          value={selectedVersion ?? ''}
+          onChange={(e) => {
+            setSelectedVersion(Number(e.target.value));
+            loadVersion(Number(e.target.value));
+          }}
+          options={versions.map((rubric) => ({
+            value: String(rubric.version),
+            label:
+              rubric.version <= 0
+                ? 'Built-in rubric'
+                : `Version ${rubric.version}`,
+          }))}
+        />
+        <p className="text-xs text-black/60 dark:text-white/60">
+          Points are calculated from the structured answers. The model only
+          picks a band for LLM criteria. Saving always creates a new version,
+          which becomes the active one. Amounts are compared in their own
+          currency when it has bounds, otherwise their USD equivalent is
+          compared with the USD bounds.
+        </p>
+      </div>
+
+      {criteria.map((criterion, index) => (
+        <div
+          key={index}
+          className="flex flex-col space-y-2 p-3 bg-light-secondary dark:bg-dark-secondary rounded-lg border border-light-200 dark:border-dark-200"
+        >
+          <div className="flex flex-row items-center space-x-2">
+            <Input
+              type="text"
+              placeholder="ID"
+              value={criterion.id}
+              onChange={(e) =>
+                updateCriterion(index, { ...criterion, id: e.target.value })
+              }
+            />
+            <Input
+              type="text"
+              placeholder="Label"
+              value={criterion.label}
+              onChange={(e) =>
+                updateCriterion(index, { ...criterion, label: e.target.value })
+              }
+            />
+            <Select
+              value={criterion.type}
+              onChange={(e) =>
+                updateCriterion(
+                  index,
+                  toCriterionType(
+                    criterion,
+                    e.target.value as RubricCriterion['type'],
+                  ),
+                )
+              }
+              options={CRITERION_TYPES.map((type) => ({
+                value: type,
+                label: type,
+              }))}
+            />
+            <button
+              onClick={() =>
+                setCriteria(criteria.filter((_, i) => i !== index))
+              }
+              className="p-2 text-black/70 dark:text-white/70 hover:text-red-500"
+            >
+              <Trash size={16} />
+            </button>
+          </div>
+
+          {criterion.type === 'llm' ? (
+            <>
+              <Input
+                type="text"
+                placeholder="Question ids, comma separated (e.g. clients)"
+                value={criterion.questionIds.join(', ')}
+                onChange={(e) =>
+                  updateCriterion(index, {
+                    ...criterion,
+                    questionIds: e.target.value
+                      .split(',')
+                      .map((id) => id.trim())
+                      .filter(Boolean),
+                  })
+                }
+              />
+              <Textarea
+                placeholder="What should the model judge?"
+                value={criterion.instructions}
+                onChange={(e) =>
+                  updateCriterion(index, {
+                    ...criterion,
+                    instructions: e.target.value,
+                  })
+                }
+              />
+            </>
+          ) : (
+            <Input
+              type="text"
+              placeholder="Structured field (e.g. employeeCount)"
+              value={criterion.field}
+              onChange={(e) =>
+                updateCriterion(index, { ...criterion, field: e.target.value })
+              }
+            />
+          )}
+
+          <div className="flex flex-row items-center space-x-2">
+            <p className="text-xs text-black/60 dark:text-white/60 whitespace-nowrap">
+              Not found
+            </p>
+            <Input
+              type="number"
+              placeholder="0"
+              value={criterion.notFoundPoints ?? ''}
+              onChange={(e) =>
+                updateCriterion(index, {
+                  ...criterion,
+                  notFoundPoints: parseBound(e.target.value),
+                })
+              }
+            />
+          </div>
+
+          {criterion.type === 'boolean' ? (
+            <div className="flex flex-row items-center space-x-2">
+              <p className="text-xs text-black/60 dark:text-white/60">Yes</p>
+              <Input
+                type="number"
+                value={criterion.truePoints}
+                onChange={(e) =>
+                  updateCriterion(index, {
+                    ...criterion,
+                    truePoints: Number(e.target.value),
+                  })
+                }
+              />
+              <p className="text-xs text-black/60 dark:text-white/60">No</p>
+              <Input
+                type="number"
+                value={criterion.falsePoints}
+                onChange={(e) =>
+                  updateCriterion(index, {
+                    ...criterion,
+                    falsePoints: Number(e.target.value),
+                  })
+                }
+              />
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Bands, first match wins
+                {criterion.type !== 'llm' &&
+                  ' (minimum is inclusive, maximum exclusive)'}
+              </p>
+              {criterion.bands.map((band, bandIndex) => (
+                <div
+                  key={bandIndex}
+                  className="flex flex-row flex-wrap items-center gap-2"
+                >
+                  <Input
+                    type="text"
+                    placeholder="Label"
+                    value={band.label}
+                    onChange={(e) =>
+                      updateBand(index, bandIndex, { label: e.target.value })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    placeholder="Points"
+                    value={band.points}
+                    onChange={(e) =>
+                      updateBand(index, bandIndex, {
+                        points: Number(e.target.value),
+                      })
+                    }
+                  />
+                  {criterion.type === 'number' &&
+                    (['min', 'max'] as const).map((bound) => (
+                      <Input
+                        key={bound}
+                        type="number"
+                        placeholder={bound === 'min' ? 'Min' : 'Max'}
+                        value={criterion.bands[bandIndex][bound] ?? ''}
+                        onChange={(e) =>
+                          updateBand(index, bandIndex, {
+                            [bound]: parseBound(e.target.value),
+                          })
+                        }
+                      />
+                    ))}
+                  {criterion.type === 'money' &&
+                    (['min', 'max'] as const).flatMap((bound) =>
+                      RUBRIC_CURRENCIES.map((currency) => (
+                        <Input
+                          key={`${bound}-${currency}`}
+                          type="number"
+                          placeholder={`${bound === 'min' ? 'Min' : 'Max'} ${currency}`}
+                          value={
+                            criterion.bands[bandIndex][bound]?.[currency] ?? ''
+                          }
+                          onChange={(e) =>
+                            updateMoneyBound(
+                              index,
+                              bandIndex,
+                              bound,
+                              currency,
+                              e.target.value,
+                            )
+                          }
+                        />
+                      )),
+                    )}
+                  <button
+                    onClick={() =>
+                      updateCriterion(index, {
+                        ...criterion,
+                        bands: (criterion.bands as any[]).filter(
+                          (_, i) => i !== bandIndex,
+                        ),
+                      } as RubricCriterion)
+                    }
+                    className="p-2 text-black/70 dark:text-white/70 hover:text-red-500"
+                  >
+                    <Trash size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  updateCriterion(index, {
+                    ...criterion,
+                    bands: [...criterion.bands, { label: '', points: 0 }],
+                  } as RubricCriterion)
+                }
+                className="flex flex-row items-center space-x-1 text-xs text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+              >
+                <Plus size={14} />
+                <span>Add band</span>
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() =>
+          setCriteria([
+            ...criteria,
+            {
+              id: `criterion_${criteria.length + 1}`,
+              label: '',
+              type: 'number',
+              field: '',
+              bands: [{ label: '', points: 0 }],
+            },
+          ])
+        }
+        className="flex flex-row items-center space-x-1 text-sm text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+      >
+        <Plus size={16} />
+        <span>Add criterion</span>
+      </button>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex flex-row items-center justify-between">
+        <p className="text-sm text-black/70 dark:text-white/70">
+          Maximum score: {maxScore}
+        </p>
+        <button
+          onClick={saveRubric}
+          disabled={isSaving}
+          className="flex flex-row items-center space-x-2 px-4 py-2 rounded-lg text-sm text-white bg-[#24A0ED] disabled:opacity-50"
+        >
+          {isSaving && <Loader2 size={16} className="animate-spin" />}
+          <span>Save as new version</span>
+        </button>
+      </div>
+    </SettingsSection>
+  );
+};
+
+interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  action: 'reenrich' | 'score';
+  minScore: number | null;
+  savedWithinHours: number | null;
+  questionSetId: string | null;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+}
+
+interface ScheduleRun {
+  id: number;
+  startedAt: string;
+  leadCount: number;
+  status: string;
+  completedAt: string | null;
+  error?: string;
+  progress?: { completed: number; failed: number; skipped: number };
+}
+
+type ScheduleDraft = Omit<Schedule, 'id' | 'nextRunAt' | 'lastRunAt'>;
+
+const emptySchedule: ScheduleDraft = {
+  name: '',
+  cron: '0 9 * * mon',
+  action: 'reenrich',
+  minScore: null,
+  savedWithinHours: null,
+  questionSetId: null,
+  enabled: true,
+};
+
+const scheduleActionOptions = [
+  { value: 'reenrich', label: 'Re-enrich (research again)' },
+  { value: 'score', label: 'Score (reuse cached profiles)' },
+];
+
+const parseOptionalNumber = (value: string) =>
+  value === '' ? null : Number(value);
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '-';
+
+const SchedulesSection = () => {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [runs, setRuns] = useState<Record<string, ScheduleRun[]>>({});
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = async () => {
+    const res = await fetch('/api/schedules');
+    const data = await res.json();
+    setSchedules(data.schedules);
+  };
+
+  const fetchRuns = async (id: string) => {
+    const res = await fetch(`/api/schedules/${id}/runs`);
+    const data = await res.json();
+    setRuns((prev) => ({ ...prev, [id]: data.runs }));
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const saveSchedule = async (id: string | null, schedule: ScheduleDraft) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch(id ? `/api/schedules/${id}` : '/api/schedules', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to save schedule');
+      }
+
+      await fetchSchedules();
+      if (!id) setDraft(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeSchedule = async (id: string) => {
+    const res = await fetch(`/api/schedules/${id}`, { method: 'DELETE' });
+
+    if (!res.ok) {
+      setError('Failed to delete schedule');
+      return;
+    }
+
+    await fetchSchedules();
+  };
+
+  const runNow = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/schedules/${id}/runs`, { method: 'POST' });
+
+    if (!res.ok) {
+      setError('Failed to run schedule');
+      return;
+    }
+
+    await Promise.all([fetchSchedules(), fetchRuns(id)]);
+    setOpenLogId(id);
+  };
+
+  const toggleLog = async (id: string) => {
+    if (openLogId === id) {
+      setOpenLogId(null);
+      return;
+    }
+
+    await fetchRuns(id);
+    setOpenLogId(id);
+  };
+
+  return (
+    <SettingsSection title="Scheduled Enrichment">
+      <p className="text-xs text-black/60 dark:text-white/60">
+        Schedules run saved leads through enrichment again on a cron
+        expression (minute hour day-of-month month day-of-week, in server
+        time), e.g. {'"0 9 * * mon"'} for Mondays at 9:00 or {'"0 2 * * *"'}{' '}
+        nightly. Results are saved as new versions of each lead.
+      </p>
+
+      {schedules.map((schedule) => (
+        <div
+          key={schedule.id}
+          className="flex flex-col space-y-2 p-3 bg-light-secondary dark:bg-dark-secondary rounded-lg border border-light-200 dark:border-dark-200"
+        >
+          <div className="flex flex-row items-center justify-between">
+            <div className="flex flex-col">
+              <p className="text-sm text-black/90 dark:text-white/90">
+                {schedule.name}
+              </p>
+              <p className="text-xs text-black/60 dark:text-white/60">
+                <code>{schedule.cron}</code> ·{' '}
+                {schedule.action === 'reenrich' ? 'Re-enrich' : 'Score'}
+                {schedule.minScore !== null &&
+                  ` · score above ${schedule.minScore}`}
+                {schedule.savedWithinHours !== null &&
+                  ` · saved in the last ${schedule.savedWithinHours}h`}
+              </p>
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Next run: {formatDateTime(schedule.nextRunAt)} · Last run:{' '}
+                {formatDateTime(schedule.lastRunAt)}
+              </p>
+            </div>
+            <Switch
+              checked={schedule.enabled}
+              onChange={(checked) =>
+                saveSchedule(schedule.id, { ...schedule, enabled: checked })
+              }
+              className={cn(
+                schedule.enabled
+                  ? 'bg-[#24A0ED]'
+                  : 'bg-light-200 dark:bg-dark-200',
+                'relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none',
+              )}
+            >
+              <span
+                className={cn(
+                  schedule.enabled ? 'translate-x-6' : 'translate-x-1',
+                  'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
+                )}
+              />
+            </Switch>
+          </div>
+
+          <div className="flex flex-row items-center justify-end space-x-3 text-xs">
+            <button
+              onClick={() => toggleLog(schedule.id)}
+              className="text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+            >
+              {openLogId === schedule.id ? 'Hide run log' : 'Run log'}
+            </button>
+            <button
+              onClick={() => runNow(schedule.id)}
+              className="text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+            >
+              Run now
+            </button>
+            <button
+              onClick={() => removeSchedule(schedule.id)}
+              className="p-1 text-black/70 dark:text-white/70 hover:text-red-500"
+            >
+              <Trash size={14} />
+            </button>
+          </div>
+
+          {openLogId === schedule.id && (
+            <div className="flex flex-col space-y-1 text-xs text-black/70 dark:text-white/70">
+              {(runs[schedule.id] ?? []).length === 0 ? (
+                <p>No runs yet.</p>
+              ) : (
+                runs[schedule.id].map((run) => (
+                  <p key={run.id}>
+                    {formatDateTime(run.startedAt)} · {run.leadCount} lead
+                    {run.leadCount === 1 ? '' : 's'} · {run.status}
+                    {run.progress &&
+                      ` (${run.progress.completed} completed, ${run.progress.skipped} skipped, ${run.progress.failed} failed)`}
+                    {run.error && (
+                      <span className="text-red-500"> · {run.error}</span>
+                    )}
+                  </p>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="flex flex-col space-y-2 p-3 bg-light-secondary dark:bg-dark-secondary rounded-lg border border-light-200 dark:border-dark-200">
+          <Input
+            type="text"
+            placeholder="Name (e.g. Weekly re-enrichment of hot leads)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <div className="flex flex-row items-center space-x-2">
+            <Input
+              type="text"
+              placeholder="Cron expression"
+              value={draft.cron}
+              onChange={(e) => setDraft({ ...draft, cron: e.target.value })}
+            />
+            <Select
+              value={draft.action}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  action: e.target.value as Schedule['action'],
+                })
+              }
+              options={scheduleActionOptions}
+            />
+          </div>
+          <div className="flex flex-row items-center space-x-2">
+            <Input
+              type="number"
+              placeholder="Only scores above"
+              value={draft.minScore ?? ''}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  minScore: parseOptionalNumber(e.target.value),
+                })
+              }
+            />
+            <Input
+              type="number"
+              placeholder="Only saved in the last N hours"
+              value={draft.savedWithinHours ?? ''}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  savedWithinHours: parseOptionalNumber(e.target.value),
+                })
+              }
+            />
+          </div>
+          <div className="flex flex-row items-center justify-end space-x-2">
+            <button
+              onClick={() => {
+                setDraft(null);
+                setError(null);
+              }}
+              className="px-4 py-2 rounded-lg text-sm text-red-500 border border-light-200 dark:border-dark-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => saveSchedule(null, draft)}
+              disabled={isSaving}
+              className="flex flex-row items-center space-x-2 px-4 py-2 rounded-lg text-sm text-white bg-[#24A0ED] disabled:opacity-50"
+            >
+              {isSaving && <Loader2 size={16} className="animate-spin" />}
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft({ ...emptySchedule })}
+          className="flex flex-row items-center space-x-1 text-sm text-black/70 dark:text-white/70 hover:text-[#24A0ED]"
+        >
+          <Plus size={16} />
+          <span>Add schedule</span>
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </SettingsSection>
+  );
+};
+
 const Page = () => {
   const [config, setConfig] = useState<SettingsType | null>(null);
   const [chatModels, setChatModels] = useState<Record<string, any>>({});
@@ -557,6 +1688,8 @@ const Page = () => {
               </div>
             </SettingsSection>
 
+            <QuestionSetsSection />
+
             <SettingsSection title="Model Settings">
               {config.chatModelProviders && (
                 <div className="flex flex-col space-y-4">
@@ -778,6 +1911,77 @@ const Page = () => {
               )}
             </SettingsSection>
 
+            <RubricSection />
+
+            <SchedulesSection />
+
+            <SettingsSection title="Lead Scoring Model">
+              <div className="flex flex-col space-y-4">
+                <div className="flex flex-col space-y-1">
+                  <p className="text-black/70 dark:text-white/70 text-sm">
+                    Scoring Model Provider
+                  </p>
+                  <Select
+                    value={config.scoringModel?.provider ?? ''}
+                    onChange={(e) => {
+                      const provider = e.target.value;
+                      const scoringModel = {
+                        provider,
+                        name:
+                          config.chatModelProviders[provider]?.[0]?.name ?? '',
+                      };
+                      setConfig((prev) => ({ ...prev!, scoringModel }));
+                      saveConfig('scoringModel', scoringModel);
+                    }}
+                    options={[
+                      { value: '', label: 'Same as chat model' },
+                      ...Object.keys(config.chatModelProviders).map(
+                        (provider) => ({
+                          value: provider,
+                          label:
+                            (PROVIDER_METADATA as any)[provider]?.displayName ||
+                            provider.charAt(0).toUpperCase() +
+                              provider.slice(1),
+                        }),
+                      ),
+                    ]}
+                  />
+                  <p className="text-xs text-black/60 dark:text-white/60">
+                    Used to score leads and extract fields from their answers.
+                    Pick a local provider to keep enrichment off hosted APIs.
+                  </p>
+                </div>
+
+                {config.scoringModel?.provider &&
+                  config.scoringModel.provider !== 'custom_openai' && (
+                    <div className="flex flex-col space-y-1">
+                      <p className="text-black/70 dark:text-white/70 text-sm">
+                        Scoring Model
+                      </p>
+                      <Select
+                        value={config.scoringModel.name}
+                        onChange={(e) => {
+                          const scoringModel = {
+                            ...config.scoringModel,
+                            name: e.target.value,
+                          };
+                          setConfig((prev) => ({ ...prev!, scoringModel }));
+                          saveConfig('scoringModel', scoringModel);
+                        }}
+                        options={(
+                          config.chatModelProviders[
+                            config.scoringModel.provider
+                          ] ?? []
+                        ).map((model) => ({
+                          value: model.name,
+                          label: model.displayName,
+                        }))}
+                      />
+                    </div>
+                  )}
+              </div>
+            </SettingsSection>
+
             <SettingsSection title="API Keys">
               <div className="flex flex-col space-y-4">
                 <div className="flex flex-col space-y-1">
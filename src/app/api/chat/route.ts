@@ -21,6 +21,11 @@ import {
   getCustomOpenaiModelName,
 } from '@/lib/config';
 import { searchHandlers } from '@/lib/search';
+import {
+  createUsageHandler,
+  getRequestAttribution,
+  UsageAttribution,
+} from '@/lib/enrichment/usage';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -50,6 +55,9 @@ type Body = {
   chatModel: ChatModel;
   embeddingModel: EmbeddingModel;
   systemInstructions: string;
+  // Set by lead enrichment, so its calls are counted against the lead. Only
+  // honored with the server's usage token, see getRequestAttribution.
+  usage?: UsageAttribution;
 };
 
 const handleEmitterEvents = async (
@@ -121,7 +129,7 @@ const handleEmitterEvents = async (
         JSON.stringify({
           type: 'error',
           data: parsedData.data,
-        }),
+        }) + '\n',
       ),
     );
     writer.close();
@@ -200,14 +208,12 @@ export const POST = async (req: Request) => {
       getAvailableEmbeddingModelProviders(),
     ]);
 
-    const chatModelProvider =
-      chatModelProviders[
-        body.chatModel?.provider || Object.keys(chatModelProviders)[0]
-      ];
-    const chatModel =
-      chatModelProvider[
-        body.chatModel?.name || Object.keys(chatModelProvider)[0]
-      ];
+    const chatModelProviderKey =
+      body.chatModel?.provider || Object.keys(chatModelProviders)[0];
+    const chatModelProvider = chatModelProviders[chatModelProviderKey];
+    const chatModelName =
+      body.chatModel?.name || Object.keys(chatModelProvider)[0];
+    const chatModel = chatModelProvider[chatModelName];
 
     const embeddingProvider =
       embeddingModelProviders[
@@ -238,6 +244,20 @@ export const POST = async (req: Request) => {
       return Response.json({ error: 'Invalid chat model' }, { status: 400 });
     }
 
+    // Counts every call the search agent makes, its summaries included
+    llm.callbacks = [
+      createUsageHandler(
+        {
+          provider: chatModelProviderKey,
+          name:
+            body.chatModel?.provider === 'custom_openai'
+              ? getCustomOpenaiModelName()
+              : chatModelName,
+        },
+        getRequestAttribution(req, body.usage),
+      ),
+    ];
+
     if (!embedding) {
       return Response.json(
         { error: 'Invalid embedding model' },
@@ -10,6 +10,9 @@ import {
   getDeepseekApiKey,
   getAimlApiKey,
   getLMStudioApiEndpoint,
+  getMinFieldConfidence,
+  getScoringModelName,
+  getScoringModelProvider,
   updateConfig,
 } from '@/lib/config';
 import {
@@ -62,6 +65,11 @@ export const GET = async (req: Request) => {
     config['customOpenaiApiUrl'] = getCustomOpenaiApiUrl();
     config['customOpenaiApiKey'] = getCustomOpenaiApiKey();
     config['customOpenaiModelName'] = getCustomOpenaiModelName();
+    config['scoringModel'] = {
+      provider: getScoringModelProvider(),
+      name: getScoringModelName(),
+    };
+    config['minFieldConfidence'] = getMinFieldConfidence();
 
     return Response.json({ ...config }, { status: 200 });
   } catch (err) {
@@ -109,6 +117,10 @@ export const POST = async (req: Request) => {
           MODEL_NAME: config.customOpenaiModelName,
         },
       },
+      ENRICHMENT: {
+        SCORING_MODEL_PROVIDER: config.scoringModel?.provider,
+        SCORING_MODEL_NAME: config.scoringModel?.name,
+      },
     };
 
     updateConfig(updatedConfig);
@@ -0,0 +1,16 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0; // do not cache
+
+import { NextRequest } from 'next/server';
+import { createJobEventStream, SSE_HEADERS } from '@/lib/enrichment/jobStream';
+
+// GET /api/enrich-leads/jobs/:id/events - live progress as Server-Sent Events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  return new Response(createJobEventStream(id), { headers: SSE_HEADERS });
+}
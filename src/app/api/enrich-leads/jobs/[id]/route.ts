@@ -0,0 +1,54 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0; // do not cache
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEnrichmentJob } from '@/lib/enrichment/jobs';
+import { getJobUsage } from '@/lib/enrichment/usage';
+
+// GET /api/enrich-leads/jobs/:id - job status, per-email progress and results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const job = await getEnrichmentJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: job.status !== 'failed',
+        ...job,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          totalEmails: job.progress.total,
+          successfulEnrichments: job.progress.completed,
+          failedEnrichments: job.progress.failed,
+          // Grows while the job runs
+          usage: await getJobUsage(id),
+        },
+      },
+      { headers: { 'Cache-Control': 'no-store' } },
+    );
+  } catch (error) {
+    console.error('💥 Error fetching enrichment job:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'An unexpected error occurred',
+      },
+      { status: 500 },
+    );
+  }
+}
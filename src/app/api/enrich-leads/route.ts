@@ -2,13 +2,14 @@
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0; // do not cache
-export const maxDuration = 60; // seconds
 
 // File: /api/enrich-leads/route.ts (Next.js 13+ App Router)
 // Or /pages/api/enrich-leads.ts (Next.js Pages Router)
 
 import { NextRequest, NextResponse } from 'next/server';
-import { enrichLeads, enrichSingleLead, LeadEnrichmentParams } from '@/lib/runEnrichment';
+import { createEnrichmentJob, EnrichmentJobParams } from '@/lib/enrichment/jobs';
+import { createJobEventStream, SSE_HEADERS } from '@/lib/enrichment/jobStream';
+import { getQuestionSet } from '@/lib/enrichment/questionSets';
 
 const MAX_EMAILS = 50; // hard cap to protect server
 
@@ -26,7 +27,11 @@ interface EnrichLeadsRequest {
   focusMode?: string;
   optimizationMode?: string;
   systemInstructions?: string;
-  singleMode?: boolean; // For testing single email enrichment
+  questionSetId?: string;
+  forceRefresh?: boolean;
+  stream?: boolean;
+  // Who the LLM cost of the job is counted against
+  userId?: string;
 }
 
 // Input validation function
@@ -94,6 +99,18 @@ function validateRequest(body: any): { isValid: boolean; error?: string; data?:
     };
   }
 
+  if (body.questionSetId !== undefined && typeof body.questionSetId !== 'string') {
+    return { isValid: false, error: 'questionSetId must be a string' };
+  }
+
+  if (body.forceRefresh !== undefined && typeof body.forceRefresh !== 'boolean') {
+    return { isValid: false, error: 'forceRefresh must be a boolean' };
+  }
+
+  if (body.userId !== undefined && typeof body.userId !== 'string') {
+    return { isValid: false, error: 'userId must be a string' };
+  }
+
   return { isValid: true, data: { ...body, emails: normalizedEmails } as EnrichLeadsRequest };
 }
 
@@ -135,79 +152,68 @@ export async function POST(request: NextRequest) {
     }
 
     const validatedData = validation.data!;
+
+    if (validatedData.questionSetId && !(await getQuestionSet(validatedData.questionSetId))) {
+      console.error('❌ Unknown question set:', validatedData.questionSetId);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          message: `Question set ${validatedData.questionSetId} not found`
+        },
+        { status: 400 }
+      );
+    }
     
-    console.log('📧 Processing emails (count):', validatedData.emails.length);
+    console.log('📧 Queueing emails (count):', validatedData.emails.length);
     console.log('⚙️ Configuration:', {
       focusMode: validatedData.focusMode || 'webSearch',
       optimizationMode: validatedData.optimizationMode || 'speed',
       chatModel: validatedData.chatModelProvider || 'auto-detect',
       embeddingModel: validatedData.embeddingModelProvider || 'auto-detect',
-      singleMode: validatedData.singleMode || false
+      questionSet: validatedData.questionSetId || 'default',
+      forceRefresh: !!validatedData.forceRefresh,
     });
 
     // Prepare enrichment parameters
-    const params: LeadEnrichmentParams = {
+    const params: EnrichmentJobParams = {
       emails: validatedData.emails.map(email => email.trim()),
       chatModelProvider: validatedData.chatModelProvider,
       embeddingModelProvider: validatedData.embeddingModelProvider,
       focusMode: validatedData.focusMode || 'webSearch',
       optimizationMode: validatedData.optimizationMode || 'speed',
       systemInstructions: validatedData.systemInstructions,
+      questionSetId: validatedData.questionSetId,
+      forceRefresh: validatedData.forceRefresh,
+      userId: validatedData.userId?.trim() || request.headers.get('x-user-id') || undefined,
     };
 
-    // Execute enrichment (single vs multiple)
-    let result;
-    if (validatedData.singleMode && validatedData.emails.length === 1) {
-      console.log('🔍 Using single lead enrichment mode');
-      result = await enrichSingleLead(validatedData.emails[0], {
-        chatModelProvider: params.chatModelProvider,
-        embeddingModelProvider: params.embeddingModelProvider,
-        focusMode: params.focusMode,
-        optimizationMode: params.optimizationMode,
-        systemInstructions: params.systemInstructions,
-      });
-    } else {
-      console.log('🔍 Using batch lead enrichment mode');
-      result = await enrichLeads(params);
-    }
+    // Persist the job and hand it to the background worker
+    const jobId = await createEnrichmentJob(params);
 
-    const processingTime = Date.now() - startTime;
-    const resultsArr = Array.isArray((result as any)?.results) ? (result as any).results : [];
-    const errorsArr = Array.isArray((result as any)?.errors) ? (result as any).errors : [];
+    console.log(`✅ Enrichment job ${jobId} queued`);
 
-    console.log(`✅ Enrichment completed in ${processingTime}ms`);
-    console.log('📊 Results summary:', {
-      success: !!(result as any)?.success,
-      totalResults: resultsArr.length,
-      errorsCount: errorsArr.length,
-      successfulEnrichments: resultsArr.filter((r: any) => !r?.error).length
-    });
+    // Streaming mode: forward the job's progress events as they happen
+    if (validatedData.stream) {
+      return new Response(createJobEventStream(jobId), {
+        headers: { ...SSE_HEADERS, 'X-Job-Id': jobId },
+      });
+    }
 
-    // Return results with additional metadata
     return NextResponse.json(
       {
-        ...(result as any),
-        results: resultsArr.map((r: any) => ({
-          ...r,
-          error: (r && typeof r.error === 'object' && r.error !== null)
-            ? ((() => { try { return JSON.stringify(r.error); } catch { return String(r.error); } })())
-            : r?.error
-        })),
-        errors: errorsArr.map((e: any) => {
-          if (e instanceof Error) return e.message;
-          if (typeof e === 'string') return e;
-          try { return JSON.stringify(e); } catch { return String(e); }
-        }),
+        success: true,
+        jobId,
+        status: 'queued',
+        statusUrl: `/api/enrich-leads/jobs/${jobId}`,
         metadata: {
-          processingTimeMs: processingTime,
+          processingTimeMs: Date.now() - startTime,
           timestamp: new Date().toISOString(),
           totalEmails: params.emails.length,
-          successfulEnrichments: resultsArr.filter((r: any) => !r?.error).length,
-          failedEnrichments: resultsArr.filter((r: any) => r?.error).length
         }
       },
       {
-        status: (result as any)?.success ? 200 : 207,
+        status: 202,
         headers: { 'Cache-Control': 'no-store' }
       }
     );
@@ -248,7 +254,10 @@ export async function GET() {
     timestamp: new Date().toISOString(),
     endpoints: {
       POST: '/api/enrich-leads',
-      description: 'Enrich lead information from email addresses'
+      description: 'Queue a job that enriches lead information from email addresses',
+      jobStatus: 'GET /api/enrich-leads/jobs/:id',
+      jobEvents: 'GET /api/enrich-leads/jobs/:id/events (text/event-stream)',
+      usage: 'GET /api/usage'
     },
     usage: {
       method: 'POST',
@@ -260,7 +269,10 @@ export async function GET() {
         'focusMode',
         'optimizationMode',
         'systemInstructions',
-        'singleMode'
+        'questionSetId',
+        'forceRefresh',
+        'stream',
+        'userId'
       ],
       example: {
         emails: ['john@company.com', 'jane@startup.io'],
@@ -269,8 +281,7 @@ export async function GET() {
         chatModelProvider: {
           name: 'gpt-3.5-turbo',
           provider: 'openai'
-        },
-        singleMode: false
+        }
       }
     }
   }, { headers: { 'Cache-Control': 'no-store' } });
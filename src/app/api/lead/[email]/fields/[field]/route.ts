@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import {
+  getLeadHistory,
+  overrideLeadField,
+} from '@/lib/enrichment/leadHistory';
+
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ email: string; field: string }> },
+) {
+  try {
+    const { email: rawEmail, field: rawField } = await params;
+    const email = decodeURIComponent(rawEmail).trim().toLowerCase();
+    const field = decodeURIComponent(rawField);
+    const body = await req.json();
+
+    if (!Number.isInteger(body?.candidate) || body.candidate < 0) {
+      return NextResponse.json(
+        { status: 'error', error: 'candidate must be the index of a candidate' },
+        { status: 400 },
+      );
+    }
+
+    const versions = await getLeadHistory(email);
+    const latest = versions[versions.length - 1];
+    if (!latest) {
+      return NextResponse.json(
+        { status: 'error', error: `No saved enrichment for ${email}` },
+        { status: 404 },
+      );
+    }
+
+    const candidates =
+      latest.structuredDataReconciliation?.[field]?.candidates ?? [];
+    if (!candidates[body.candidate]) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: `${field} has no candidate ${body.candidate}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Overrides apply to the latest version and carry over to later runs
+    const version = await overrideLeadField(email, field, body.candidate);
+
+    return NextResponse.json({ status: 'success', version });
+  } catch (error) {
+    console.error('[PUT Lead Field Error]', error);
+    return NextResponse.json({ status: 'error', error }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getLeadHistory } from '@/lib/enrichment/leadHistory';
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ email: string }> },
+) {
+  try {
+    const email = decodeURIComponent((await params).email).trim().toLowerCase();
+    const versions = await getLeadHistory(email);
+
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { status: 'error', error: `No saved enrichment for ${email}` },
+        { status: 404 },
+      );
+    }
+
+    // Newest first; each version lists what changed since the one before it
+    return NextResponse.json({
+      email,
+      versions: versions.reverse(),
+    });
+  } catch (error) {
+    console.error('[GET Lead History Error]', error);
+    return NextResponse.json({ status: 'error', error }, { status: 500 });
+  }
+}
@@ -1,9 +1,5 @@
 import { NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
-
-const uri = process.env.MONGODB_URI!;
-const client = new MongoClient(uri);
-const dbName = 'briha';
+import { listLatestLeads, saveLeadVersion } from '@/lib/enrichment/leadHistory';
 
 export async function POST(req: Request) {
   try {
@@ -12,13 +8,9 @@ export async function POST(req: Request) {
     if (!body.company) {
       return NextResponse.json({ status: 'error', error: 'Company name is required' }, { status: 400 });
     }
-    await client.connect();
-    const db = client.db(dbName);
-    const collection = db.collection(body.company.toLowerCase());
-
-    // Debug logs
-    console.log('Body received:', body);
-    console.log('Inserting into collection:', body.company.toLowerCase());
+    if (!body.email) {
+      return NextResponse.json({ status: 'error', error: 'Email is required' }, { status: 400 });
+    }
 
     // Ensure results is not empty, and chatId is present
     if (!body.results || !Array.isArray(body.results) || body.results.length === 0) {
@@ -28,55 +20,76 @@ export async function POST(req: Request) {
       return NextResponse.json({ status: 'error', error: 'No chatId provided.' }, { status: 400 });
     }
 
-    await collection.insertOne({
+    // Keep each answer's citations so reps can trace it back to its sources
+    const results = body.results.map((item: any) => ({
+      questionId: typeof item.questionId === 'string' ? item.questionId : undefined,
+      question: item.question,
+      answer: item.answer ?? '',
+      status: item.status === 'failed' ? 'failed' : 'answered',
+      sources: Array.isArray(item.sources)
+        ? item.sources.map((source: any) => ({
+            title: source.title ?? '',
+            url: source.url ?? '',
+            snippet: source.snippet ?? '',
+          }))
+        : [],
+    }));
+
+    // Every run is kept as a new version of the lead
+    const version = await saveLeadVersion({
       email: body.email,
       domain: body.company, // domain should be companyName per requirements
+      companyDomain: body.domain,
       chatId: body.chatId,
-      results: body.results,
-      score: body.score,
-      reason: body.reason,
-      createdAt: new Date(),
+      results,
+      structuredData: body.structuredData ?? null,
+      structuredDataConfidence: body.structuredDataConfidence ?? null,
+      structuredDataReconciliation: body.structuredDataReconciliation ?? null,
+      score: body.score ?? null,
+      scoreBreakdown: body.scoreBreakdown ?? null,
+      reason: body.reason ?? '',
+      person: body.person ?? null,
+      structuredFields: body.structuredFields ?? null,
     });
 
-    return NextResponse.json({ status: 'success' });
+    return NextResponse.json({
+      status: 'success',
+      version: version.version,
+      changes: version.changes,
+    });
   } catch (error) {
-    console.error('[MongoDB Error]', error);
+    console.error('[POST Lead Error]', error);
     return NextResponse.json({ status: 'error', error }, { status: 500 });
   }
 }
 
 export async function GET() {
   try {
-    await client.connect();
-    const db = client.db(dbName);
-    const collections = await db.listCollections().toArray();
-
-    let allLeads: any[] = [];
+    // Only the latest run of each lead, with what changed since the last one
+    const latestLeads = await listLatestLeads();
 
-    for (const col of collections) {
-      const collection = db.collection(col.name);
-      const docs = await collection.find({}).toArray();
-
-      for (const doc of docs) {
-        allLeads.push({
-          email: doc.email ?? '',
-          domain: doc.domain ?? col.name,
-          chatId: doc.chatId ?? '',
-          createdAt: doc.createdAt
-            ? new Date(doc.createdAt).toLocaleString()
-            : '',
-          results: Array.isArray(doc.results)
-            ? JSON.stringify(doc.results)
-            : doc.results ?? '',
-          score: doc.score ?? null,
-          reason: doc.reason ?? '',
-        });
-      }
-    }
+    const allLeads = latestLeads.map((lead) => ({
+      email: lead.email,
+      domain: lead.domain,
+      chatId: lead.chatId,
+      createdAt: lead.createdAt
+        ? new Date(lead.createdAt).toLocaleString()
+        : '',
+      results: JSON.stringify(lead.results),
+      structuredData: lead.structuredData,
+      structuredDataConfidence: lead.structuredDataConfidence,
+      structuredDataReconciliation: lead.structuredDataReconciliation,
+      score: lead.score,
+      scoreBreakdown: lead.scoreBreakdown,
+      reason: lead.reason,
+      person: lead.person,
+      version: lead.version,
+      changes: lead.changes,
+    }));
 
     return NextResponse.json(allLeads);
   } catch (error) {
-    console.error('[GET MongoDB Error]', error);
+    console.error('[GET Lead Error]', error);
     return NextResponse.json({ status: 'error', error }, { status: 500 });
   }
 }
\ No newline at end of file
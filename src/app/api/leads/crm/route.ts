@@ -0,0 +1,41 @@
+import { getMinFieldConfidence } from '@/lib/config';
+import { getLatestLeads } from '@/lib/enrichment/leadHistory';
+import { parseLeadEmails } from '@/lib/enrichment/leadQuery';
+import { isZohoConfigured, pushLeadsToZoho } from '@/lib/enrichment/zoho';
+
+export const POST = async (req: Request) => {
+  try {
+    const emails = parseLeadEmails(await req.json());
+
+    if (typeof emails === 'string') {
+      return Response.json({ message: emails }, { status: 400 });
+    }
+
+    if (!isZohoConfigured()) {
+      return Response.json(
+        { message: 'Zoho CRM is not configured in config.toml' },
+        { status: 400 },
+      );
+    }
+
+    const versions = await getLatestLeads(emails);
+    const results = await pushLeadsToZoho(versions, getMinFieldConfidence());
+
+    // Emails never saved have nothing to push
+    const missing = emails
+      .map((email) => email.trim().toLowerCase())
+      .filter((email) => !versions.some((version) => version.email === email))
+      .map((email) => ({ email, error: 'Lead not found' }));
+
+    return Response.json(
+      { results: [...results, ...missing] },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in pushing leads to the CRM: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,103 @@
+import { createEnrichmentJob } from '@/lib/enrichment/jobs';
+import { saveLeadAttributes } from '@/lib/enrichment/leadAttributes';
+import { getSavedLeadEmails } from '@/lib/enrichment/leadHistory';
+import {
+  getLeadImportEmails,
+  parseLeadImportMapping,
+} from '@/lib/enrichment/leadImport';
+import {
+  deleteLeadImportTable,
+  getLeadImportTable,
+  previewLeadImport,
+} from '@/lib/enrichment/leadImportFiles';
+import { getQuestionSet } from '@/lib/enrichment/questionSets';
+
+export const POST = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+
+    const table = getLeadImportTable(id);
+    if (!table) {
+      return Response.json(
+        { message: 'Upload not found, upload the file again' },
+        { status: 404 },
+      );
+    }
+
+    const mapping = parseLeadImportMapping(body?.mapping, table.columns);
+    if (typeof mapping === 'string') {
+      return Response.json({ message: mapping }, { status: 400 });
+    }
+
+    if (
+      body.questionSetId !== undefined &&
+      (typeof body.questionSetId !== 'string' ||
+        !(await getQuestionSet(body.questionSetId)))
+    ) {
+      return Response.json(
+        { message: `Question set ${body.questionSetId} not found` },
+        { status: 400 },
+      );
+    }
+
+    const preview = previewLeadImport(
+      table,
+      mapping,
+      await getSavedLeadEmails(getLeadImportEmails(table, mapping)),
+    );
+
+    // A dry run previews another mapping without importing anything
+    if (body.dryRun === true) {
+      return Response.json({ importId: id, ...preview }, { status: 200 });
+    }
+
+    const rows = preview.rows.filter(
+      (row) => row.status === 'new' || row.status === 'existing',
+    );
+    if (rows.length === 0) {
+      return Response.json(
+        { message: 'The file has no valid emails to import' },
+        { status: 400 },
+      );
+    }
+
+    saveLeadAttributes(rows, table.fileName);
+
+    // Saved leads only have their attributes updated unless asked for
+    const emails = rows
+      .filter((row) => row.status === 'new' || body.includeExisting === true)
+      .map((row) => row.email);
+
+    const jobId =
+      emails.length > 0
+        ? await createEnrichmentJob({
+            emails,
+            questionSetId: body.questionSetId,
+            userId: req.headers.get('x-user-id') || undefined,
+          })
+        : null;
+
+    deleteLeadImportTable(id);
+
+    return Response.json(
+      {
+        imported: rows.length,
+        queued: emails.length,
+        jobId,
+        statusUrl: jobId ? `/api/enrich-leads/jobs/${jobId}` : null,
+        counts: preview.counts,
+      },
+      { status: jobId ? 202 : 200 },
+    );
+  } catch (err) {
+    console.error('Error in importing leads: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,68 @@
+import { getSavedLeadEmails } from '@/lib/enrichment/leadHistory';
+import {
+  getLeadImportEmails,
+  guessLeadImportMapping,
+  parseLeadImportMapping,
+} from '@/lib/enrichment/leadImport';
+import {
+  parseLeadImportFile,
+  previewLeadImport,
+  saveLeadImportTable,
+} from '@/lib/enrichment/leadImportFiles';
+
+export const POST = async (req: Request) => {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return Response.json(
+        { message: 'Upload a CSV or XLSX file as file' },
+        { status: 400 },
+      );
+    }
+
+    const table = parseLeadImportFile(
+      file.name,
+      Buffer.from(await file.arrayBuffer()),
+    );
+    if (typeof table === 'string') {
+      return Response.json({ message: table }, { status: 400 });
+    }
+
+    // Columns are mapped by their names unless a mapping is sent along
+    const mappingParam = formData.get('mapping');
+    let mapping: ReturnType<typeof parseLeadImportMapping>;
+    try {
+      mapping =
+        typeof mappingParam === 'string'
+          ? parseLeadImportMapping(JSON.parse(mappingParam), table.columns)
+          : guessLeadImportMapping(table.columns);
+    } catch {
+      mapping = 'mapping must be JSON';
+    }
+    if (typeof mapping === 'string') {
+      return Response.json({ message: mapping }, { status: 400 });
+    }
+
+    const savedEmails = await getSavedLeadEmails(
+      getLeadImportEmails(table, mapping),
+    );
+    const importId = saveLeadImportTable(table);
+
+    return Response.json(
+      {
+        importId,
+        fileName: table.fileName,
+        ...previewLeadImport(table, mapping, savedEmails),
+      },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in uploading a lead list: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
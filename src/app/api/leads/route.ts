@@ -0,0 +1,53 @@
+import {
+  decodeLeadCursor,
+  deleteLeads,
+  queryLeads,
+} from '@/lib/enrichment/leadHistory';
+import { parseLeadEmails, parseLeadQuery } from '@/lib/enrichment/leadQuery';
+
+export const GET = async (req: Request) => {
+  try {
+    const { query, error } = parseLeadQuery(new URL(req.url).searchParams);
+
+    if (!query) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    if (query.cursor && !decodeLeadCursor(query.cursor, query.sort)) {
+      return Response.json(
+        { message: 'cursor is invalid or belongs to another sort' },
+        { status: 400 },
+      );
+    }
+
+    const page = await queryLeads(query);
+
+    return Response.json(page, { status: 200 });
+  } catch (err) {
+    console.error('Error in querying leads: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (req: Request) => {
+  try {
+    const emails = parseLeadEmails(await req.json());
+
+    if (typeof emails === 'string') {
+      return Response.json({ message: emails }, { status: 400 });
+    }
+
+    const deleted = await deleteLeads(emails);
+
+    return Response.json({ deleted }, { status: 200 });
+  } catch (err) {
+    console.error('Error in deleting leads: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
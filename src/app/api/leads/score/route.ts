@@ -0,0 +1,60 @@
+import { createEnrichmentJob } from '@/lib/enrichment/jobs';
+import {
+  getSavedLeadEmails,
+  listSavedLeadEmails,
+} from '@/lib/enrichment/leadHistory';
+import { parseLeadEmails } from '@/lib/enrichment/leadQuery';
+
+export const POST = async (req: Request) => {
+  try {
+    const body = await req.json();
+
+    // Either the selected leads or, with { all: true }, every saved lead
+    const emails = body?.all === true ? undefined : parseLeadEmails(body);
+    if (typeof emails === 'string') {
+      return Response.json(
+        { message: `${emails}, or all must be true` },
+        { status: 400 },
+      );
+    }
+
+    let queued = emails ? [] : await listSavedLeadEmails();
+    let notFound: string[] = [];
+
+    // Emails never saved have nothing to score
+    if (emails) {
+      const requested = [
+        ...new Set(emails.map((email) => email.trim().toLowerCase())),
+      ];
+      const savedEmails = await getSavedLeadEmails(requested);
+      queued = requested.filter((email) => savedEmails.has(email));
+      notFound = requested.filter((email) => !savedEmails.has(email));
+    }
+
+    // Scoring makes an LLM call per lead, so it runs as a background job
+    const jobId =
+      queued.length > 0
+        ? await createEnrichmentJob({
+            emails: queued,
+            rescore: true,
+            userId: req.headers.get('x-user-id') || undefined,
+          })
+        : null;
+
+    return Response.json(
+      {
+        queued: queued.length,
+        notFound,
+        jobId,
+        statusUrl: jobId ? `/api/enrich-leads/jobs/${jobId}` : null,
+      },
+      { status: jobId ? 202 : 200 },
+    );
+  } catch (err) {
+    console.error('Error in re-scoring leads: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
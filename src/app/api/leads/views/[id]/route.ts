@@ -0,0 +1,64 @@
+import {
+  deleteLeadView,
+  getLeadView,
+  parseLeadView,
+  updateLeadView,
+} from '@/lib/enrichment/leadViews';
+
+const getUserId = (req: Request) => req.headers.get('x-user-id') || undefined;
+
+export const PUT = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+    const userId = getUserId(req);
+
+    if (!(await getLeadView(id, userId))) {
+      return Response.json({ message: 'View not found' }, { status: 404 });
+    }
+
+    const input = parseLeadView(await req.json());
+    if (typeof input === 'string') {
+      return Response.json({ message: input }, { status: 400 });
+    }
+
+    const view = await updateLeadView(id, input, userId);
+
+    return Response.json({ view }, { status: 200 });
+  } catch (err) {
+    console.error('Error in updating lead view: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+    const userId = getUserId(req);
+
+    if (!(await getLeadView(id, userId))) {
+      return Response.json({ message: 'View not found' }, { status: 404 });
+    }
+
+    await deleteLeadView(id, userId);
+
+    return Response.json(
+      { message: 'View deleted successfully' },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in deleting lead view: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
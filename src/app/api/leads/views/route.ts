@@ -0,0 +1,42 @@
+import {
+  createLeadView,
+  listLeadViews,
+  parseLeadView,
+} from '@/lib/enrichment/leadViews';
+
+// Views belong to the user the proxy in front of the app names
+const getUserId = (req: Request) => req.headers.get('x-user-id') || undefined;
+
+export const GET = async (req: Request) => {
+  try {
+    const views = await listLeadViews(getUserId(req));
+
+    return Response.json({ views }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting lead views: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const input = parseLeadView(await req.json());
+
+    if (typeof input === 'string') {
+      return Response.json({ message: input }, { status: 400 });
+    }
+
+    const view = await createLeadView(input, getUserId(req));
+
+    return Response.json({ view }, { status: 201 });
+  } catch (err) {
+    console.error('Error in creating lead view: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,109 @@
+import {
+  deleteQuestionSet,
+  getQuestionSet,
+  getQuestionSetSchedules,
+  updateQuestionSet,
+  validateQuestionSet,
+} from '@/lib/enrichment/questionSets';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    const questionSet = await getQuestionSet(id);
+
+    if (!questionSet) {
+      return Response.json(
+        { message: 'Question set not found' },
+        { status: 404 },
+      );
+    }
+
+    return Response.json({ questionSet }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting question set by id: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const PUT = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+
+    const questionSetExists = await getQuestionSet(id);
+
+    if (!questionSetExists) {
+      return Response.json(
+        { message: 'Question set not found' },
+        { status: 404 },
+      );
+    }
+
+    const error = validateQuestionSet(body);
+    if (error) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    const questionSet = await updateQuestionSet(id, body);
+
+    return Response.json({ questionSet }, { status: 200 });
+  } catch (err) {
+    console.error('Error in updating question set: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    const questionSetExists = await getQuestionSet(id);
+
+    if (!questionSetExists) {
+      return Response.json(
+        { message: 'Question set not found' },
+        { status: 404 },
+      );
+    }
+
+    // Their runs would otherwise fail once the set is gone
+    const schedules = await getQuestionSetSchedules(id);
+    if (schedules.length > 0) {
+      return Response.json(
+        {
+          message: `Question set is used by schedules: ${schedules.join(', ')}`,
+        },
+        { status: 409 },
+      );
+    }
+
+    await deleteQuestionSet(id);
+
+    return Response.json(
+      { message: 'Question set deleted successfully' },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in deleting question set by id: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
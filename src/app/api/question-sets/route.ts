@@ -0,0 +1,44 @@
+import {
+  createQuestionSet,
+  listQuestionSets,
+  validateQuestionSet,
+} from '@/lib/enrichment/questionSets';
+import { DEFAULT_QUESTIONS } from '@/lib/enrichment/questionTemplates';
+
+export const GET = async (req: Request) => {
+  try {
+    const questionSets = await listQuestionSets();
+
+    return Response.json(
+      { questionSets, defaultQuestions: DEFAULT_QUESTIONS },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in getting question sets: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const body = await req.json();
+
+    const error = validateQuestionSet(body);
+    if (error) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    const questionSet = await createQuestionSet(body);
+
+    return Response.json({ questionSet }, { status: 201 });
+  } catch (err) {
+    console.error('Error in creating question set: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,35 @@
+import { BUILT_IN_RUBRICS } from '@/lib/enrichment/rubric';
+import { getRubric } from '@/lib/enrichment/rubrics';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ version: string }> },
+) => {
+  try {
+    const version = Number((await params).version);
+
+    if (!Number.isInteger(version)) {
+      return Response.json(
+        { message: 'Rubric version must be an integer' },
+        { status: 400 },
+      );
+    }
+
+    // Built-in rubrics are not saved, but older scores still refer to them
+    const rubric =
+      BUILT_IN_RUBRICS.find((rubric) => rubric.version === version) ??
+      (await getRubric(version));
+
+    if (!rubric) {
+      return Response.json({ message: 'Rubric not found' }, { status: 404 });
+    }
+
+    return Response.json({ rubric }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting rubric by version: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
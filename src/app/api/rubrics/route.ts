@@ -0,0 +1,48 @@
+import { DEFAULT_RUBRIC } from '@/lib/enrichment/rubric';
+import {
+  createRubricVersion,
+  getActiveRubric,
+  listRubrics,
+  validateRubric,
+} from '@/lib/enrichment/rubrics';
+
+export const GET = async (req: Request) => {
+  try {
+    const [rubric, versions] = await Promise.all([
+      getActiveRubric(),
+      listRubrics(),
+    ]);
+
+    return Response.json(
+      { rubric, versions, defaultRubric: DEFAULT_RUBRIC },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in getting rubrics: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const body = await req.json();
+
+    const error = validateRubric(body);
+    if (error) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    const rubric = await createRubricVersion(body.criteria);
+
+    return Response.json({ rubric }, { status: 201 });
+  } catch (err) {
+    console.error('Error in creating rubric: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
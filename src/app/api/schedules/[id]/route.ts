@@ -0,0 +1,88 @@
+import {
+  deleteSchedule,
+  getSchedule,
+  updateSchedule,
+  validateSchedule,
+} from '@/lib/enrichment/schedules';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    const schedule = await getSchedule(id);
+
+    if (!schedule) {
+      return Response.json({ message: 'Schedule not found' }, { status: 404 });
+    }
+
+    return Response.json({ schedule }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting schedule by id: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const PUT = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+
+    const scheduleExists = await getSchedule(id);
+
+    if (!scheduleExists) {
+      return Response.json({ message: 'Schedule not found' }, { status: 404 });
+    }
+
+    const error = await validateSchedule(body);
+    if (error) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    const schedule = await updateSchedule(id, body);
+
+    return Response.json({ schedule }, { status: 200 });
+  } catch (err) {
+    console.error('Error in updating schedule: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    const scheduleExists = await getSchedule(id);
+
+    if (!scheduleExists) {
+      return Response.json({ message: 'Schedule not found' }, { status: 404 });
+    }
+
+    await deleteSchedule(id);
+
+    return Response.json(
+      { message: 'Schedule deleted successfully' },
+      { status: 200 },
+    );
+  } catch (err) {
+    console.error('Error in deleting schedule by id: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
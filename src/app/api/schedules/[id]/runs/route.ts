@@ -0,0 +1,54 @@
+import {
+  getSchedule,
+  listScheduleRuns,
+  runSchedule,
+} from '@/lib/enrichment/schedules';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    if (!(await getSchedule(id))) {
+      return Response.json({ message: 'Schedule not found' }, { status: 404 });
+    }
+
+    const runs = await listScheduleRuns(id);
+
+    return Response.json({ runs }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting schedule runs: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+// Runs a schedule now, without waiting for its next cron time
+export const POST = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const { id } = await params;
+
+    const schedule = await getSchedule(id);
+
+    if (!schedule) {
+      return Response.json({ message: 'Schedule not found' }, { status: 404 });
+    }
+
+    const run = await runSchedule(schedule);
+
+    return Response.json({ run }, { status: 201 });
+  } catch (err) {
+    console.error('Error in running schedule: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,40 @@
+import {
+  createSchedule,
+  listSchedules,
+  validateSchedule,
+} from '@/lib/enrichment/schedules';
+
+export const GET = async (req: Request) => {
+  try {
+    const schedules = await listSchedules();
+
+    return Response.json({ schedules }, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting schedules: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const body = await req.json();
+
+    const error = await validateSchedule(body);
+    if (error) {
+      return Response.json({ message: error }, { status: 400 });
+    }
+
+    const schedule = await createSchedule(body);
+
+    return Response.json({ schedule }, { status: 201 });
+  } catch (err) {
+    console.error('Error in creating schedule: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
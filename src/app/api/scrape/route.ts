@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as cheerio from 'cheerio';
 import puppeteer from 'puppeteer';
+import { guessCompanyName, parseDomain } from '@/lib/enrichment/domain';
 
 // Simple in-memory cache to avoid re-scraping frequently during a session
 const seedCache: Record<string, any> = {};
@@ -54,6 +55,52 @@ async function fetchWithPuppeteer(domain: string, takeScreenshot = false) {
   }
 }
 
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'LocalBusiness', 'OnlineBusiness', 'NGO'];
+
+// Function to extract the names of Organization entities from JSON-LD data
+const extractOrganizationNames = (items: any[]) => {
+  const names: string[] = [];
+  const visit = (item: any) => {
+    if (!item || typeof item !== 'object') return;
+    if (Array.isArray(item)) return item.forEach(visit);
+    const types = Array.isArray(item['@type']) ? item['@type'] : [item['@type']];
+    if (types.some((type: any) => ORGANIZATION_TYPES.includes(type)) && typeof item.name === 'string') {
+      names.push(item.name.trim());
+    }
+    if (Array.isArray(item['@graph'])) item['@graph'].forEach(visit);
+    if (item.publisher) visit(item.publisher);
+  };
+  items.forEach(visit);
+  return names.filter(Boolean);
+};
+
+// Segments of a page title that name the page rather than the company
+const GENERIC_TITLE_SEGMENTS = /^(home( ?page)?|welcome|official (web)?site|index)$/i;
+
+// Function to pick the company name out of a title like "Home | Acme Corp - Widgets"
+const extractNameFromTitle = (title: string, domain: string) => {
+  const segments = title
+    .split(/\s+[|\-–—·:]\s+/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && !GENERIC_TITLE_SEGMENTS.test(segment));
+  const label = parseDomain(domain)?.label.replace(/[-_]/g, '') ?? '';
+  // Prefer the segment that looks like the domain, e.g. "Acme Corp" for acme.com
+  return (
+    segments.find((segment) => label && segment.toLowerCase().replace(/[^a-z0-9]/g, '').includes(label)) ??
+    segments[0] ??
+    null
+  );
+};
+
+// Function to resolve the company's display name: JSON-LD Organization.name, then og:site_name, then the title
+const resolveDisplayName = (organizationNames: string[], siteName: string | null, title: string | null, domain: string) => {
+  const fromTitle = title ? extractNameFromTitle(title, domain) : null;
+  const name = organizationNames[0] || siteName || fromTitle;
+  if (name && name.length <= 100) return name;
+  const parsed = parseDomain(domain);
+  return parsed ? guessCompanyName(parsed) : null;
+};
+
 // GET handler for scraping a domain
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -74,6 +121,7 @@ export async function GET(request: NextRequest) {
     const $ = cheerio.load(html); // Load HTML into Cheerio for parsing
     const title = $('title').text().trim() || null; // Extract the title
     const canonicalTag = $('link[rel="canonical"]').attr('href') || null; // Extract canonical link
+    const siteName = $('meta[property="og:site_name"]').attr('content')?.trim() || null; // Extract Open Graph site name
 
     // Extract and clean body text
     const bodyText = $('body').text().replace(/\s+/g, ' ').trim();
@@ -103,6 +151,7 @@ export async function GET(request: NextRequest) {
       return names;
     };
     companyNames = extractNamesFromJsonLd(jsonLd);
+    let organizationNames = extractOrganizationNames(jsonLd);
 
     // Fallback to Puppeteer if data is sparse
     if ((snippet.length < 100 || companyNames.length === 0)) {
@@ -119,8 +168,10 @@ export async function GET(request: NextRequest) {
           try { jsonLd2.push(JSON.parse($2(el).text() || '{}')); } catch {}
         });
         const companyNames2 = extractNamesFromJsonLd(jsonLd2);
+        const organizationNames2 = extractOrganizationNames(jsonLd2);
         if (snippet2.length > snippet.length) snippet = snippet2;
         if (companyNames2.length > 0) companyNames = companyNames2;
+        if (organizationNames2.length > 0) organizationNames = organizationNames2;
         console.log('Puppeteer fallback enriched data for', normalized);
       } catch (e) {
         console.warn('Puppeteer fallback failed for', normalized, e);
@@ -136,6 +187,8 @@ export async function GET(request: NextRequest) {
     const seed = { 
       domain: normalized, 
       title, 
+      siteName,
+      displayName: resolveDisplayName(organizationNames, siteName, title, normalized),
       canonical: canonicalTag, 
       companyNames: Array.from(new Set(companyNames)), // Remove duplicate names
       snippet, 
@@ -0,0 +1,29 @@
+import { getUsageReport } from '@/lib/enrichment/usage';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+export const GET = async (req: Request) => {
+  try {
+    const days = Number(
+      new URL(req.url).searchParams.get('days') ?? DEFAULT_DAYS,
+    );
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return Response.json(
+        { message: `days must be a whole number from 1 to ${MAX_DAYS}` },
+        { status: 400 },
+      );
+    }
+
+    const report = await getUsageReport(days);
+
+    return Response.json(report, { status: 200 });
+  } catch (err) {
+    console.error('Error in getting usage: ', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
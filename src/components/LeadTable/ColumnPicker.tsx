@@ -0,0 +1,106 @@
+import {
+  Popover,
+  PopoverButton,
+  PopoverPanel,
+  Transition,
+} from '@headlessui/react';
+import { ArrowDown, ArrowUp, Columns } from 'lucide-react';
+import { Fragment } from 'react';
+import { LEAD_COLUMNS } from '@/components/LeadTable/columns';
+
+/**
+ * Shows, hides and reorders the columns of the Lead Table. Hidden columns are
+ * listed after the visible ones.
+ */
+const ColumnPicker = ({
+  columns,
+  setColumns,
+}: {
+  columns: string[];
+  setColumns: (columns: string[]) => void;
+}) => {
+  const hidden = LEAD_COLUMNS.filter((column) => !columns.includes(column.id));
+
+  const toggle = (id: string) => {
+    if (columns.includes(id)) {
+      // The table always keeps one column
+      if (columns.length > 1) setColumns(columns.filter((c) => c !== id));
+    } else {
+      setColumns([...columns, id]);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    const [column] = next.splice(index, 1);
+    next.splice(index + offset, 0, column);
+    setColumns(next);
+  };
+
+  return (
+    <Popover className="relative">
+      <PopoverButton className="flex items-center space-x-1 text-sm px-3 py-1 rounded border border-surface-variant hover:bg-surface-variant">
+        <Columns size={16} />
+        <span>Columns</span>
+      </PopoverButton>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-150"
+        enterFrom="opacity-0 translate-y-1"
+        enterTo="opacity-100 translate-y-0"
+        leave="transition ease-in duration-150"
+        leaveFrom="opacity-100 translate-y-0"
+        leaveTo="opacity-0 translate-y-1"
+      >
+        <PopoverPanel className="absolute z-30 right-0 mt-2 w-64 rounded-lg border border-surface-variant bg-surface shadow-lg p-2 space-y-1">
+          {[
+            ...columns.flatMap((id) => {
+              const column = LEAD_COLUMNS.find((c) => c.id === id);
+              return column ? [column] : [];
+            }),
+            ...hidden,
+          ].map((column) => {
+            const index = columns.indexOf(column.id);
+            return (
+              <div
+                key={column.id}
+                className="flex items-center justify-between text-sm px-2 py-1 rounded hover:bg-surface-variant"
+              >
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={index !== -1}
+                    onChange={() => toggle(column.id)}
+                  />
+                  <span>{column.label}</span>
+                </label>
+                {index !== -1 && (
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${column.label} left`}
+                      className="disabled:opacity-30"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === columns.length - 1}
+                      aria-label={`Move ${column.label} right`}
+                      className="disabled:opacity-30"
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </PopoverPanel>
+      </Transition>
+    </Popover>
+  );
+};
+
+export default ColumnPicker;
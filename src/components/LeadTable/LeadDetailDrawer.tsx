@@ -0,0 +1,265 @@
+import {
+  Dialog,
+  DialogPanel,
+  DialogTitle,
+  Transition,
+  TransitionChild,
+} from '@headlessui/react';
+import { X } from 'lucide-react';
+import { Fragment, ReactNode, useEffect, useState } from 'react';
+import {
+  LEAD_IMPORT_FIELDS,
+  LeadAttributes,
+} from '@/lib/enrichment/leadImport';
+import type { LeadListItem } from '@/lib/enrichment/leadQuery';
+import { formatLeadChange, LeadVersion } from '@/lib/enrichment/leadVersions';
+import { formatPerson } from '@/lib/enrichment/person';
+import {
+  formatCriterionBand,
+  formatRubricVersion,
+} from '@/lib/enrichment/rubric';
+import {
+  LeadAnswers,
+  LeadCellContext,
+  LeadFacts,
+} from '@/components/LeadTable/columns';
+
+const Section = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold uppercase tracking-wide opacity-70">
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+const ImportedAttributes = ({ attributes }: { attributes: LeadAttributes }) => {
+  const values = [
+    ...LEAD_IMPORT_FIELDS.flatMap(({ field, label }) =>
+      field !== 'email' && attributes[field]
+        ? [[label, attributes[field]] as const]
+        : [],
+    ),
+    ...Object.entries(attributes.custom),
+  ];
+
+  return (
+    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+      {values.map(([label, value]) => (
+        <Fragment key={label}>
+          <dt className="opacity-70">{label}</dt>
+          <dd className="break-words">{value}</dd>
+        </Fragment>
+      ))}
+    </dl>
+  );
+};
+
+/**
+ * Everything saved for a lead: the answers with their sources, how the score
+ * was reached and every earlier run
+ */
+const LeadDetailDrawer = ({
+  lead,
+  context,
+  onClose,
+  onRerun,
+  rerunning,
+}: {
+  lead: LeadListItem | null;
+  context: LeadCellContext;
+  onClose: () => void;
+  onRerun: (email: string) => void;
+  rerunning: boolean;
+}) => {
+  const [history, setHistory] = useState<LeadVersion[] | null>(null);
+
+  useEffect(() => {
+    if (!lead) return;
+
+    setHistory(null);
+    fetch(`/api/lead/${encodeURIComponent(lead.email)}/history`)
+      .then((res) => res.json())
+      .then((data) => setHistory(data.versions ?? []))
+      .catch((err) => {
+        console.error('Error fetching lead history:', err);
+        setHistory([]);
+      });
+  }, [lead?.email, lead?.version]);
+
+  return (
+    <Transition show={lead !== null} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-100"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/30" />
+        </TransitionChild>
+        <div className="fixed inset-y-0 right-0 flex max-w-full">
+          <TransitionChild
+            as={Fragment}
+            enter="transform transition ease-out duration-200"
+            enterFrom="translate-x-full"
+            enterTo="translate-x-0"
+            leave="transform transition ease-in duration-150"
+            leaveFrom="translate-x-0"
+            leaveTo="translate-x-full"
+          >
+            <DialogPanel className="w-screen max-w-2xl h-full overflow-y-auto bg-surface text-on-surface shadow-xl p-6 space-y-6">
+              {lead && (
+                <>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <DialogTitle className="text-lg font-semibold">
+                        {lead.email}
+                      </DialogTitle>
+                      <p className="text-sm opacity-70">
+                        {lead.company} · {lead.domain}
+                      </p>
+                      {lead.person && (
+                        <p className="text-sm opacity-70">
+                          {formatPerson(lead.person)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <button
+                        onClick={() => onRerun(lead.email)}
+                        disabled={rerunning}
+                        className="text-sm text-blue-500 hover:underline disabled:opacity-50"
+                      >
+                        {rerunning ? 'Re-running...' : 'Re-run'}
+                      </button>
+                      <button onClick={onClose} aria-label="Close">
+                        <X size={18} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <Section title="Score">
+                    {lead.scoreBreakdown ? (
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {lead.scoreBreakdown.criteria.map((criterion) => (
+                            <tr
+                              key={criterion.criterionId}
+                              className="border-b border-surface-variant align-top"
+                            >
+                              <td className="py-1 pr-2">
+                                {criterion.label}
+                                {criterion.reason && (
+                                  <p className="text-xs opacity-70">
+                                    {criterion.reason}
+                                  </p>
+                                )}
+                              </td>
+                              <td className="py-1 pr-2 opacity-70">
+                                {formatCriterionBand(criterion)}
+                              </td>
+                              <td className="py-1 text-right whitespace-nowrap">
+                                {criterion.points}/{criterion.maxPoints}
+                              </td>
+                            </tr>
+                          ))}
+                          <tr className="font-semibold">
+                            <td className="py-1" colSpan={2}>
+                              Total (rubric{' '}
+                              {formatRubricVersion(
+                                lead.scoreBreakdown.rubricVersion,
+                              )}
+                              )
+                            </td>
+                            <td className="py-1 text-right">
+                              {lead.scoreBreakdown.score}/
+                              {lead.scoreBreakdown.maxScore}
+                            </td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    ) : lead.score !== null ? (
+                      <p className="text-sm whitespace-pre-wrap">
+                        {lead.score}
+                        {lead.reason && `\n${lead.reason}`}
+                      </p>
+                    ) : (
+                      <p className="text-sm opacity-70">Not scored yet</p>
+                    )}
+                    {lead.scoredAt && (
+                      <p className="text-xs opacity-70 mt-1">
+                        Scored {new Date(lead.scoredAt).toLocaleString()}
+                      </p>
+                    )}
+                  </Section>
+
+                  <Section title="Key Facts">
+                    <LeadFacts lead={lead} context={context} />
+                  </Section>
+
+                  {lead.attributes && (
+                    <Section title="Imported">
+                      <ImportedAttributes attributes={lead.attributes} />
+                    </Section>
+                  )}
+
+                  <Section title="Questions and Answers">
+                    <LeadAnswers lead={lead} />
+                  </Section>
+
+                  <Section title="History">
+                    {history === null ? (
+                      <p className="text-sm opacity-70">Loading...</p>
+                    ) : (
+                      <ol className="space-y-3">
+                        {history.map((version) => (
+                          <li key={version.version} className="text-sm">
+                            <p>
+                              <strong>v{version.version}</strong>{' '}
+                              <span className="opacity-70">
+                                {new Date(version.createdAt).toLocaleString()}
+                                {version.score !== null &&
+                                  ` · score ${version.score}`}
+                              </span>
+                            </p>
+                            {version.changes.length > 0 ? (
+                              <ul className="list-disc ml-5 text-xs">
+                                {version.changes.map((change) => (
+                                  <li key={change.field}>
+                                    {formatLeadChange(change)}
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="text-xs opacity-70">
+                                {version.version > 1
+                                  ? 'No changes'
+                                  : 'First run'}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </Section>
+                </>
+              )}
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default LeadDetailDrawer;
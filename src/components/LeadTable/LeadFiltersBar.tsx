@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import {
+  LEAD_ENRICHMENT_STATUSES,
+  LeadEnrichmentStatus,
+  LeadFilters,
+} from '@/lib/enrichment/leadQuery';
+
+const inputClassName =
+  'bg-transparent border border-surface-variant rounded px-2 py-1 text-sm';
+
+const toNumber = (value: string) =>
+  value.trim() === '' ? undefined : Number(value);
+
+/**
+ * The filters of GET /api/leads. Edits apply on Enter or with the Apply
+ * button, so typing doesn't query the server on every key.
+ */
+const LeadFiltersBar = ({
+  filters,
+  onApply,
+}: {
+  filters: LeadFilters;
+  onApply: (filters: LeadFilters) => void;
+}) => {
+  const [draft, setDraft] = useState<LeadFilters>(filters);
+
+  // A saved view replaces the filters
+  useEffect(() => setDraft(filters), [filters]);
+
+  const set = <K extends keyof LeadFilters>(key: K, value: LeadFilters[K]) =>
+    setDraft((current) => ({
+      ...current,
+      [key]: value === '' ? undefined : value,
+    }));
+
+  const text = (key: keyof LeadFilters, placeholder: string) => (
+    <input
+      type="text"
+      placeholder={placeholder}
+      value={(draft[key] as string | undefined) ?? ''}
+      onChange={(e) => set(key, e.target.value)}
+      className={inputClassName}
+    />
+  );
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply(draft);
+      }}
+      className="flex flex-wrap items-center gap-2 mb-4"
+    >
+      <input
+        type="search"
+        placeholder="Search answers, emails, companies"
+        value={draft.search ?? ''}
+        onChange={(e) => set('search', e.target.value)}
+        className={`${inputClassName} w-72`}
+      />
+      {text('domain', 'Domain')}
+      {text('industry', 'Industry')}
+      {text('country', 'Country')}
+      <input
+        type="number"
+        placeholder="Min score"
+        value={draft.minScore ?? ''}
+        onChange={(e) => set('minScore', toNumber(e.target.value))}
+        className={`${inputClassName} w-24`}
+      />
+      <input
+        type="number"
+        placeholder="Max score"
+        value={draft.maxScore ?? ''}
+        onChange={(e) => set('maxScore', toNumber(e.target.value))}
+        className={`${inputClassName} w-24`}
+      />
+      <select
+        value={draft.status ?? ''}
+        onChange={(e) =>
+          set('status', e.target.value as LeadEnrichmentStatus)
+        }
+        className={inputClassName}
+      >
+        <option value="">Any status</option>
+        {LEAD_ENRICHMENT_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {status}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center space-x-1 text-sm">
+        <span>Created</span>
+        <input
+          type="date"
+          value={draft.createdFrom ?? ''}
+          onChange={(e) => set('createdFrom', e.target.value)}
+          className={inputClassName}
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={draft.createdTo ?? ''}
+          onChange={(e) => set('createdTo', e.target.value)}
+          className={inputClassName}
+        />
+      </label>
+      <button
+        type="submit"
+        className="text-sm px-3 py-1 rounded bg-blue-600 text-white"
+      >
+        Apply
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setDraft({});
+          onApply({});
+        }}
+        className="text-sm text-blue-500 hover:underline"
+      >
+        Clear
+      </button>
+    </form>
+  );
+};
+
+export default LeadFiltersBar;
@@ -0,0 +1,303 @@
+import {
+  Dialog,
+  DialogPanel,
+  DialogTitle,
+  Transition,
+  TransitionChild,
+} from '@headlessui/react';
+import { Fragment, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  LEAD_IMPORT_FIELDS,
+  LeadImportMapping,
+  LeadImportPreview,
+  LeadImportRowStatus,
+  LeadImportTarget,
+} from '@/lib/enrichment/leadImport';
+
+// Rows shown in the preview; the counts cover the whole file
+const PREVIEW_ROWS = 100;
+
+const STATUS_LABELS: Record<LeadImportRowStatus, string> = {
+  new: 'New',
+  existing: 'Saved before',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+const STATUS_CLASSNAMES: Record<LeadImportRowStatus, string> = {
+  new: 'text-green-600',
+  existing: 'text-blue-500',
+  duplicate: 'opacity-60',
+  invalid: 'text-red-500',
+};
+
+const selectClassName =
+  'bg-transparent border border-surface-variant rounded px-1 py-0.5 text-xs font-normal normal-case';
+
+type UploadedImport = LeadImportPreview & {
+  importId: string;
+  fileName: string;
+};
+
+/**
+ * Uploads a CSV or XLSX lead list, lets the columns be mapped while
+ * previewing the rows, then imports them and queues their enrichment
+ */
+const LeadImportDialog = ({
+  open,
+  onClose,
+  onImported,
+}: {
+  open: boolean;
+  onClose: () => void;
+  // The job enriching the imported leads, null when none had to be enriched
+  onImported: (jobId: string | null, queued: number) => void;
+}) => {
+  const [upload, setUpload] = useState<UploadedImport | null>(null);
+  const [includeExisting, setIncludeExisting] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const close = () => {
+    if (loading) return;
+    setUpload(null);
+    setIncludeExisting(false);
+    onClose();
+  };
+
+  const request = async (url: string, init: RequestInit) => {
+    setLoading(true);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message);
+      return data;
+    } catch (err) {
+      console.error('Error importing leads:', err);
+      toast.error((err as Error).message || 'Could not import the leads');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadFile = async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const data = await request('/api/leads/import', {
+      method: 'POST',
+      body: formData,
+    });
+    if (data) setUpload(data);
+  };
+
+  const post = (body: Record<string, unknown>) =>
+    request(`/api/leads/import/${upload!.importId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const remap = async (column: string, target: LeadImportTarget) => {
+    const mapping: LeadImportMapping = { ...upload!.mapping };
+
+    // A field goes to one column at a time
+    if (target !== 'custom' && target !== 'ignore') {
+      Object.keys(mapping).forEach((key) => {
+        if (mapping[key] === target) mapping[key] = 'custom';
+      });
+    }
+    mapping[column] = target;
+
+    const data = await post({ mapping, dryRun: true });
+    if (data) setUpload({ ...upload!, ...data });
+  };
+
+  const runImport = async () => {
+    const data = await post({ mapping: upload!.mapping, includeExisting });
+    if (!data) return;
+
+    onImported(data.jobId, data.queued);
+    setUpload(null);
+    setIncludeExisting(false);
+    onClose();
+  };
+
+  const hasEmailColumn = upload
+    ? Object.values(upload.mapping).includes('email')
+    : false;
+  const importable = upload
+    ? upload.counts.new + upload.counts.existing
+    : 0;
+
+  return (
+    <Transition appear show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={close}>
+        <div className="fixed inset-0 bg-black/30" />
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <TransitionChild
+            as={Fragment}
+            enter="ease-out duration-200"
+            enterFrom="opacity-0 scale-95"
+            enterTo="opacity-100 scale-100"
+            leave="ease-in duration-100"
+            leaveFrom="opacity-100 scale-100"
+            leaveTo="opacity-0 scale-95"
+          >
+            <DialogPanel className="w-full max-w-5xl max-h-[90vh] flex flex-col rounded-2xl bg-surface text-on-surface p-6 shadow-xl">
+              <DialogTitle className="text-lg font-medium">
+                Import leads
+              </DialogTitle>
+              {!upload ? (
+                <div className="mt-4 space-y-2 text-sm">
+                  <p>
+                    Upload a CSV or XLSX file with a header row and an email
+                    column. Columns can be mapped to fields before anything is
+                    imported.
+                  </p>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    disabled={loading}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) uploadFile(file);
+                    }}
+                  />
+                  {loading && <p className="opacity-70">Reading the file...</p>}
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm mt-2">
+                    {upload.fileName}: {upload.counts.new} new,{' '}
+                    {upload.counts.existing} saved before,{' '}
+                    {upload.counts.duplicate} duplicate and{' '}
+                    {upload.counts.invalid} invalid rows
+                  </p>
+                  {!hasEmailColumn && (
+                    <p className="text-sm text-red-500 mt-1">
+                      Map one column to Email to import the file.
+                    </p>
+                  )}
+                  <div className="mt-4 overflow-auto border border-surface-variant rounded">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr>
+                          <th className="sticky top-0 bg-surface-variant px-3 py-2 text-left">
+                            Line
+                          </th>
+                          <th className="sticky top-0 bg-surface-variant px-3 py-2 text-left">
+                            Status
+                          </th>
+                          {upload.columns.map((column) => (
+                            <th
+                              key={column}
+                              className="sticky top-0 bg-surface-variant px-3 py-2 text-left whitespace-nowrap"
+                            >
+                              <div>{column}</div>
+                              <select
+                                value={upload.mapping[column] ?? 'ignore'}
+                                disabled={loading}
+                                onChange={(e) =>
+                                  remap(
+                                    column,
+                                    e.target.value as LeadImportTarget,
+                                  )
+                                }
+                                className={selectClassName}
+                              >
+                                {LEAD_IMPORT_FIELDS.map(({ field, label }) => (
+                                  <option key={field} value={field}>
+                                    {label}
+                                  </option>
+                                ))}
+                                <option value="custom">Custom attribute</option>
+                                <option value="ignore">Don&apos;t import</option>
+                              </select>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {upload.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                          <tr
+                            key={row.line}
+                            className="border-t border-surface-variant"
+                          >
+                            <td className="px-3 py-1 opacity-70">
+                              {row.line}
+                            </td>
+                            <td
+                              className={`px-3 py-1 whitespace-nowrap ${STATUS_CLASSNAMES[row.status]}`}
+                              title={row.error ?? row.warning}
+                            >
+                              {STATUS_LABELS[row.status]}
+                              {(row.error || row.warning) && ' ⚠'}
+                            </td>
+                            {upload.columns.map((column) => {
+                              const target = upload.mapping[column];
+                              const value =
+                                target === 'email'
+                                  ? row.email
+                                  : target === 'custom'
+                                    ? row.attributes.custom[column]
+                                    : target && target !== 'ignore'
+                                      ? row.attributes[target]
+                                      : undefined;
+
+                              return (
+                                <td
+                                  key={column}
+                                  className="px-3 py-1 whitespace-nowrap"
+                                >
+                                  {value ?? ''}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {upload.rows.length > PREVIEW_ROWS && (
+                    <p className="text-xs opacity-70 mt-1">
+                      Showing the first {PREVIEW_ROWS} of {upload.rows.length}{' '}
+                      rows
+                    </p>
+                  )}
+                  <label className="flex items-center space-x-2 mt-4 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={includeExisting}
+                      onChange={(e) => setIncludeExisting(e.target.checked)}
+                    />
+                    <span>
+                      Enrich the leads saved before again, instead of only
+                      updating their attributes
+                    </span>
+                  </label>
+                </>
+              )}
+              <div className="flex justify-end space-x-4 mt-6 text-sm">
+                <button onClick={close} disabled={loading}>
+                  Cancel
+                </button>
+                {upload && (
+                  <button
+                    onClick={runImport}
+                    disabled={loading || !hasEmailColumn || importable === 0}
+                    className="text-blue-500 disabled:opacity-50"
+                  >
+                    Import {importable} lead{importable === 1 ? '' : 's'}
+                  </button>
+                )}
+              </div>
+            </DialogPanel>
+          </TransitionChild>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+};
+
+export default LeadImportDialog;
@@ -0,0 +1,291 @@
+import { ReactNode } from 'react';
+import {
+  filterConfidentValues,
+  formatFieldConfidence,
+  isConfidentValue,
+} from '@/lib/enrichment/fieldConfidence';
+import type { LeadListItem, LeadSortKey } from '@/lib/enrichment/leadQuery';
+import {
+  formatChangeValue,
+  formatLeadChange,
+} from '@/lib/enrichment/leadVersions';
+import { formatPerson } from '@/lib/enrichment/person';
+import { isSameFigure } from '@/lib/enrichment/reconciliation';
+import { formatQuestionError } from '@/lib/enrichment/retry';
+import SourceCitations from '@/components/SourceCitations';
+
+/**
+ * What cells need besides the lead
+ */
+export interface LeadCellContext {
+  // Values rated below this are hidden unless showLowConfidence is set
+  minConfidence: number;
+  showLowConfidence: boolean;
+  onOverrideField: (email: string, field: string, candidate: number) => void;
+}
+
+export interface LeadColumn {
+  id: string;
+  label: string;
+  // Columns with a key can be sorted on the server
+  sortKey?: LeadSortKey;
+  className?: string;
+  render: (lead: LeadListItem, context: LeadCellContext) => ReactNode;
+}
+
+const isShownValue = (
+  lead: LeadListItem,
+  field: string,
+  context: LeadCellContext,
+) =>
+  context.showLowConfidence ||
+  isConfidentValue(
+    lead.structuredDataConfidence?.[field],
+    context.minConfidence,
+  );
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+/**
+ * The typed answers of a lead. Figures the sources disagree on can be swapped
+ * for another one they gave.
+ */
+export const LeadFacts = ({
+  lead,
+  context,
+}: {
+  lead: LeadListItem;
+  context: LeadCellContext;
+}) => {
+  if (!lead.structuredData) return <span className="opacity-70">-</span>;
+
+  const values = context.showLowConfidence
+    ? lead.structuredData
+    : filterConfidentValues(
+        lead.structuredData,
+        lead.structuredDataConfidence,
+        context.minConfidence,
+      );
+
+  return (
+    <ul className="whitespace-normal">
+      {Object.entries(values)
+        .filter(([, value]) => value !== null)
+        .map(([field, value]) => {
+          const confidence = lead.structuredDataConfidence?.[field];
+          const reconciliation = lead.structuredDataReconciliation?.[field];
+          return (
+            <li key={field} className="text-xs">
+              <strong>{field}:</strong>{' '}
+              {reconciliation && reconciliation.candidates.length > 1 ? (
+                <select
+                  value={reconciliation.candidates.findIndex(
+                    (candidate) =>
+                      value !== null && isSameFigure(candidate.value, value),
+                  )}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) =>
+                    context.onOverrideField(
+                      lead.email,
+                      field,
+                      Number(e.target.value),
+                    )
+                  }
+                  className="bg-transparent border border-surface-variant rounded"
+                >
+                  {reconciliation.candidates.map((candidate, index) => (
+                    <option key={index} value={index}>
+                      {`${formatChangeValue(candidate.value)} (${
+                        candidate.sources
+                          .map((source) => source.kind)
+                          .join(', ') || 'uncited'
+                      })`}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                formatChangeValue(value)
+              )}
+              {reconciliation?.overridden && (
+                <span className="opacity-70"> (picked by you)</span>
+              )}
+              {confidence && !reconciliation?.overridden && (
+                <span className="opacity-70">
+                  {' '}
+                  ({formatFieldConfidence(confidence)})
+                </span>
+              )}
+            </li>
+          );
+        })}
+    </ul>
+  );
+};
+
+/**
+ * What changed since the previous run. Changes are buying signals, so they
+ * stand out.
+ */
+export const LeadChanges = ({
+  lead,
+  context,
+}: {
+  lead: LeadListItem;
+  context: LeadCellContext;
+}) => {
+  // A value that is no longer found is a change worth seeing, however sure
+  const changes = lead.changes.filter(
+    (change) =>
+      change.kind === 'removed' || isShownValue(lead, change.field, context),
+  );
+
+  if (changes.length === 0) {
+    return (
+      <p className="text-xs opacity-70">
+        {lead.version > 1 ? 'No changes since the last run' : 'First run'}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1 whitespace-normal">
+      {changes.map((change) => (
+        <li
+          key={change.field}
+          className="rounded px-2 py-1 bg-yellow-100 text-yellow-900 dark:bg-yellow-900/40 dark:text-yellow-100"
+        >
+          {formatLeadChange(change)}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Every question of a run with its answer and the sources behind it
+ */
+export const LeadAnswers = ({ lead }: { lead: LeadListItem }) => (
+  <div className="space-y-2">
+    {lead.results.map((item, idx) => (
+      <div
+        key={idx}
+        className="rounded-lg shadow-md p-2 bg-surface-variant space-y-1 whitespace-normal leading-tight"
+      >
+        <p className="text-sm leading-snug">
+          <strong>Q:</strong> {item.question}
+        </p>
+        {item.status === 'failed' ? (
+          <p className="text-sm leading-snug text-red-500">
+            <strong>A:</strong>{' '}
+            {item.error ? formatQuestionError(item.error) : 'No answer'}
+          </p>
+        ) : (
+          <p className="text-sm leading-snug">
+            <strong>A:</strong> {item.answer}
+          </p>
+        )}
+        <SourceCitations sources={item.sources} />
+      </div>
+    ))}
+  </div>
+);
+
+export const LEAD_COLUMNS: LeadColumn[] = [
+  {
+    id: 'email',
+    label: 'Email',
+    sortKey: 'email',
+    render: (lead) => lead.email,
+  },
+  {
+    id: 'contact',
+    label: 'Contact',
+    render: (lead) => (lead.person ? formatPerson(lead.person) : '-'),
+  },
+  {
+    id: 'company',
+    label: 'Company',
+    sortKey: 'company',
+    render: (lead) => lead.company,
+  },
+  {
+    id: 'domain',
+    label: 'Domain',
+    sortKey: 'domain',
+    render: (lead) => lead.domain,
+  },
+  {
+    id: 'status',
+    label: 'Status',
+    render: (lead) =>
+      lead.status === 'partial' ? (
+        <span className="text-red-500">Partial</span>
+      ) : (
+        'Complete'
+      ),
+  },
+  {
+    id: 'score',
+    label: 'Score',
+    sortKey: 'score',
+    className: 'text-center',
+    render: (lead) =>
+      lead.score === null
+        ? '-'
+        : lead.scoreBreakdown
+          ? `${lead.score}/${lead.scoreBreakdown.maxScore}`
+          : lead.score,
+  },
+  {
+    id: 'reason',
+    label: 'Reason',
+    className: 'whitespace-pre-wrap min-w-[300px]',
+    render: (lead) => lead.reason || '-',
+  },
+  {
+    id: 'facts',
+    label: 'Key Facts',
+    className: 'min-w-[300px]',
+    render: (lead, context) => <LeadFacts lead={lead} context={context} />,
+  },
+  {
+    id: 'changes',
+    label: 'Changes',
+    className: 'min-w-[250px]',
+    render: (lead, context) => <LeadChanges lead={lead} context={context} />,
+  },
+  {
+    id: 'answers',
+    label: 'Answers',
+    className: 'min-w-[500px]',
+    render: (lead) => <LeadAnswers lead={lead} />,
+  },
+  {
+    id: 'version',
+    label: 'Version',
+    className: 'text-center',
+    render: (lead) => `v${lead.version}`,
+  },
+  {
+    id: 'createdAt',
+    label: 'Created At',
+    sortKey: 'createdAt',
+    render: (lead) => formatDate(lead.createdAt),
+  },
+  {
+    id: 'enrichedAt',
+    label: 'Enriched At',
+    sortKey: 'enrichedAt',
+    render: (lead) => formatDate(lead.enrichedAt),
+  },
+];
+
+export const DEFAULT_LEAD_COLUMNS = [
+  'email',
+  'company',
+  'status',
+  'score',
+  'facts',
+  'changes',
+  'enrichedAt',
+];
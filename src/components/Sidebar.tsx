@@ -1,7 +1,7 @@
 'use client';
 
 import { cn } from '@/lib/utils';
-import { BookOpenText, Home, Search, SquarePen, Settings, UserPlus } from 'lucide-react';
+import { BookOpenText, DollarSign, Home, Search, SquarePen, Settings, UserPlus } from 'lucide-react';
 import Link from 'next/link';
 import { useSelectedLayoutSegments } from 'next/navigation';
 import React, { useState, type ReactNode } from 'react';
@@ -29,6 +29,12 @@ const Sidebar = ({ children }: { children: React.ReactNode }) => {
       active: segments.includes('leadTable'),
       label: 'Lead Table',
     },
+    {
+      icon: DollarSign,
+      href: '/costs',
+      active: segments.includes('costs'),
+      label: 'Costs',
+    },
     {
       icon: Home,
       href: '/',
@@ -0,0 +1,50 @@
+import { cn } from '@/lib/utils';
+
+export interface SourceCitation {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+/**
+ * Numbered source links for an enrichment answer. The numbers match the [n]
+ * markers in the answer text; uploaded files have no link.
+ */
+const SourceCitations = ({
+  sources,
+  className,
+}: {
+  sources?: SourceCitation[];
+  className?: string;
+}) => {
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1 mt-1', className)}>
+      {sources.map((source, i) =>
+        /^https?:\/\//.test(source.url) ? (
+          <a
+            key={i}
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.snippet || source.title}
+            className="text-xs px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-600 hover:bg-blue-500/20 max-w-[220px] overflow-hidden whitespace-nowrap text-ellipsis"
+          >
+            [{i + 1}] {source.title || source.url.replace(/.+\/\/|www\./g, '')}
+          </a>
+        ) : (
+          <span
+            key={i}
+            title={source.snippet}
+            className="text-xs px-2 py-0.5 rounded-full bg-gray-500/10 text-gray-500 max-w-[220px] overflow-hidden whitespace-nowrap text-ellipsis"
+          >
+            [{i + 1}] {source.title || 'File'}
+          </span>
+        ),
+      )}
+    </div>
+  );
+};
+
+export default SourceCitations;
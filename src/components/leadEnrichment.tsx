@@ -6,22 +6,20 @@ import { useState } from 'react';
 import { toast } from 'sonner';
 
 interface Props {
-  onSubmit: (email: string, company: string) => void;
+  // The server resolves the company from the email's domain when enriching
+  onSubmit: (email: string) => void;
 }
 
 const LeadEnrichment = ({ onSubmit }: Props) => {
   const [email, setEmail] = useState('');
 
   const handleSubmit = () => {
-    if (!email.includes('@')) {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
       toast.error('Please enter a valid email address');
       return;
     }
 
-    const domain = email.split('@')[1];
-    const company = domain.split('.')[0];
-    toast.success(`Company extracted: ${company}`);
-    onSubmit(email, company);
+    onSubmit(email.trim());
   };
 
   return (
@@ -0,0 +1,13 @@
+export async function register() {
+  // The enrichment worker and scheduler need Node APIs (SQLite), so skip the
+  // edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureEnrichmentWorker } = await import('@/lib/enrichment/jobs');
+    ensureEnrichmentWorker();
+
+    const { ensureEnrichmentScheduler } = await import(
+      '@/lib/enrichment/schedules'
+    );
+    ensureEnrichmentScheduler();
+  }
+}
@@ -47,11 +47,69 @@ interface Config {
       MODEL_NAME: string;
     };
   };
+  ENRICHMENT: {
+    LEAD_CONCURRENCY: number;
+    QUESTION_CONCURRENCY: number;
+    SCORING_MODEL_PROVIDER: string;
+    SCORING_MODEL_NAME: string;
+    COMPANY_CACHE_TTL_HOURS: number;
+    CHECKPOINT_TTL_HOURS: number;
+    ENRICH_PEOPLE: boolean;
+    MIN_FIELD_CONFIDENCE: number;
+    RATE_LIMITS: Record<string, RateLimitConfig>;
+    FX_RATES: Record<string, number>;
+    MODEL_PRICES: Record<string, ModelPriceConfig>;
+    EMAIL_FILTER: EmailFilterConfig;
+    RETRY: RetryConfig;
+  };
+  CRM: {
+    ZOHO: ZohoConfig;
+  };
   API_ENDPOINTS: {
     SEARXNG: string;
   };
 }
 
+export interface ZohoConfig {
+  CLIENT_ID: string;
+  CLIENT_SECRET: string;
+  REFRESH_TOKEN: string;
+  ACCOUNTS_URL: string;
+  API_URL: string;
+}
+
+export interface EmailFilterConfig {
+  FREE_MAIL: 'skip' | 'enrich';
+  DISPOSABLE: 'skip' | 'enrich';
+  ISP: 'skip' | 'enrich';
+  ROLE: 'skip' | 'enrich';
+  EXTRA_FREE_MAIL_DOMAINS: string[];
+  EXTRA_DISPOSABLE_DOMAINS: string[];
+  EXTRA_ISP_DOMAINS: string[];
+  EXTRA_ROLE_ACCOUNTS: string[];
+  ALLOWED_DOMAINS: string[];
+}
+
+export interface RetryConfig {
+  MAX_ATTEMPTS: number;
+  BASE_DELAY_MS: number;
+  MAX_DELAY_MS: number;
+  QUESTION_TIMEOUT_SECONDS: number;
+  FALLBACK_MODEL_PROVIDER: string;
+  FALLBACK_MODEL_NAME: string;
+}
+
+export interface RateLimitConfig {
+  REQUESTS_PER_MINUTE: number;
+  BURST: number;
+}
+
+// USD per million tokens
+export interface ModelPriceConfig {
+  INPUT: number;
+  OUTPUT: number;
+}
+
 type RecursivePartial<T> = {
   [P in keyof T]?: RecursivePartial<T[P]>;
 };
@@ -102,6 +160,62 @@ export const getCustomOpenaiModelName = () =>
 export const getLMStudioApiEndpoint = () =>
   loadConfig().MODELS.LM_STUDIO.API_URL;
 
+export const getLeadConcurrency = () =>
+  loadConfig().ENRICHMENT?.LEAD_CONCURRENCY || 1;
+
+export const getQuestionConcurrency = () =>
+  loadConfig().ENRICHMENT?.QUESTION_CONCURRENCY || 1;
+
+export const getScoringModelProvider = () =>
+  loadConfig().ENRICHMENT?.SCORING_MODEL_PROVIDER || '';
+
+export const getScoringModelName = () =>
+  loadConfig().ENRICHMENT?.SCORING_MODEL_NAME || '';
+
+// 0 turns the company profile cache off
+export const getCompanyCacheTtlHours = () =>
+  loadConfig().ENRICHMENT?.COMPANY_CACHE_TTL_HOURS ?? 168;
+
+// 0 turns resuming partly researched companies off
+export const getCheckpointTtlHours = () =>
+  loadConfig().ENRICHMENT?.CHECKPOINT_TTL_HOURS ?? 24;
+
+export const getEnrichPeople = () =>
+  loadConfig().ENRICHMENT?.ENRICH_PEOPLE ?? true;
+
+// Values rated below this are left out of the Lead Table and CRM sync
+export const getMinFieldConfidence = () =>
+  loadConfig().ENRICHMENT?.MIN_FIELD_CONFIDENCE ?? 0.5;
+
+export const getProviderRateLimit = (
+  provider: string,
+): RateLimitConfig | undefined => {
+  const rateLimits = loadConfig().ENRICHMENT?.RATE_LIMITS || {};
+  return rateLimits[provider.toUpperCase()] || rateLimits.DEFAULT;
+};
+
+// USD value of one unit of each currency, keyed by ISO 4217 code
+export const getFxRates = (): Record<string, number> =>
+  loadConfig().ENRICHMENT?.FX_RATES || {};
+
+// Keyed by model name, or by provider for all of its models
+export const getModelPrice = (
+  provider: string,
+  model: string,
+): ModelPriceConfig | undefined => {
+  const prices = loadConfig().ENRICHMENT?.MODEL_PRICES || {};
+  return prices[model] || prices[provider.toUpperCase()];
+};
+
+export const getEmailFilter = (): Partial<EmailFilterConfig> =>
+  loadConfig().ENRICHMENT?.EMAIL_FILTER || {};
+
+export const getRetryConfig = (): Partial<RetryConfig> =>
+  loadConfig().ENRICHMENT?.RETRY || {};
+
+export const getZohoConfig = (): Partial<ZohoConfig> =>
+  loadConfig().CRM?.ZOHO || {};
+
 const mergeConfigs = (current: any, update: any): any => {
   if (update === null || update === undefined) {
     return current;
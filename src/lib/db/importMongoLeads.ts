@@ -0,0 +1,94 @@
+import type { Document } from 'mongodb';
+import db from './';
+import { getLeadsDb } from './mongo';
+import { leads } from './schema';
+import { insertLeadVersion } from '../enrichment/leadHistory';
+import type { LeadVersion } from '../enrichment/leadVersions';
+
+/**
+ * One-time import of the leads saved in MongoDB, where every company had its
+ * own collection, into the SQLite lead tables. Run it once after migrating:
+ *
+ *   MONGODB_URI=mongodb://... npx tsx src/lib/db/importMongoLeads.ts
+ *
+ * Leads already in SQLite are skipped, so running it again is safe.
+ */
+
+const toLeadVersion = (doc: Document, collection: string): LeadVersion => ({
+  email: String(doc.email ?? '')
+    .trim()
+    .toLowerCase(),
+  domain: doc.domain ?? collection,
+  chatId: doc.chatId ?? '',
+  version: doc.version ?? 0,
+  results: Array.isArray(doc.results) ? doc.results : [],
+  structuredData: doc.structuredData ?? null,
+  structuredDataConfidence: doc.structuredDataConfidence ?? null,
+  structuredDataReconciliation: doc.structuredDataReconciliation ?? null,
+  score: typeof doc.score === 'number' ? doc.score : null,
+  scoreBreakdown: doc.scoreBreakdown ?? null,
+  reason: doc.reason ?? '',
+  person: doc.person ?? null,
+  structuredFields: doc.structuredFields ?? null,
+  changes: Array.isArray(doc.changes) ? doc.changes : [],
+  createdAt: doc.createdAt
+    ? new Date(doc.createdAt).toISOString()
+    : new Date(0).toISOString(),
+});
+
+const importMongoLeads = async () => {
+  const mongo = await getLeadsDb();
+  const collections = await mongo.listCollections().toArray();
+  const byEmail = new Map<string, LeadVersion[]>();
+
+  for (const col of collections) {
+    const docs = await mongo.collection(col.name).find({}).toArray();
+
+    for (const doc of docs) {
+      const version = toLeadVersion(doc, col.name);
+      if (!version.email) continue;
+
+      byEmail.set(version.email, [
+        ...(byEmail.get(version.email) ?? []),
+        version,
+      ]);
+    }
+  }
+
+  const existing = new Set(
+    (await db.select({ email: leads.email }).from(leads)).map(
+      (lead) => lead.email,
+    ),
+  );
+
+  let imported = 0;
+  let skipped = 0;
+
+  for (const [email, versions] of Array.from(byEmail.entries())) {
+    if (existing.has(email)) {
+      skipped++;
+      continue;
+    }
+
+    versions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    // Numbered by date, so leads saved before runs were versioned count as
+    // one version each
+    versions.forEach((version, index) => {
+      version.version = index + 1;
+      insertLeadVersion(version);
+    });
+    imported++;
+  }
+
+  console.log(
+    `Imported ${imported} leads from ${collections.length} collections, skipped ${skipped} already in SQLite`,
+  );
+};
+
+importMongoLeads()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error('Error importing leads from MongoDB:', err);
+    process.exit(1);
+  });
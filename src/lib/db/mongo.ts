@@ -0,0 +1,19 @@
+import { MongoClient } from 'mongodb';
+
+const dbName = 'briha';
+
+// Kept on globalThis so hot reloads in development reuse the connection
+const globalForMongo = globalThis as unknown as { mongoClient?: MongoClient };
+
+/**
+ * The database leads were saved in before they moved to SQLite, one
+ * collection per company. Only the importer reads it. The client is created
+ * on first use, so modules that import this still load without MONGODB_URI.
+ */
+export const getLeadsDb = async () => {
+  const client = (globalForMongo.mongoClient ??= new MongoClient(
+    process.env.MONGODB_URI!,
+  ));
+  await client.connect();
+  return client.db(dbName);
+};
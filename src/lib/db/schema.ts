@@ -1,5 +1,12 @@
 import { sql } from 'drizzle-orm';
-import { text, integer, sqliteTable } from 'drizzle-orm/sqlite-core';
+import {
+  text,
+  integer,
+  real,
+  sqliteTable,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
 
 export const messages = sqliteTable('messages', {
   id: integer('id').primaryKey(),
@@ -26,3 +33,322 @@ export const chats = sqliteTable('chats', {
     .$type<File[]>()
     .default(sql`'[]'`),
 });
+
+export const enrichmentJobs = sqliteTable('enrichment_jobs', {
+  id: text('id').primaryKey(),
+  status: text('status', {
+    enum: ['queued', 'running', 'completed', 'failed'],
+  })
+    .notNull()
+    .default('queued'),
+  params: text('params', { mode: 'json' }).notNull(),
+  errors: text('errors', { mode: 'json' })
+    .$type<string[]>()
+    .default(sql`'[]'`),
+  createdAt: text('createdAt').notNull(),
+  startedAt: text('startedAt'),
+  completedAt: text('completedAt'),
+});
+
+export const enrichmentJobItems = sqliteTable('enrichment_job_items', {
+  id: integer('id').primaryKey(),
+  jobId: text('jobId').notNull(),
+  email: text('email').notNull(),
+  status: text('status', {
+    enum: ['pending', 'running', 'completed', 'skipped', 'failed'],
+  })
+    .notNull()
+    .default('pending'),
+  result: text('result', { mode: 'json' }),
+  error: text('error'),
+  startedAt: text('startedAt'),
+  completedAt: text('completedAt'),
+});
+
+type QuestionValueType = 'text' | 'number' | 'money' | 'boolean' | 'url' | 'list';
+
+export interface QuestionOutputField {
+  key: string;
+  type: QuestionValueType;
+  description?: string;
+}
+
+export interface EnrichmentQuestion {
+  id: string;
+  template: string;
+  focusMode?: string;
+  answerType: QuestionValueType;
+  output?: QuestionOutputField[];
+}
+
+export const questionSets = sqliteTable('question_sets', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  questions: text('questions', { mode: 'json' })
+    .$type<EnrichmentQuestion[]>()
+    .notNull(),
+  isDefault: integer('isDefault', { mode: 'boolean' })
+    .notNull()
+    .default(false),
+  createdAt: text('createdAt').notNull(),
+  updatedAt: text('updatedAt').notNull(),
+});
+
+export interface RubricBand {
+  label: string;
+  points: number;
+  // Inclusive lower and exclusive upper bound, open ended when omitted
+  min?: number;
+  max?: number;
+}
+
+export interface RubricMoneyBand {
+  label: string;
+  points: number;
+  // Bounds per ISO 4217 currency code, e.g. { USD: 1000000, INR: 80000000 }
+  min?: Record<string, number>;
+  max?: Record<string, number>;
+}
+
+interface RubricCriterionBase {
+  id: string;
+  label: string;
+  // Points when the answers say the value could not be found, 0 when omitted
+  notFoundPoints?: number;
+}
+
+export type RubricCriterion =
+  | (RubricCriterionBase & {
+      type: 'number';
+      field: string;
+      bands: RubricBand[];
+    })
+  | (RubricCriterionBase & {
+      type: 'money';
+      field: string;
+      bands: RubricMoneyBand[];
+    })
+  | (RubricCriterionBase & {
+      type: 'boolean';
+      field: string;
+      truePoints: number;
+      falsePoints: number;
+    })
+  | (RubricCriterionBase & {
+      type: 'llm';
+      // The answers to these questions are the evidence the model judges
+      questionIds: string[];
+      instructions: string;
+      bands: Omit<RubricBand, 'min' | 'max'>[];
+    });
+
+export const rubrics = sqliteTable('rubrics', {
+  version: integer('version').primaryKey(),
+  criteria: text('criteria', { mode: 'json' })
+    .$type<RubricCriterion[]>()
+    .notNull(),
+  createdAt: text('createdAt').notNull(),
+});
+
+export const companyProfiles = sqliteTable('company_profiles', {
+  id: integer('id').primaryKey(),
+  // Registrable domain, e.g. "acme.co.uk"
+  domain: text('domain').notNull(),
+  // Hash of the questions asked, so a different question set is a cache miss
+  questionsKey: text('questionsKey').notNull(),
+  profile: text('profile', { mode: 'json' }).notNull(),
+  researchedAt: text('researchedAt').notNull(),
+});
+
+export const companies = sqliteTable('companies', {
+  id: integer('id').primaryKey(),
+  // Registrable domain, e.g. "acme.co.uk"
+  domain: text('domain').notNull().unique(),
+  name: text('name').notNull(),
+  createdAt: text('createdAt').notNull(),
+  updatedAt: text('updatedAt').notNull(),
+});
+
+export const leads = sqliteTable(
+  'leads',
+  {
+    id: integer('id').primaryKey(),
+    email: text('email').notNull().unique(),
+    companyId: integer('companyId')
+      .notNull()
+      .references(() => companies.id),
+    // When the lead was first saved
+    createdAt: text('createdAt').notNull(),
+    updatedAt: text('updatedAt').notNull(),
+  },
+  (table) => [index('leads_company_idx').on(table.companyId)],
+);
+
+export const enrichmentRuns = sqliteTable(
+  'enrichment_runs',
+  {
+    id: integer('id').primaryKey(),
+    leadId: integer('leadId')
+      .notNull()
+      .references(() => leads.id),
+    // 1 for the first run of the lead, never reused
+    version: integer('version').notNull(),
+    // The job that ran the enrichment, null for runs saved through the API
+    jobId: text('jobId'),
+    chatId: text('chatId').notNull(),
+    structuredData: text('structuredData', { mode: 'json' }),
+    structuredDataConfidence: text('structuredDataConfidence', {
+      mode: 'json',
+    }),
+    structuredDataReconciliation: text('structuredDataReconciliation', {
+      mode: 'json',
+    }),
+    person: text('person', { mode: 'json' }),
+    // The CRM fields, e.g. "Country" and "City"
+    structuredFields: text('structuredFields', { mode: 'json' }),
+    // What changed since the previous version
+    changes: text('changes', { mode: 'json' }).default(sql`'[]'`),
+    createdAt: text('createdAt').notNull(),
+  },
+  (table) => [
+    uniqueIndex('enrichment_runs_lead_idx').on(table.leadId, table.version),
+  ],
+);
+
+export const enrichmentAnswers = sqliteTable(
+  'enrichment_answers',
+  {
+    id: integer('id').primaryKey(),
+    runId: integer('runId')
+      .notNull()
+      .references(() => enrichmentRuns.id),
+    // Order of the question in the run
+    position: integer('position').notNull(),
+    questionId: text('questionId'),
+    question: text('question').notNull(),
+    answer: text('answer').notNull(),
+    status: text('status', { enum: ['answered', 'failed'] })
+      .notNull()
+      .default('answered'),
+    sources: text('sources', { mode: 'json' }).default(sql`'[]'`),
+    // Why a failed question has no answer
+    error: text('error', { mode: 'json' }),
+  },
+  (table) => [index('enrichment_answers_run_idx').on(table.runId)],
+);
+
+export const scores = sqliteTable(
+  'scores',
+  {
+    id: integer('id').primaryKey(),
+    runId: integer('runId')
+      .notNull()
+      .unique()
+      .references(() => enrichmentRuns.id),
+    score: real('score').notNull(),
+    maxScore: real('maxScore'),
+    // Null for scores saved without a breakdown
+    rubricVersion: integer('rubricVersion'),
+    breakdown: text('breakdown', { mode: 'json' }),
+    reason: text('reason').notNull().default(''),
+    // When the run was last scored; re-scoring replaces the score in place
+    scoredAt: text('scoredAt'),
+  },
+  (table) => [index('scores_score_idx').on(table.score)],
+);
+
+export const questionCheckpoints = sqliteTable('question_checkpoints', {
+  id: integer('id').primaryKey(),
+  // The run that answered the question, null outside enrichment jobs
+  jobId: text('jobId'),
+  email: text('email').notNull(),
+  domain: text('domain').notNull(),
+  questionsKey: text('questionsKey').notNull(),
+  questionId: text('questionId').notNull(),
+  // The research chat, so a resumed run continues it
+  chatId: text('chatId').notNull(),
+  result: text('result', { mode: 'json' }).notNull(),
+  answeredAt: text('answeredAt').notNull(),
+});
+
+export const enrichmentSchedules = sqliteTable('enrichment_schedules', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  cron: text('cron').notNull(),
+  // "reenrich" researches the leads again, "score" only applies the rubric
+  action: text('action', { enum: ['reenrich', 'score'] }).notNull(),
+  // Only leads whose latest score is above this
+  minScore: integer('minScore'),
+  // Only leads first saved within this many hours
+  savedWithinHours: integer('savedWithinHours'),
+  questionSetId: text('questionSetId'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  nextRunAt: text('nextRunAt'),
+  lastRunAt: text('lastRunAt'),
+  createdAt: text('createdAt').notNull(),
+  updatedAt: text('updatedAt').notNull(),
+});
+
+export const enrichmentScheduleRuns = sqliteTable('enrichment_schedule_runs', {
+  id: integer('id').primaryKey(),
+  scheduleId: text('scheduleId').notNull(),
+  // The enrichment job the run queued, null when no lead matched
+  jobId: text('jobId'),
+  leadCount: integer('leadCount').notNull(),
+  error: text('error'),
+  startedAt: text('startedAt').notNull(),
+});
+
+export const llmUsage = sqliteTable('llm_usage', {
+  id: integer('id').primaryKey(),
+  // What the call was for, e.g. "research" or "scoring"
+  purpose: text('purpose').notNull(),
+  jobId: text('jobId'),
+  email: text('email'),
+  userId: text('userId'),
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('promptTokens').notNull(),
+  completionTokens: integer('completionTokens').notNull(),
+  // The provider reported no usage, so it was estimated from the text
+  estimated: integer('estimated', { mode: 'boolean' })
+    .notNull()
+    .default(false),
+  // USD at the price when the call was made, null when the model has none
+  cost: real('cost'),
+  createdAt: text('createdAt').notNull(),
+});
+
+export const leadViews = sqliteTable(
+  'lead_views',
+  {
+    id: text('id').primaryKey(),
+    // From the x-user-id header, null for views shared by everyone
+    userId: text('userId'),
+    name: text('name').notNull(),
+    // Columns, sort, filters and page size of the Lead Table
+    settings: text('settings', { mode: 'json' }).notNull(),
+    createdAt: text('createdAt').notNull(),
+    updatedAt: text('updatedAt').notNull(),
+  },
+  (table) => [index('lead_views_user_idx').on(table.userId)],
+);
+
+export const leadAttributes = sqliteTable('lead_attributes', {
+  id: integer('id').primaryKey(),
+  // Kept apart from leads, which are only saved once they are enriched
+  email: text('email').notNull().unique(),
+  firstName: text('firstName'),
+  lastName: text('lastName'),
+  company: text('company'),
+  phone: text('phone'),
+  // Values of the columns imported as custom attributes, by column name
+  custom: text('custom', { mode: 'json' })
+    .$type<Record<string, string>>()
+    .default(sql`'{}'`),
+  // Name of the file the lead was last imported from
+  source: text('source').notNull(),
+  importedAt: text('importedAt').notNull(),
+  updatedAt: text('updatedAt').notNull(),
+});
@@ -0,0 +1,117 @@
+import { and, desc, eq, gte } from 'drizzle-orm';
+import db from '@/lib/db';
+import { questionCheckpoints } from '@/lib/db/schema';
+import type { EnrichmentResult } from '@/lib/runEnrichment';
+
+/**
+ * A question answered while researching a company, saved as soon as it
+ * completes so an interrupted run can resume after it
+ */
+export interface QuestionCheckpoint {
+  questionId: string;
+  chatId: string;
+  result: EnrichmentResult;
+  answeredAt: string;
+}
+
+/**
+ * The lead and run a checkpoint belongs to
+ */
+export interface CheckpointRun {
+  jobId?: string;
+  email: string;
+  domain: string;
+  questionsKey: string;
+  chatId: string;
+}
+
+/**
+ * Returns the answered questions of the latest run that researched a domain
+ * with these questions, leaving out those older than the TTL. Pass `jobId` to
+ * only resume that job's own run.
+ */
+export const getQuestionCheckpoints = async (
+  domain: string,
+  questionsKey: string,
+  ttlHours: number,
+  jobId?: string,
+): Promise<QuestionCheckpoint[]> => {
+  if (ttlHours <= 0) return [];
+
+  const since = new Date(Date.now() - ttlHours * 60 * 60 * 1000);
+
+  const rows = await db.query.questionCheckpoints.findMany({
+    where: and(
+      eq(questionCheckpoints.domain, domain),
+      eq(questionCheckpoints.questionsKey, questionsKey),
+      gte(questionCheckpoints.answeredAt, since.toISOString()),
+      jobId ? eq(questionCheckpoints.jobId, jobId) : undefined,
+    ),
+    orderBy: desc(questionCheckpoints.answeredAt),
+  });
+
+  if (rows.length === 0) return [];
+
+  // Answers of different runs don't share a chat, so resume only the latest
+  const chatId = rows[0].chatId;
+
+  return rows
+    .filter((row) => row.chatId === chatId)
+    .map((row) => ({
+      questionId: row.questionId,
+      chatId: row.chatId,
+      result: row.result as EnrichmentResult,
+      answeredAt: row.answeredAt,
+    }));
+};
+
+/**
+ * Saves an answered question of a run, replacing an earlier answer to it
+ */
+export const saveQuestionCheckpoint = async (
+  run: CheckpointRun,
+  questionId: string,
+  result: EnrichmentResult,
+) => {
+  await db
+    .delete(questionCheckpoints)
+    .where(
+      and(
+        eq(questionCheckpoints.chatId, run.chatId),
+        eq(questionCheckpoints.questionId, questionId),
+      ),
+    )
+    .execute();
+
+  await db
+    .insert(questionCheckpoints)
+    .values({
+      jobId: run.jobId ?? null,
+      email: run.email,
+      domain: run.domain,
+      questionsKey: run.questionsKey,
+      questionId,
+      chatId: run.chatId,
+      result,
+      answeredAt: new Date().toISOString(),
+    })
+    .execute();
+};
+
+/**
+ * Drops the checkpoints of a domain once every question has been answered
+ */
+export const clearQuestionCheckpoints = async (
+  domain: string,
+  questionsKey: string,
+) => {
+  await db
+    .delete(questionCheckpoints)
+    .where(
+      and(
+        eq(questionCheckpoints.domain, domain),
+        eq(questionCheckpoints.questionsKey, questionsKey),
+      ),
+    )
+    .execute();
+};
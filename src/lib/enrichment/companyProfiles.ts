@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import db from '@/lib/db';
+import { companyProfiles, EnrichmentQuestion } from '@/lib/db/schema';
+import type {
+  EnrichmentResult,
+  SourceCitation,
+} from '@/lib/runEnrichment';
+import type { StructuredDataConfidence } from './fieldConfidence';
+import type { StructuredDataReconciliation } from './reconciliation';
+import type { ScoreBreakdown } from './rubric';
+import type { StructuredAnswer } from './structuredAnswers';
+
+/**
+ * Everything researched about a company, shared by all emails on its domain
+ */
+export interface CompanyProfile {
+  domain: string;
+  company: string;
+  chatId: string;
+  enrichmentData: EnrichmentResult[];
+  structuredData: StructuredAnswer;
+  structuredDataSources: Record<string, SourceCitation[]>;
+  // Missing from profiles cached before confidence was tracked
+  structuredDataConfidence?: StructuredDataConfidence;
+  structuredDataReconciliation?: StructuredDataReconciliation;
+  structuredFields: Record<string, any>;
+  scoreBreakdown: ScoreBreakdown;
+  researchedAt: string;
+}
+
+/**
+ * Identifies a list of questions, so profiles researched with another question
+ * set are not reused
+ */
+export const getQuestionsKey = (questions: EnrichmentQuestion[]) =>
+  crypto
+    .createHash('sha1')
+    .update(
+      JSON.stringify(
+        questions.map(({ id, template, focusMode, output }) => ({
+          id,
+          template,
+          focusMode,
+          output,
+        })),
+      ),
+    )
+    .digest('hex');
+
+/**
+ * Returns the cached profile of a domain, or null if there is none younger
+ * than the TTL
+ */
+export const getCachedCompanyProfile = async (
+  domain: string,
+  questionsKey: string,
+  ttlHours: number,
+): Promise<CompanyProfile | null> => {
+  if (ttlHours <= 0) return null;
+
+  const cached = await db.query.companyProfiles.findFirst({
+    where: and(
+      eq(companyProfiles.domain, domain),
+      eq(companyProfiles.questionsKey, questionsKey),
+    ),
+    orderBy: desc(companyProfiles.researchedAt),
+  });
+
+  if (!cached) return null;
+
+  const ageMs = Date.now() - new Date(cached.researchedAt).getTime();
+  if (ageMs > ttlHours * 60 * 60 * 1000) return null;
+
+  return cached.profile as CompanyProfile;
+};
+
+/**
+ * Stores a freshly researched profile, replacing the previous one
+ */
+export const saveCompanyProfile = async (
+  profile: CompanyProfile,
+  questionsKey: string,
+) => {
+  await db
+    .delete(companyProfiles)
+    .where(
+      and(
+        eq(companyProfiles.domain, profile.domain),
+        eq(companyProfiles.questionsKey, questionsKey),
+      ),
+    )
+    .execute();
+
+  await db
+    .insert(companyProfiles)
+    .values({
+      domain: profile.domain,
+      questionsKey,
+      profile,
+      researchedAt: profile.researchedAt,
+    })
+    .execute();
+};
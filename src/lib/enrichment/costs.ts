@@ -0,0 +1,34 @@
+/**
+ * Tokens and cost of a set of LLM calls, as the usage API returns them
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // USD of the calls to priced models
+  cost: number;
+  // Calls to models without a price, left out of the cost
+  unpricedCalls: number;
+  // Calls whose tokens were estimated from the text
+  estimatedCalls: number;
+}
+
+// A lead costs fractions of a cent on small models, so keep those visible
+export const formatCost = (usd: number) =>
+  `$${usd > 0 && usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000
+      ? `${(tokens / 1000).toFixed(1)}k`
+      : String(tokens);
+
+/**
+ * Renders usage as e.g. "14 calls, 23.4k tokens, $0.0061 (2 unpriced)"
+ */
+export const formatUsage = (usage: UsageTotals) => {
+  const unpriced =
+    usage.unpricedCalls > 0 ? ` (${usage.unpricedCalls} unpriced)` : '';
+  return `${usage.calls} calls, ${formatTokens(usage.promptTokens + usage.completionTokens)} tokens, ${formatCost(usage.cost)}${unpriced}`;
+};
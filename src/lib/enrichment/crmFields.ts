@@ -0,0 +1,68 @@
+import { isConfidentValue, StructuredDataConfidence } from './fieldConfidence';
+import type { PersonProfile } from './person';
+
+// API names of the Zoho lead fields the extracted CRM fields are written to
+export const CRM_FIELD_MAPPING: Record<string, string> = {
+  'Customer Type': 'Customer_Type',
+  'Contact Search': 'Contact_Search',
+  Phone: 'Phone',
+  Mobile: 'Mobile',
+  Description: 'Description',
+  Street: 'Street',
+  City: 'City',
+  State: 'State',
+  'Zip Code': 'Zip_Code',
+  Country: 'Country',
+};
+
+// Typed answers map straight onto standard lead fields
+export const STRUCTURED_DATA_CRM_MAPPING: Record<string, string> = {
+  employeeCount: 'No_of_Employees',
+  websiteUrl: 'Website',
+  industry: 'Industry',
+};
+
+/**
+ * The Zoho lead fields for an enrichment, keyed by API name. Typed answers
+ * rated below `minConfidence` are left out and listed in `skipped`.
+ */
+export const toCrmLeadFields = (
+  structuredFields: Record<string, any> | null | undefined,
+  structuredData: Record<string, any> | null | undefined,
+  structuredDataConfidence: StructuredDataConfidence | null | undefined,
+  minConfidence: number,
+) => {
+  const fields: Record<string, any> = {};
+  const skipped: string[] = [];
+
+  Object.entries(structuredFields ?? {}).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    const crmField = CRM_FIELD_MAPPING[key];
+    if (crmField) fields[crmField] = value;
+  });
+
+  Object.entries(STRUCTURED_DATA_CRM_MAPPING).forEach(([key, crmField]) => {
+    const value = structuredData?.[key];
+    if (value === null || value === undefined) return;
+    if (!isConfidentValue(structuredDataConfidence?.[key], minConfidence)) {
+      skipped.push(key);
+      return;
+    }
+    fields[crmField] = value;
+  });
+
+  return { fields, skipped };
+};
+
+/**
+ * The name fields of a Zoho lead. Last_Name is required, so the email's
+ * local part stands in when the person was not found.
+ */
+export const toCrmNameFields = (
+  email: string,
+  person: PersonProfile | null | undefined,
+) => ({
+  First_Name: person?.firstName ?? undefined,
+  Last_Name: person?.lastName || email.split('@')[0],
+  Designation: person?.title ?? undefined,
+});
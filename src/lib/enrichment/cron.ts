@@ -0,0 +1,204 @@
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+// minute hour day-of-month month day-of-week
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  {
+    min: 1,
+    max: 12,
+    names: [
+      'jan',
+      'feb',
+      'mar',
+      'apr',
+      'may',
+      'jun',
+      'jul',
+      'aug',
+      'sep',
+      'oct',
+      'nov',
+      'dec',
+    ],
+  },
+  // 7 is Sunday as well as 0
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were given, which changes how they combine
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const parseValue = (value: string, field: CronField) => {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number =
+    nameIndex === -1
+      ? /^\d+$/.test(value)
+        ? Number(value)
+        : NaN
+      : nameIndex + field.min;
+
+  if (Number.isNaN(number) || number < field.min || number > field.max) {
+    throw new Error(`"${value}" is not between ${field.min} and ${field.max}`);
+  }
+
+  return number;
+};
+
+/**
+ * Parses one field: "*", "5", "1-5", "*\/15", "1-30/2", "mon-fri" or a comma
+ * separated list of those
+ */
+const parseField = (text: string, field: CronField) => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`"${part}" has an invalid step`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      // "5/10" means every 10th from 5 to the end of the range
+      end =
+        to !== undefined
+          ? parseValue(to, field)
+          : stepText !== undefined
+            ? field.max
+            : start;
+    }
+
+    if (start > end) throw new Error(`"${part}" is an empty range`);
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+/**
+ * Parses a five field cron expression ("0 9 * * mon") or a macro such as
+ * "@daily". Throws with a readable message when the expression is invalid.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const normalized = expression.trim().toLowerCase();
+  const fields = (MACROS[normalized] ?? normalized).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      'Cron expressions need 5 fields: minute hour day-of-month month day-of-week',
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (text, index) => parseField(text, FIELDS[index]),
+  );
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  };
+};
+
+/**
+ * Returns an error message if the expression is not valid cron
+ */
+export const validateCron = (expression: unknown): string | undefined => {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    return 'cron is required';
+  }
+
+  try {
+    parseCron(expression);
+  } catch (err) {
+    return `Invalid cron expression: ${(err as Error).message}`;
+  }
+};
+
+// Like cron, a day matches either day field when both are restricted
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+};
+
+// Enough to cover leap days, the rarest date an expression can ask for
+const MAX_YEARS_AHEAD = 8;
+
+/**
+ * The first time after `after` that the expression matches, in the server's
+ * local time, or null if it never does (e.g. "0 0 30 2 *")
+ */
+export const getNextCronRun = (
+  expression: string,
+  after: Date = new Date(),
+): Date | null => {
+  const schedule = parseCron(expression);
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_YEARS_AHEAD);
+
+  // Skip whole months, days and hours that can't match
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,86 @@
+import publicSuffixRules from './publicSuffixList';
+
+export interface ParsedDomain {
+  hostname: string;
+  // e.g. "co.uk" for "mail.acme.co.uk"
+  publicSuffix: string;
+  // The part a company registers, e.g. "acme.co.uk"
+  registrableDomain: string;
+  // e.g. "mail", empty when the hostname is the registrable domain
+  subdomain: string;
+  // The registered label, e.g. "acme"
+  label: string;
+}
+
+const rules = new Set(publicSuffixRules);
+
+/**
+ * Finds the public suffix of a hostname with the Public Suffix List algorithm:
+ * the longest matching rule wins, exception rules ("!www.ck") beat wildcard
+ * rules ("*.ck"), and an unlisted TLD is its own suffix.
+ */
+const getPublicSuffixLength = (labels: string[]) => {
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    const parent = labels.slice(i + 1).join('.');
+
+    if (rules.has(`!${candidate}`)) return labels.length - i - 1;
+    if (rules.has(candidate) || (parent && rules.has(`*.${parent}`))) {
+      return labels.length - i;
+    }
+  }
+
+  return 1;
+};
+
+/**
+ * Splits a hostname into subdomain, registrable domain and public suffix.
+ * Returns null for hostnames that are only a public suffix, like "co.uk".
+ */
+export const parseDomain = (hostname: string): ParsedDomain | null => {
+  const normalized = hostname
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[/:?#].*$/, '')
+    .replace(/\.$/, '');
+  const labels = normalized.split('.').filter(Boolean);
+
+  if (labels.length < 2) return null;
+
+  const suffixLength = getPublicSuffixLength(labels);
+  if (suffixLength >= labels.length) return null;
+
+  const labelIndex = labels.length - suffixLength - 1;
+
+  return {
+    hostname: normalized,
+    publicSuffix: labels.slice(labelIndex + 1).join('.'),
+    registrableDomain: labels.slice(labelIndex).join('.'),
+    subdomain: labels.slice(0, labelIndex).join('.'),
+    label: labels[labelIndex],
+  };
+};
+
+/**
+ * Parses the domain of an email address, e.g. "bob@mail.acme.co.uk"
+ */
+export const parseEmailDomain = (email: string) =>
+  parseDomain(email.split('@').pop() ?? '');
+
+/**
+ * A readable company name guessed from the domain alone, e.g. "acme-corp.com"
+ * becomes "Acme Corp" and "tcs.co.in" becomes "TCS". Only a fallback for when
+ * the site doesn't name itself.
+ */
+export const guessCompanyName = (domain: ParsedDomain) =>
+  domain.label
+    .split(/[-_]/)
+    .filter(Boolean)
+    // Short labels are nearly always initials
+    .map((word) =>
+      word.length <= 3
+        ? word.toUpperCase()
+        : word.charAt(0).toUpperCase() + word.slice(1),
+    )
+    .join(' ');
@@ -0,0 +1,91 @@
+import { getEmailFilter } from '@/lib/config';
+import disposableDomains from './emailLists/disposable';
+import freeMailDomains from './emailLists/freeMail';
+import ispDomains from './emailLists/isp';
+import roleAccounts from './emailLists/roleAccounts';
+
+export type EmailCategory =
+  | 'business'
+  | 'free_mail'
+  | 'disposable'
+  | 'isp'
+  | 'role';
+
+export interface EmailClassification {
+  category: EmailCategory;
+  // Whether company enrichment should be skipped for this email
+  skip: boolean;
+  reason?: string;
+}
+
+const REASONS: Record<Exclude<EmailCategory, 'business'>, string> = {
+  free_mail: 'is a free email provider, not a company domain',
+  disposable: 'is a disposable email domain',
+  isp: 'is an internet provider mailbox, not a company domain',
+  role: 'is a shared role account, not a person',
+};
+
+const normalize = (values: string[] = []) =>
+  values.map((value) => value.trim().toLowerCase()).filter(Boolean);
+
+// True for the domain itself and any of its subdomains
+const matchesDomain = (domain: string, list: Set<string>) => {
+  const labels = domain.split('.');
+  return labels.some((_, i) => list.has(labels.slice(i).join('.')));
+};
+
+/**
+ * Flags emails whose domain or local part does not identify a company lead:
+ * free-mail, disposable and ISP domains, and role accounts like info@ or
+ * sales@. Lists are bundled in ./emailLists and extended in config.toml.
+ */
+export const classifyEmail = (email: string): EmailClassification => {
+  const filter = getEmailFilter();
+  const [localPart, domain = ''] = email.trim().toLowerCase().split('@');
+
+  if (matchesDomain(domain, new Set(normalize(filter.ALLOWED_DOMAINS)))) {
+    return { category: 'business', skip: false };
+  }
+
+  const lists: [Exclude<EmailCategory, 'business' | 'role'>, string[]][] = [
+    [
+      'disposable',
+      [...disposableDomains, ...normalize(filter.EXTRA_DISPOSABLE_DOMAINS)],
+    ],
+    [
+      'free_mail',
+      [...freeMailDomains, ...normalize(filter.EXTRA_FREE_MAIL_DOMAINS)],
+    ],
+    ['isp', [...ispDomains, ...normalize(filter.EXTRA_ISP_DOMAINS)]],
+  ];
+
+  const match = lists.find(([, domains]) =>
+    matchesDomain(domain, new Set(domains)),
+  );
+
+  // "sales+leads@" and "sales.team@" are still the sales inbox
+  const baseLocalPart = localPart.split(/[+.]/)[0];
+  const category: EmailCategory = match
+    ? match[0]
+    : [...roleAccounts, ...normalize(filter.EXTRA_ROLE_ACCOUNTS)].includes(
+          baseLocalPart,
+        )
+      ? 'role'
+      : 'business';
+
+  if (category === 'business') return { category, skip: false };
+
+  const action =
+    {
+      free_mail: filter.FREE_MAIL,
+      disposable: filter.DISPOSABLE,
+      isp: filter.ISP,
+      role: filter.ROLE,
+    }[category] ?? (category === 'role' ? 'enrich' : 'skip');
+
+  return {
+    category,
+    skip: action === 'skip',
+    reason: `${category === 'role' ? email : domain} ${REASONS[category]}`,
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * Free webmail providers. Anyone can sign up, so the domain says nothing about
+ * the sender's company.
+ */
+const freeMailDomains = [
+  'aim.com',
+  'aol.com',
+  'att.net',
+  'bellsouth.net',
+  'btinternet.com',
+  'fastmail.com',
+  'fastmail.fm',
+  'gmail.com',
+  'gmx.com',
+  'gmx.de',
+  'gmx.net',
+  'googlemail.com',
+  'hey.com',
+  'hotmail.co.uk',
+  'hotmail.com',
+  'hotmail.de',
+  'hotmail.fr',
+  'hotmail.it',
+  'hushmail.com',
+  'icloud.com',
+  'inbox.com',
+  'lycos.com',
+  'mac.com',
+  'mail.com',
+  'mail.ru',
+  'me.com',
+  'msn.com',
+  'naver.com',
+  'outlook.com',
+  'outlook.in',
+  'pm.me',
+  'proton.me',
+  'protonmail.ch',
+  'protonmail.com',
+  'qq.com',
+  'rediffmail.com',
+  'rocketmail.com',
+  'sina.com',
+  'tutanota.com',
+  'tuta.io',
+  'web.de',
+  'yahoo.co.in',
+  'yahoo.co.jp',
+  'yahoo.co.uk',
+  'yahoo.com',
+  'yahoo.de',
+  'yahoo.fr',
+  'yahoo.in',
+  'yandex.com',
+  'yandex.ru',
+  'ymail.com',
+  'zoho.com',
+  'zohomail.com',
+  'zohomail.in',
+  '126.com',
+  '163.com',
+];
+
+export default freeMailDomains;
@@ -0,0 +1,42 @@
+/**
+ * Mailboxes that internet and mobile providers hand out to their subscribers.
+ * Subdomains match too, so "mail.comcast.net" is covered by "comcast.net".
+ */
+const ispDomains = [
+  'airtelmail.in',
+  'bigpond.com',
+  'bigpond.net.au',
+  'blueyonder.co.uk',
+  'centurylink.net',
+  'charter.net',
+  'comcast.net',
+  'cox.net',
+  'earthlink.net',
+  'frontier.com',
+  'frontiernet.net',
+  'free.fr',
+  'juno.com',
+  'laposte.net',
+  'netzero.net',
+  'ntlworld.com',
+  'optonline.net',
+  'optusnet.com.au',
+  'orange.fr',
+  'rogers.com',
+  'sbcglobal.net',
+  'shaw.ca',
+  'sky.com',
+  'spectrum.net',
+  'sympatico.ca',
+  't-online.de',
+  'talktalk.net',
+  'telus.net',
+  'verizon.net',
+  'virginmedia.com',
+  'vsnl.com',
+  'vsnl.net',
+  'wanadoo.fr',
+  'windstream.net',
+];
+
+export default ispDomains;
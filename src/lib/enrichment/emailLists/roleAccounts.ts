@@ -0,0 +1,31 @@
+/**
+ * Local parts of shared team inboxes. The company is real, but there is no
+ * person behind the address to qualify.
+ */
+const roleAccounts = [
+  'accounts',
+  'admin',
+  'billing',
+  'careers',
+  'contact',
+  'enquiries',
+  'enquiry',
+  'hello',
+  'help',
+  'hr',
+  'info',
+  'inquiries',
+  'jobs',
+  'marketing',
+  'media',
+  'no-reply',
+  'noreply',
+  'office',
+  'press',
+  'sales',
+  'support',
+  'team',
+  'webmaster',
+];
+
+export default roleAccounts;
@@ -0,0 +1,200 @@
+import { escapeRegExp, findMoneyAmounts, isMoney, isSameMoney } from './money';
+import type { StructuredAnswer, StructuredValue } from './structuredAnswers';
+
+/**
+ * found: stated and backed by the sources
+ * inferred: hedged, estimated or not backed by any source
+ * conflicting: the answer reports values that disagree
+ * not_found: the answer does not state it
+ */
+export type FieldStatus = 'found' | 'inferred' | 'conflicting' | 'not_found';
+
+export const FIELD_STATUSES: FieldStatus[] = [
+  'found',
+  'inferred',
+  'conflicting',
+  'not_found',
+];
+
+export interface FieldConfidence {
+  status: FieldStatus;
+  // 0-1
+  confidence: number;
+  // Sources whose snippet states the same value
+  agreeingSources: number;
+}
+
+export type StructuredDataConfidence = Record<string, FieldConfidence>;
+
+// "I could not find revenue data", "not publicly disclosed"
+const NOT_FOUND_PATTERN =
+  /\b((could|can|did|does|was|were)\s*(not|n't)|unable to)\s+(find|locate|determine|confirm|identify|be found|be determined)|\bno\s+(reliable\s+|public\s+|publicly available\s+|specific\s+)?(information|data|details|records?|mention)\b|\bnot\s+(publicly\s+)?(available|disclosed|reported|found|listed|known)\b/i;
+
+// "an estimated $5M", "likely around 200 employees"
+const INFERRED_PATTERN =
+  /\b(estimated?|estimates? suggest|approximately|approx\.|roughly|likely|probably|possibly|may be|might be|reportedly|believed to|appears? to|seems? to|suggests?)\b/i;
+
+// "sources vary", "conflicting reports"
+const CONFLICTING_PATTERN =
+  /\b(conflicting|inconsistent|contradictory|discrepanc(y|ies)|sources (vary|differ|disagree)|estimates (vary|range|differ)|other sources (say|report|state))\b/i;
+
+// Citation markers like [1] or [2][3] the answer refers to its sources with
+const countCitations = (answer: string, sourceCount: number) =>
+  new Set(
+    Array.from(answer.matchAll(/\[(\d+)\]/g))
+      .map((match) => Number(match[1]))
+      .filter((index) => index >= 1 && index <= sourceCount),
+  ).size;
+
+/**
+ * Whether a source snippet states the value
+ */
+const mentionsValue = (
+  text: string,
+  value: StructuredValue,
+  fxRates: Record<string, number>,
+): boolean => {
+  if (typeof value === 'boolean') return false;
+
+  if (typeof value === 'number') {
+    return new RegExp(
+      `(^|[^\\d.])${escapeRegExp(String(value))}(?![\\d])`,
+    ).test(text.replace(/(\d),(?=\d{3})/g, '$1'));
+  }
+
+  if (Array.isArray(value)) {
+    return value.some((item) => mentionsValue(text, item, fxRates));
+  }
+
+  if (isMoney(value)) {
+    return findMoneyAmounts(text, fxRates).some((money) =>
+      isSameMoney(money, value),
+    );
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return false;
+
+  // URLs are quoted in many forms, the host is what identifies them
+  if (/^https?:\/\//.test(normalized)) {
+    try {
+      const host = new URL(normalized).hostname.replace(/^www\./, '');
+      return text.toLowerCase().includes(host);
+    } catch {
+      return false;
+    }
+  }
+
+  return text.toLowerCase().includes(normalized);
+};
+
+const round = (value: number) =>
+  Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+/**
+ * Rates one extracted value from how the answer words it and how many of its
+ * sources state the same value. Computed in code, not asked of the model.
+ */
+export const assessStructuredValue = (
+  value: StructuredValue | null,
+  answer: string,
+  sources: { snippet: string }[],
+  fxRates: Record<string, number> = {},
+  // Set when reconciling the sources found no clear winner
+  conflicting = false,
+): FieldConfidence => {
+  if (value === null) {
+    return { status: 'not_found', confidence: 0, agreeingSources: 0 };
+  }
+
+  const citations = Math.min(countCitations(answer, sources.length), 2);
+  const agreeingSources = sources.filter((source) =>
+    mentionsValue(source.snippet, value, fxRates),
+  ).length;
+  const agreement = Math.min(agreeingSources, 2);
+  const backed = citations > 0 || agreeingSources > 0;
+
+  if (conflicting || CONFLICTING_PATTERN.test(answer)) {
+    return {
+      status: 'conflicting',
+      confidence: round(0.2 + 0.1 * agreement),
+      agreeingSources,
+    };
+  }
+
+  const notFound = NOT_FOUND_PATTERN.test(answer);
+
+  // The model extracted a value from an answer that says there is none
+  if (notFound && !backed) {
+    return { status: 'not_found', confidence: 0, agreeingSources };
+  }
+
+  if (notFound || !backed || INFERRED_PATTERN.test(answer)) {
+    return {
+      status: 'inferred',
+      confidence: round(0.3 + 0.05 * citations + 0.1 * agreement),
+      agreeingSources,
+    };
+  }
+
+  return {
+    status: 'found',
+    confidence: round(0.6 + 0.1 * citations + 0.1 * agreement),
+    agreeingSources,
+  };
+};
+
+/**
+ * Rates every value extracted from one answer
+ */
+export const assessStructuredAnswer = (
+  structured: StructuredAnswer,
+  answer: string,
+  sources: { snippet: string }[],
+  fxRates: Record<string, number> = {},
+  conflictingKeys: string[] = [],
+): StructuredDataConfidence =>
+  Object.fromEntries(
+    Object.entries(structured).map(([key, value]) => [
+      key,
+      assessStructuredValue(
+        value,
+        answer,
+        sources,
+        fxRates,
+        conflictingKeys.includes(key),
+      ),
+    ]),
+  );
+
+/**
+ * Whether a value is confident enough to show or sync. Values saved before
+ * confidence was tracked have no entry and are kept.
+ */
+export const isConfidentValue = (
+  confidence: FieldConfidence | undefined,
+  minConfidence: number,
+) =>
+  !confidence ||
+  (confidence.status !== 'not_found' && confidence.confidence >= minConfidence);
+
+/**
+ * Drops the values below the confidence threshold
+ */
+export const filterConfidentValues = (
+  structuredData: StructuredAnswer,
+  confidence: StructuredDataConfidence | null | undefined,
+  minConfidence: number,
+): StructuredAnswer =>
+  Object.fromEntries(
+    Object.entries(structuredData).filter(
+      ([key, value]) =>
+        value !== null && isConfidentValue(confidence?.[key], minConfidence),
+    ),
+  );
+
+/**
+ * Renders a rating as e.g. "inferred, 45%"
+ */
+export const formatFieldConfidence = (confidence: FieldConfidence) =>
+  `${confidence.status.replace('_', ' ')}, ${Math.round(confidence.confidence * 100)}%`;
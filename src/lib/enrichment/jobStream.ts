@@ -0,0 +1,91 @@
+import {
+  EnrichmentJobEvent,
+  enrichmentJobEvents,
+  getEnrichmentJob,
+} from './jobs';
+import { getJobUsage } from './usage';
+
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Streams a job's progress as Server-Sent Events. The first event is a
+ * `job_status` snapshot so clients that connect late still see earlier
+ * progress; the stream closes after `job_completed`.
+ */
+export const createJobEventStream = (jobId: string) => {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  // Set when the job ends or the client disconnects; nothing is sent after
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        closed = true;
+        controller.close();
+      };
+
+      const listener = (event: EnrichmentJobEvent) => {
+        send(event.type, event);
+        if (event.type === 'job_completed') close();
+      };
+
+      const keepAlive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, KEEP_ALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        enrichmentJobEvents.off(jobId, listener);
+      };
+
+      // Listening before the snapshot is read, so no event falls between them
+      enrichmentJobEvents.on(jobId, listener);
+
+      try {
+        const job = await getEnrichmentJob(jobId);
+
+        if (!job) {
+          send('error', { message: 'Job not found' });
+          close();
+          return;
+        }
+
+        send('job_status', job);
+
+        if (job.status === 'completed' || job.status === 'failed') {
+          send('job_completed', {
+            type: 'job_completed',
+            status: job.status,
+            errors: job.errors,
+            usage: await getJobUsage(jobId),
+          });
+          close();
+        }
+      } catch (err) {
+        console.error(`Error in streaming job ${jobId}: `, err);
+        send('error', { message: 'An error has occurred.' });
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+};
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
@@ -0,0 +1,361 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import db from '@/lib/db';
+import { enrichmentJobItems, enrichmentJobs } from '@/lib/db/schema';
+import {
+  enrichLeads,
+  EnrichmentEvent,
+  LeadEnrichmentParams,
+  LeadEnrichmentResult,
+  LeadRescoreResult,
+  rescoreLeads,
+} from '@/lib/runEnrichment';
+import { getSavedLeadEmails } from './leadHistory';
+import { getJobUsage } from './usage';
+
+export type EnrichmentJobParams = Omit<LeadEnrichmentParams, 'onEvent'> & {
+  // Only score the saved leads again with the active rubric, see rescoreLeads
+  rescore?: boolean;
+  // With rescore, enrich the leads never enriched, such as imported ones,
+  // instead of failing them as not found
+  enrichUnsaved?: boolean;
+};
+
+export type EnrichmentJobItemStatus =
+  'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export type EnrichmentJobEvent =
+  | EnrichmentEvent
+  | {
+      type: 'job_completed';
+      status: 'completed' | 'failed';
+      errors: string[];
+      // Tokens and cost of the job's LLM calls
+      usage: Awaited<ReturnType<typeof getJobUsage>>;
+    };
+
+type WorkerState = {
+  started: boolean;
+  busy: boolean;
+  timer?: NodeJS.Timeout;
+};
+
+// Kept on globalThis so hot reloads in development don't start a second
+// worker, and so route handlers share the emitter the worker publishes to
+const globalForJobs = globalThis as unknown as {
+  enrichmentWorker?: WorkerState;
+  enrichmentJobEvents?: EventEmitter;
+};
+
+const workerState: WorkerState = (globalForJobs.enrichmentWorker ??= {
+  started: false,
+  busy: false,
+});
+
+/**
+ * Live progress of running jobs, emitted under the job ID
+ */
+export const enrichmentJobEvents = (globalForJobs.enrichmentJobEvents ??=
+  new EventEmitter().setMaxListeners(0));
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Persists a new enrichment job with one pending item per email
+ */
+export const createEnrichmentJob = async (params: EnrichmentJobParams) => {
+  const id = crypto.randomBytes(12).toString('hex');
+
+  await db
+    .insert(enrichmentJobs)
+    .values({
+      id,
+      status: 'queued',
+      params,
+      createdAt: new Date().toISOString(),
+    })
+    .execute();
+
+  await db
+    .insert(enrichmentJobItems)
+    .values(
+      params.emails.map((email) => ({
+        jobId: id,
+        email,
+        status: 'pending' as const,
+      })),
+    )
+    .execute();
+
+  ensureEnrichmentWorker();
+
+  return id;
+};
+
+/**
+ * Returns a job with its per-email progress, or undefined if it does not exist
+ */
+export const getEnrichmentJob = async (id: string) => {
+  const job = await db.query.enrichmentJobs.findFirst({
+    where: eq(enrichmentJobs.id, id),
+  });
+
+  if (!job) return undefined;
+
+  const items = await db.query.enrichmentJobItems.findMany({
+    where: eq(enrichmentJobItems.jobId, id),
+    orderBy: asc(enrichmentJobItems.id),
+  });
+
+  const count = (status: EnrichmentJobItemStatus) =>
+    items.filter((item) => item.status === status).length;
+
+  return {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    errors: job.errors ?? [],
+    progress: {
+      total: items.length,
+      pending: count('pending'),
+      running: count('running'),
+      completed: count('completed'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+    },
+    items: items.map((item) => ({
+      email: item.email,
+      status: item.status,
+      error: item.error ?? undefined,
+      startedAt: item.startedAt,
+      completedAt: item.completedAt,
+    })),
+    results: items
+      .filter((item) => item.result)
+      .map((item) => item.result as LeadEnrichmentResult | LeadRescoreResult),
+  };
+};
+
+const updateJobItem = async (
+  jobId: string,
+  email: string,
+  values: Partial<typeof enrichmentJobItems.$inferInsert>,
+) => {
+  await db
+    .update(enrichmentJobItems)
+    .set(values)
+    .where(
+      and(
+        eq(enrichmentJobItems.jobId, jobId),
+        eq(enrichmentJobItems.email, email),
+      ),
+    )
+    .execute();
+};
+
+const handleJobEvent = async (jobId: string, event: EnrichmentEvent) => {
+  const now = new Date().toISOString();
+
+  if (event.type === 'lead_started') {
+    await updateJobItem(jobId, event.email, {
+      status: 'running',
+      startedAt: now,
+    });
+  } else if (event.type === 'lead_finished' || event.type === 'lead_rescored') {
+    await updateJobItem(jobId, event.email, {
+      status: 'completed',
+      result: event.result,
+      completedAt: now,
+    });
+  } else if (event.type === 'lead_skipped') {
+    await updateJobItem(jobId, event.email, {
+      status: 'skipped',
+      result: event.result,
+      error: event.reason,
+      completedAt: now,
+    });
+  } else if (event.type === 'lead_failed') {
+    await updateJobItem(jobId, event.email, {
+      status: 'failed',
+      result: event.result,
+      error: event.error,
+      completedAt: now,
+    });
+  }
+
+  enrichmentJobEvents.emit(jobId, event);
+};
+
+const completeJob = async (
+  jobId: string,
+  status: 'completed' | 'failed',
+  errors: string[],
+) => {
+  await db
+    .update(enrichmentJobs)
+    .set({
+      status,
+      errors,
+      completedAt: new Date().toISOString(),
+    })
+    .where(eq(enrichmentJobs.id, jobId))
+    .execute();
+
+  enrichmentJobEvents.emit(jobId, {
+    type: 'job_completed',
+    status,
+    errors,
+    usage: await getJobUsage(jobId),
+  });
+};
+
+/**
+ * Runs every unfinished item of a job. Items left "running" by a crashed
+ * process are picked up again, so a restarted server resumes where it stopped.
+ */
+const runEnrichmentJob = async (jobId: string) => {
+  const job = await db.query.enrichmentJobs.findFirst({
+    where: eq(enrichmentJobs.id, jobId),
+  });
+
+  if (!job) return;
+
+  const pendingItems = await db.query.enrichmentJobItems.findMany({
+    where: and(
+      eq(enrichmentJobItems.jobId, jobId),
+      inArray(enrichmentJobItems.status, ['pending', 'running']),
+    ),
+    orderBy: asc(enrichmentJobItems.id),
+  });
+
+  await db
+    .update(enrichmentJobs)
+    .set({
+      status: 'running',
+      startedAt: job.startedAt ?? new Date().toISOString(),
+    })
+    .where(eq(enrichmentJobs.id, jobId))
+    .execute();
+
+  const { rescore, enrichUnsaved, ...params } =
+    job.params as EnrichmentJobParams;
+  const errors = [...(job.errors ?? [])];
+
+  const emails = pendingItems.map((item) => item.email);
+  const onEvent = (event: EnrichmentEvent) => handleJobEvent(jobId, event);
+
+  // Without enrichUnsaved, rescoreLeads fails the leads that aren't saved
+  const saved =
+    rescore && enrichUnsaved && emails.length > 0
+      ? await getSavedLeadEmails(emails)
+      : undefined;
+  const toRescore = !rescore
+    ? []
+    : saved
+      ? emails.filter((email) => saved.has(email))
+      : emails;
+  const toEnrich = !rescore
+    ? emails
+    : saved
+      ? emails.filter((email) => !saved.has(email))
+      : [];
+
+  if (toRescore.length > 0) {
+    try {
+      await rescoreLeads(toRescore, { jobId, userId: params.userId, onEvent });
+    } catch (err) {
+      errors.push(String(err));
+    }
+  }
+
+  if (toEnrich.length > 0) {
+    const response = await enrichLeads({
+      ...params,
+      emails: toEnrich,
+      jobId,
+      onEvent,
+    });
+
+    errors.push(...response.errors);
+  }
+
+  const remaining = await db.query.enrichmentJobItems.findMany({
+    where: and(
+      eq(enrichmentJobItems.jobId, jobId),
+      inArray(enrichmentJobItems.status, ['pending', 'running']),
+    ),
+  });
+
+  // Anything still unfinished never reached a lead (e.g. no models configured)
+  for (const item of remaining) {
+    await updateJobItem(jobId, item.email, {
+      status: 'failed',
+      error: errors[0] ?? 'Enrichment did not run',
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  const completedItems = await db.query.enrichmentJobItems.findMany({
+    where: and(
+      eq(enrichmentJobItems.jobId, jobId),
+      eq(enrichmentJobItems.status, 'completed'),
+    ),
+  });
+
+  await completeJob(
+    jobId,
+    completedItems.length === 0 && errors.length > 0 ? 'failed' : 'completed',
+    errors,
+  );
+};
+
+const runPendingJobs = async () => {
+  if (workerState.busy) return;
+  workerState.busy = true;
+
+  try {
+    while (true) {
+      const next = await db.query.enrichmentJobs.findFirst({
+        where: inArray(enrichmentJobs.status, ['queued', 'running']),
+        orderBy: asc(enrichmentJobs.createdAt),
+      });
+
+      if (!next) break;
+
+      try {
+        await runEnrichmentJob(next.id);
+      } catch (err) {
+        console.error(`Error running enrichment job ${next.id}:`, err);
+        await completeJob(next.id, 'failed', [
+          ...(next.errors ?? []),
+          String(err),
+        ]);
+      }
+    }
+  } finally {
+    workerState.busy = false;
+  }
+};
+
+const tick = () => {
+  runPendingJobs().catch((err) =>
+    console.error('Error in lead enrichment worker:', err),
+  );
+};
+
+/**
+ * Starts the in-process job worker once and wakes it up. Queued jobs and jobs
+ * interrupted by a restart are resumed on the first tick.
+ */
+export const ensureEnrichmentWorker = () => {
+  if (!workerState.started) {
+    workerState.started = true;
+    workerState.timer = setInterval(tick, POLL_INTERVAL_MS);
+    console.log('Lead enrichment worker started');
+  }
+
+  tick();
+};
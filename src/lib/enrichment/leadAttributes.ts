@@ -0,0 +1,116 @@
+import { and, asc, eq, gte, inArray, notExists, sql } from 'drizzle-orm';
+import db from '@/lib/db';
+import { leadAttributes, leads } from '@/lib/db/schema';
+import type { LeadAttributes } from './leadImport';
+
+// Rows per insert, well below SQLite's limit on bound parameters
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * The imported attributes of these leads, by email. Leads never imported are
+ * left out.
+ */
+export const getLeadAttributes = async (emails: string[]) => {
+  const rows =
+    emails.length > 0
+      ? await db
+          .select()
+          .from(leadAttributes)
+          .where(
+            inArray(
+              leadAttributes.email,
+              emails.map((email) => email.trim().toLowerCase()),
+            ),
+          )
+      : [];
+
+  return new Map(
+    rows.map((row): [string, LeadAttributes] => [
+      row.email,
+      {
+        firstName: row.firstName ?? undefined,
+        lastName: row.lastName ?? undefined,
+        company: row.company ?? undefined,
+        phone: row.phone ?? undefined,
+        custom: row.custom ?? {},
+      },
+    ]),
+  );
+};
+
+/**
+ * Emails of the leads imported from a file but never enriched, oldest first.
+ * With `importedWithinHours`, only those first imported within that window.
+ */
+export const findUnenrichedLeadEmails = async (
+  importedWithinHours?: number | null,
+) => {
+  const importedAfter =
+    typeof importedWithinHours === 'number'
+      ? new Date(Date.now() - importedWithinHours * 60 * 60 * 1000)
+      : null;
+
+  const rows = await db
+    .select({ email: leadAttributes.email })
+    .from(leadAttributes)
+    .where(
+      and(
+        notExists(
+          db
+            .select({ id: leads.id })
+            .from(leads)
+            .where(eq(leads.email, leadAttributes.email)),
+        ),
+        importedAfter
+          ? gte(leadAttributes.importedAt, importedAfter.toISOString())
+          : undefined,
+      ),
+    )
+    .orderBy(asc(leadAttributes.id));
+
+  return rows.map((row) => row.email);
+};
+
+/**
+ * Stores what a file says about each lead. Importing a lead again keeps the
+ * values the new file leaves empty and adds its custom attributes to the
+ * earlier ones.
+ */
+export const saveLeadAttributes = (
+  rows: { email: string; attributes: LeadAttributes }[],
+  source: string,
+) => {
+  const now = new Date().toISOString();
+
+  db.transaction((tx) => {
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      tx.insert(leadAttributes)
+        .values(
+          rows.slice(i, i + INSERT_BATCH_SIZE).map(({ email, attributes }) => ({
+            email: email.trim().toLowerCase(),
+            firstName: attributes.firstName ?? null,
+            lastName: attributes.lastName ?? null,
+            company: attributes.company ?? null,
+            phone: attributes.phone ?? null,
+            custom: attributes.custom,
+            source,
+            importedAt: now,
+            updatedAt: now,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: leadAttributes.email,
+          set: {
+            firstName: sql`coalesce(excluded.firstName, ${leadAttributes.firstName})`,
+            lastName: sql`coalesce(excluded.lastName, ${leadAttributes.lastName})`,
+            company: sql`coalesce(excluded.company, ${leadAttributes.company})`,
+            phone: sql`coalesce(excluded.phone, ${leadAttributes.phone})`,
+            custom: sql`json_patch(coalesce(${leadAttributes.custom}, '{}'), excluded.custom)`,
+            source,
+            updatedAt: now,
+          },
+        })
+        .run();
+    }
+  });
+};
@@ -0,0 +1,81 @@
+import { formatChangeValue } from './leadVersions';
+import type { LeadListItem } from './leadQuery';
+import { formatPerson } from './person';
+
+const escapeCsv = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Renders leads as CSV, one row per lead. Typed answers, questions and
+ * imported custom attributes become columns of their own, in the order they
+ * first appear.
+ */
+export const formatLeadsCsv = (leads: LeadListItem[]) => {
+  const fields = Array.from(
+    new Set(leads.flatMap((lead) => Object.keys(lead.structuredData ?? {}))),
+  );
+  const questions = Array.from(
+    new Set(leads.flatMap((lead) => lead.results.map((item) => item.question))),
+  );
+  const customAttributes = Array.from(
+    new Set(
+      leads.flatMap((lead) => Object.keys(lead.attributes?.custom ?? {})),
+    ),
+  );
+
+  const header = [
+    'Email',
+    'Company',
+    'Domain',
+    'Contact',
+    'Status',
+    'Score',
+    'Version',
+    'Created At',
+    'Enriched At',
+    'Imported First Name',
+    'Imported Last Name',
+    'Imported Company',
+    'Imported Phone',
+    ...fields,
+    ...questions,
+    ...customAttributes,
+  ];
+
+  const rows = leads.map((lead) => [
+    lead.email,
+    lead.company,
+    lead.domain,
+    lead.person ? formatPerson(lead.person) : '',
+    lead.status,
+    lead.score ?? '',
+    lead.version,
+    lead.createdAt,
+    lead.enrichedAt,
+    lead.attributes?.firstName,
+    lead.attributes?.lastName,
+    lead.attributes?.company,
+    lead.attributes?.phone,
+    ...fields.map((field) => {
+      const value = lead.structuredData?.[field];
+      return value === null || value === undefined
+        ? ''
+        : formatChangeValue(value);
+    }),
+    ...questions.map(
+      (question) =>
+        lead.results.find(
+          (item) => item.question === question && item.status !== 'failed',
+        )?.answer ?? '',
+    ),
+    ...customAttributes.map(
+      (attribute) => lead.attributes?.custom[attribute] ?? '',
+    ),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsv).join(','))
+    .join('\r\n');
+};
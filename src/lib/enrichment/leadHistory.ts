@@ -0,0 +1,773 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  exists,
+  gt,
+  gte,
+  inArray,
+  lt,
+  lte,
+  max,
+  not,
+  or,
+  sql,
+  SQL,
+  SQLWrapper,
+} from 'drizzle-orm';
+import type { BaseSQLiteDatabase } from 'drizzle-orm/sqlite-core';
+import type { RunResult } from 'better-sqlite3';
+import db from '@/lib/db';
+import * as schema from '@/lib/db/schema';
+import {
+  companies,
+  enrichmentAnswers,
+  enrichmentRuns,
+  leadAttributes,
+  leads,
+  scores,
+} from '@/lib/db/schema';
+import type { LeadEnrichmentResult, SourceCitation } from '@/lib/runEnrichment';
+import { parseEmailDomain } from './domain';
+import type { StructuredDataConfidence } from './fieldConfidence';
+import { getLeadAttributes } from './leadAttributes';
+import {
+  formatLeadSort,
+  LeadListItem,
+  LeadPage,
+  LeadQuery,
+  LeadSort,
+  LeadSortKey,
+} from './leadQuery';
+import {
+  diffLeadVersions,
+  LeadFieldChange,
+  LeadVersion,
+  toLeadSaveRequest,
+} from './leadVersions';
+import type { PersonProfile } from './person';
+import type { QuestionError } from './retry';
+import {
+  carryOverrides,
+  overrideField,
+  StructuredDataReconciliation,
+} from './reconciliation';
+import { formatScoreBreakdown, ScoreBreakdown } from './rubric';
+import type { StructuredAnswer } from './structuredAnswers';
+
+export type LeadVersionInput = Omit<
+  LeadVersion,
+  'version' | 'changes' | 'createdAt'
+> & {
+  // Registrable domain of the company, taken from the email when omitted
+  companyDomain?: string;
+  // The enrichment job that produced the run
+  jobId?: string;
+};
+
+const runColumns = {
+  id: enrichmentRuns.id,
+  email: leads.email,
+  leadCreatedAt: leads.createdAt,
+  company: companies.name,
+  companyDomain: companies.domain,
+  chatId: enrichmentRuns.chatId,
+  version: enrichmentRuns.version,
+  structuredData: enrichmentRuns.structuredData,
+  structuredDataConfidence: enrichmentRuns.structuredDataConfidence,
+  structuredDataReconciliation: enrichmentRuns.structuredDataReconciliation,
+  person: enrichmentRuns.person,
+  structuredFields: enrichmentRuns.structuredFields,
+  changes: enrichmentRuns.changes,
+  createdAt: enrichmentRuns.createdAt,
+  score: scores.score,
+  scoreBreakdown: scores.breakdown,
+  reason: scores.reason,
+  scoredAt: scores.scoredAt,
+};
+
+// The database, or a transaction on it
+type LeadStore = BaseSQLiteDatabase<'sync', RunResult, typeof schema>;
+
+/**
+ * Reads runs with their answers and scores, oldest first per lead, along with
+ * the run ID, the company's domain and when the lead was first saved
+ */
+const selectLeadRuns = (store: LeadStore, where?: SQL) => {
+  const runs = store
+    .select(runColumns)
+    .from(enrichmentRuns)
+    .innerJoin(leads, eq(leads.id, enrichmentRuns.leadId))
+    .innerJoin(companies, eq(companies.id, leads.companyId))
+    .leftJoin(scores, eq(scores.runId, enrichmentRuns.id))
+    .where(where)
+    .orderBy(asc(leads.email), asc(enrichmentRuns.version))
+    .all();
+
+  if (runs.length === 0) return [];
+
+  const answers = store
+    .select()
+    .from(enrichmentAnswers)
+    .where(
+      inArray(
+        enrichmentAnswers.runId,
+        runs.map((run) => run.id),
+      ),
+    )
+    .orderBy(asc(enrichmentAnswers.runId), asc(enrichmentAnswers.position))
+    .all();
+
+  const answersByRun = new Map<number, LeadVersion['results']>();
+  for (const answer of answers) {
+    answersByRun.set(answer.runId, [
+      ...(answersByRun.get(answer.runId) ?? []),
+      {
+        questionId: answer.questionId ?? undefined,
+        question: answer.question,
+        answer: answer.answer,
+        status: answer.status,
+        error: (answer.error as QuestionError | null) ?? undefined,
+        sources: (answer.sources as SourceCitation[] | null) ?? [],
+      },
+    ]);
+  }
+
+  return runs.map((run) => ({
+    id: run.id,
+    companyDomain: run.companyDomain,
+    leadCreatedAt: run.leadCreatedAt,
+    version: {
+      email: run.email,
+      domain: run.company,
+      chatId: run.chatId,
+      version: run.version,
+      results: answersByRun.get(run.id) ?? [],
+      structuredData: (run.structuredData as StructuredAnswer | null) ?? null,
+      structuredDataConfidence:
+        (run.structuredDataConfidence as StructuredDataConfidence | null) ??
+        null,
+      structuredDataReconciliation:
+        (run.structuredDataReconciliation as StructuredDataReconciliation) ??
+        null,
+      score: run.score ?? null,
+      scoreBreakdown: (run.scoreBreakdown as ScoreBreakdown | null) ?? null,
+      reason: run.reason ?? '',
+      scoredAt: run.scoredAt ?? null,
+      person: (run.person as PersonProfile | null) ?? null,
+      structuredFields:
+        (run.structuredFields as Record<string, any> | null) ?? null,
+      changes: (run.changes as LeadFieldChange[] | null) ?? [],
+      createdAt: run.createdAt,
+    },
+  }));
+};
+
+const readLeadRuns = async (where?: SQL) => selectLeadRuns(db, where);
+
+const readLeadVersions = async (where?: SQL): Promise<LeadVersion[]> =>
+  (await readLeadRuns(where)).map((run) => run.version);
+
+// The newest run of every lead; runs are inserted in version order
+const latestRunIds = db
+  .select({ id: max(enrichmentRuns.id) })
+  .from(enrichmentRuns)
+  .groupBy(enrichmentRuns.leadId);
+
+/**
+ * Every run of a lead, oldest first
+ */
+export const getLeadHistory = async (email: string) =>
+  readLeadVersions(eq(leads.email, email.trim().toLowerCase()));
+
+/**
+ * The latest run of every lead, with what changed since the run before it
+ */
+export const listLatestLeads = async () =>
+  readLeadVersions(inArray(enrichmentRuns.id, latestRunIds));
+
+const normalizeEmails = (emails: string[]) =>
+  emails.map((email) => email.trim().toLowerCase());
+
+/**
+ * The latest run of each of these leads; emails never saved are left out
+ */
+export const getLatestLeads = async (emails: string[]) =>
+  readLeadVersions(
+    and(
+      inArray(enrichmentRuns.id, latestRunIds),
+      inArray(leads.email, normalizeEmails(emails)),
+    ),
+  );
+
+/**
+ * The email of every saved lead, oldest first
+ */
+export const listSavedLeadEmails = async () => {
+  const rows = await db
+    .select({ email: leads.email })
+    .from(leads)
+    .orderBy(asc(leads.id));
+
+  return rows.map((row) => row.email);
+};
+
+/**
+ * Which of these emails belong to saved leads
+ */
+export const getSavedLeadEmails = async (emails: string[]) => {
+  const rows =
+    emails.length > 0
+      ? await db
+          .select({ email: leads.email })
+          .from(leads)
+          .where(inArray(leads.email, normalizeEmails(emails)))
+      : [];
+
+  return new Set(rows.map((row) => row.email));
+};
+
+/**
+ * Deletes leads with every run, answer, score and imported attribute they
+ * have, returning how many were found. Companies are kept for the other
+ * leads on their domain.
+ */
+export const deleteLeads = async (emails: string[]) => {
+  const leadIds = db
+    .select({ id: leads.id })
+    .from(leads)
+    .where(inArray(leads.email, normalizeEmails(emails)));
+  const runIds = db
+    .select({ id: enrichmentRuns.id })
+    .from(enrichmentRuns)
+    .where(inArray(enrichmentRuns.leadId, leadIds));
+
+  return db.transaction((tx) => {
+    tx.delete(scores).where(inArray(scores.runId, runIds)).run();
+    tx.delete(enrichmentAnswers)
+      .where(inArray(enrichmentAnswers.runId, runIds))
+      .run();
+    tx.delete(enrichmentRuns)
+      .where(inArray(enrichmentRuns.leadId, leadIds))
+      .run();
+    tx.delete(leadAttributes)
+      .where(inArray(leadAttributes.email, normalizeEmails(emails)))
+      .run();
+
+    return tx
+      .delete(leads)
+      .where(inArray(leads.email, normalizeEmails(emails)))
+      .run().changes;
+  });
+};
+
+export interface LeadFilter {
+  // Latest score strictly above this
+  minScore?: number | null;
+  // First saved within this many hours
+  savedWithinHours?: number | null;
+}
+
+/**
+ * The latest run of every lead that matches the filter
+ */
+export const findLeads = async (filter: LeadFilter) => {
+  const savedAfter =
+    typeof filter.savedWithinHours === 'number'
+      ? new Date(Date.now() - filter.savedWithinHours * 60 * 60 * 1000)
+      : null;
+
+  return readLeadVersions(
+    and(
+      inArray(enrichmentRuns.id, latestRunIds),
+      savedAfter ? gte(leads.createdAt, savedAfter.toISOString()) : undefined,
+      typeof filter.minScore === 'number'
+        ? gt(scores.score, filter.minScore)
+        : undefined,
+    ),
+  );
+};
+
+// Never null, so rows can be compared to a cursor. Leads without a score
+// sort below those scored 0.
+const sortColumns: Record<LeadSortKey, SQL> = {
+  score: sql`coalesce(${scores.score}, -1)`,
+  createdAt: sql`${leads.createdAt}`,
+  enrichedAt: sql`${enrichmentRuns.createdAt}`,
+  email: sql`${leads.email}`,
+  domain: sql`${companies.domain}`,
+  company: sql`lower(${companies.name})`,
+};
+
+/**
+ * Where the previous page ended: the sort values and ID of its last lead
+ */
+interface LeadCursor {
+  sort: string;
+  values: (string | number)[];
+  id: number;
+}
+
+const encodeLeadCursor = (cursor: LeadCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Reads a cursor, or returns undefined when it is malformed or was made for
+ * another sort
+ */
+export const decodeLeadCursor = (
+  cursor: string,
+  sort: LeadSort[],
+): LeadCursor | undefined => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      decoded?.sort === formatLeadSort(sort) &&
+      Array.isArray(decoded.values) &&
+      decoded.values.length === sort.length &&
+      Number.isInteger(decoded.id)
+    ) {
+      return decoded;
+    }
+  } catch {}
+};
+
+const escapeLike = (text: string) =>
+  text.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// SQLite's LIKE ignores ASCII case
+const contains = (value: SQLWrapper, text: string) =>
+  sql`${value} like ${`%${escapeLike(text)}%`} escape '\\'`;
+
+const answersOfRun = (where?: SQL) =>
+  db
+    .select({ one: sql`1` })
+    .from(enrichmentAnswers)
+    .where(and(eq(enrichmentAnswers.runId, enrichmentRuns.id), where));
+
+const hasFailedAnswers = exists(
+  answersOfRun(eq(enrichmentAnswers.status, 'failed')),
+);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date without a time includes the whole day
+const createdBefore = (value: string) =>
+  DATE_ONLY.test(value)
+    ? lt(
+        leads.createdAt,
+        new Date(Date.parse(value) + 24 * 60 * 60 * 1000).toISOString(),
+      )
+    : lte(leads.createdAt, new Date(value).toISOString());
+
+const getLeadQueryFilters = (query: LeadQuery) =>
+  and(
+    inArray(enrichmentRuns.id, latestRunIds),
+    query.minScore !== undefined
+      ? gte(scores.score, query.minScore)
+      : undefined,
+    query.maxScore !== undefined
+      ? lte(scores.score, query.maxScore)
+      : undefined,
+    query.domain ? eq(companies.domain, query.domain) : undefined,
+    query.industry
+      ? contains(
+          sql`json_extract(${enrichmentRuns.structuredData}, '$.industry')`,
+          query.industry,
+        )
+      : undefined,
+    // Question sets may ask for the country, else the CRM field has it
+    query.country
+      ? contains(
+          sql`coalesce(
+            json_extract(${enrichmentRuns.structuredData}, '$.country'),
+            json_extract(${enrichmentRuns.structuredFields}, '$.Country')
+          )`,
+          query.country,
+        )
+      : undefined,
+    query.createdFrom
+      ? gte(leads.createdAt, new Date(query.createdFrom).toISOString())
+      : undefined,
+    query.createdTo ? createdBefore(query.createdTo) : undefined,
+    query.status === 'partial' ? hasFailedAnswers : undefined,
+    query.status === 'complete' ? not(hasFailedAnswers) : undefined,
+    query.search
+      ? or(
+          contains(leads.email, query.search),
+          contains(companies.name, query.search),
+          exists(
+            answersOfRun(contains(enrichmentAnswers.answer, query.search)),
+          ),
+        )
+      : undefined,
+  );
+
+/**
+ * Leads sorting after the cursor: for sort keys a, b and the ID, those with
+ * a after the cursor, or the same a and b after it, or the same a and b and
+ * a later ID
+ */
+const afterCursor = (sort: LeadSort[], cursor: LeadCursor) => {
+  const keys = [
+    ...sort.map(({ key, direction }) => ({
+      column: sortColumns[key],
+      direction,
+    })),
+    { column: sql`${leads.id}`, direction: 'asc' as const },
+  ];
+  const values = [...cursor.values, cursor.id];
+
+  return or(
+    ...keys.map((key, index) =>
+      and(
+        ...keys
+          .slice(0, index)
+          .map((previous, i) => eq(previous.column, values[i])),
+        key.direction === 'desc'
+          ? lt(key.column, values[index])
+          : gt(key.column, values[index]),
+      ),
+    ),
+  );
+};
+
+/**
+ * One page of the latest run of every lead matching the query, with a
+ * cursor to the next page
+ */
+export const queryLeads = async (query: LeadQuery): Promise<LeadPage> => {
+  const cursor = query.cursor
+    ? decodeLeadCursor(query.cursor, query.sort)
+    : undefined;
+  if (query.cursor && !cursor) {
+    throw new Error('The cursor does not belong to this sort');
+  }
+
+  const filters = getLeadQueryFilters(query);
+
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)` })
+    .from(enrichmentRuns)
+    .innerJoin(leads, eq(leads.id, enrichmentRuns.leadId))
+    .innerJoin(companies, eq(companies.id, leads.companyId))
+    .leftJoin(scores, eq(scores.runId, enrichmentRuns.id))
+    .where(filters);
+
+  const rows = await db
+    .select({
+      runId: enrichmentRuns.id,
+      leadId: leads.id,
+      ...Object.fromEntries(
+        query.sort.map(({ key }) => [key, sortColumns[key]]),
+      ),
+    })
+    .from(enrichmentRuns)
+    .innerJoin(leads, eq(leads.id, enrichmentRuns.leadId))
+    .innerJoin(companies, eq(companies.id, leads.companyId))
+    .leftJoin(scores, eq(scores.runId, enrichmentRuns.id))
+    .where(and(filters, cursor ? afterCursor(query.sort, cursor) : undefined))
+    .orderBy(
+      ...query.sort.map(({ key, direction }) =>
+        direction === 'desc' ? desc(sortColumns[key]) : asc(sortColumns[key]),
+      ),
+      asc(leads.id),
+    )
+    // One more than the page, to know whether there is a next one
+    .limit(query.limit + 1);
+
+  const page = rows.slice(0, query.limit);
+  const runs =
+    page.length > 0
+      ? await readLeadRuns(
+          inArray(
+            enrichmentRuns.id,
+            page.map((row) => row.runId),
+          ),
+        )
+      : [];
+  const runsById = new Map(runs.map((run) => [run.id, run]));
+  const attributes = await getLeadAttributes(
+    runs.map((run) => run.version.email),
+  );
+
+  const last = page[page.length - 1];
+
+  return {
+    leads: page.map((row) => {
+      const run = runsById.get(row.runId)!;
+      const {
+        domain: company,
+        createdAt: enrichedAt,
+        ...version
+      } = run.version;
+
+      return {
+        ...version,
+        company,
+        domain: run.companyDomain,
+        status: version.results.some((result) => result.status === 'failed')
+          ? 'partial'
+          : 'complete',
+        createdAt: run.leadCreatedAt,
+        enrichedAt,
+        attributes: attributes.get(version.email) ?? null,
+      } satisfies LeadListItem;
+    }),
+    total,
+    nextCursor:
+      rows.length > query.limit
+        ? encodeLeadCursor({
+            sort: formatLeadSort(query.sort),
+            values: query.sort.map(
+              ({ key }) =>
+                (last as Record<string, unknown>)[key] as string | number,
+            ),
+            id: last.leadId,
+          })
+        : null,
+  };
+};
+
+const writeLeadVersion = (
+  store: LeadStore,
+  version: LeadVersion,
+  options: { companyDomain?: string; jobId?: string },
+) => {
+  const email = version.email.trim().toLowerCase();
+  const companyDomain = (
+    options.companyDomain ??
+    parseEmailDomain(email)?.registrableDomain ??
+    version.domain
+  ).toLowerCase();
+
+  const company = store
+    .insert(companies)
+    .values({
+      domain: companyDomain,
+      name: version.domain,
+      createdAt: version.createdAt,
+      updatedAt: version.createdAt,
+    })
+    .onConflictDoUpdate({
+      target: companies.domain,
+      set: { name: version.domain, updatedAt: version.createdAt },
+    })
+    .returning({ id: companies.id })
+    .get();
+
+  const lead = store
+    .insert(leads)
+    .values({
+      email,
+      companyId: company.id,
+      createdAt: version.createdAt,
+      updatedAt: version.createdAt,
+    })
+    .onConflictDoUpdate({
+      target: leads.email,
+      set: { companyId: company.id, updatedAt: version.createdAt },
+    })
+    .returning({ id: leads.id })
+    .get();
+
+  const run = store
+    .insert(enrichmentRuns)
+    .values({
+      leadId: lead.id,
+      version: version.version,
+      jobId: options.jobId ?? null,
+      chatId: version.chatId,
+      structuredData: version.structuredData,
+      structuredDataConfidence: version.structuredDataConfidence,
+      structuredDataReconciliation: version.structuredDataReconciliation,
+      person: version.person,
+      structuredFields: version.structuredFields ?? null,
+      changes: version.changes,
+      createdAt: version.createdAt,
+    })
+    .returning({ id: enrichmentRuns.id })
+    .get();
+
+  if (version.results.length > 0) {
+    store
+      .insert(enrichmentAnswers)
+      .values(
+        version.results.map((result, position) => ({
+          runId: run.id,
+          position,
+          questionId: result.questionId ?? null,
+          question: result.question,
+          answer: result.answer,
+          status: result.status ?? ('answered' as const),
+          sources: result.sources ?? [],
+          error: result.error ?? null,
+        })),
+      )
+      .run();
+  }
+
+  if (typeof version.score === 'number') {
+    store
+      .insert(scores)
+      .values({
+        runId: run.id,
+        score: version.score,
+        maxScore: version.scoreBreakdown?.maxScore ?? null,
+        rubricVersion: version.scoreBreakdown?.rubricVersion ?? null,
+        breakdown: version.scoreBreakdown,
+        reason: version.reason,
+        scoredAt: version.scoredAt ?? version.createdAt,
+      })
+      .run();
+  }
+};
+
+/**
+ * Stores a run as given, creating its company and lead on first sight. Used
+ * for new runs and by the MongoDB importer, which keeps the original versions
+ * and dates.
+ */
+export const insertLeadVersion = (
+  version: LeadVersion,
+  options: { companyDomain?: string; jobId?: string } = {},
+) =>
+  // One transaction, so a run is never saved without its answers
+  db.transaction((tx) => writeLeadVersion(tx, version, options));
+
+/**
+ * Saves a run as the next version of the lead and records what changed since
+ * the previous one. Values a user picked for the previous version are kept
+ * when the new run found them too.
+ */
+export const saveLeadVersion = async ({
+  companyDomain,
+  jobId,
+  ...input
+}: LeadVersionInput): Promise<LeadVersion> => {
+  const email = input.email.trim().toLowerCase();
+
+  // The previous version is read in the transaction that writes the next,
+  // so two saves of a lead can't both take the same number
+  return db.transaction(
+    (tx) => {
+      const history = selectLeadRuns(tx, eq(leads.email, email));
+      const previous = history[history.length - 1]?.version;
+      const data = previous ? carryOverrides(previous, input) : input;
+
+      const version: LeadVersion = {
+        ...data,
+        email,
+        version: (previous?.version ?? 0) + 1,
+        changes: previous ? diffLeadVersions(previous, data) : [],
+        createdAt: new Date().toISOString(),
+      };
+
+      writeLeadVersion(tx, version, { companyDomain, jobId });
+
+      return version;
+    },
+    { behavior: 'immediate' },
+  );
+};
+
+/**
+ * Saves a finished enrichment the way POST /api/lead does
+ */
+export const saveLeadResult = async (
+  result: LeadEnrichmentResult,
+  jobId?: string,
+) => {
+  const request = toLeadSaveRequest(result);
+
+  return saveLeadVersion({
+    email: request.email,
+    domain: request.company,
+    companyDomain: request.domain,
+    jobId,
+    chatId: request.chatId,
+    results: request.results,
+    structuredData: request.structuredData ?? null,
+    structuredDataConfidence: request.structuredDataConfidence ?? null,
+    structuredDataReconciliation: request.structuredDataReconciliation ?? null,
+    score: request.score ?? null,
+    scoreBreakdown: request.scoreBreakdown ?? null,
+    reason: request.reason ?? '',
+    person: request.person ?? null,
+    structuredFields: request.structuredFields ?? null,
+  });
+};
+
+const findLatestRun = async (email: string) => {
+  const [latest] = await db
+    .select({ id: enrichmentRuns.id })
+    .from(enrichmentRuns)
+    .innerJoin(leads, eq(leads.id, enrichmentRuns.leadId))
+    .where(eq(leads.email, email.trim().toLowerCase()))
+    .orderBy(desc(enrichmentRuns.version))
+    .limit(1);
+
+  return latest;
+};
+
+/**
+ * Replaces the picked value of a field in the latest version of a lead with
+ * another candidate the sources gave. The version is updated in place, since
+ * it is a correction rather than a new run.
+ */
+export const overrideLeadField = async (
+  email: string,
+  field: string,
+  candidateIndex: number,
+): Promise<LeadVersion | undefined> => {
+  const latest = await findLatestRun(email);
+
+  if (!latest) return undefined;
+
+  const [version] = await readLeadVersions(eq(enrichmentRuns.id, latest.id));
+  const updated = overrideField(version, field, candidateIndex);
+
+  await db
+    .update(enrichmentRuns)
+    .set({
+      structuredData: updated.structuredData,
+      structuredDataConfidence: updated.structuredDataConfidence,
+      structuredDataReconciliation: updated.structuredDataReconciliation,
+    })
+    .where(eq(enrichmentRuns.id, latest.id))
+    .execute();
+
+  return updated;
+};
+
+/**
+ * Replaces the score of the latest version of a lead, e.g. after the rubric
+ * changed. Like an override, it corrects the run instead of adding one.
+ */
+export const saveLeadScore = async (
+  email: string,
+  scoreBreakdown: ScoreBreakdown,
+): Promise<LeadVersion | undefined> => {
+  const latest = await findLatestRun(email);
+
+  if (!latest) return undefined;
+
+  const values = {
+    score: scoreBreakdown.score,
+    maxScore: scoreBreakdown.maxScore,
+    rubricVersion: scoreBreakdown.rubricVersion,
+    breakdown: scoreBreakdown,
+    reason: formatScoreBreakdown(scoreBreakdown),
+    scoredAt: new Date().toISOString(),
+  };
+
+  await db
+    .insert(scores)
+    .values({ runId: latest.id, ...values })
+    .onConflictDoUpdate({ target: scores.runId, set: values })
+    .execute();
+
+  const [version] = await readLeadVersions(eq(enrichmentRuns.id, latest.id));
+  return version;
+};
@@ -0,0 +1,164 @@
+export type LeadImportField =
+  'email' | 'firstName' | 'lastName' | 'company' | 'phone';
+
+export const LEAD_IMPORT_FIELDS: { field: LeadImportField; label: string }[] = [
+  { field: 'email', label: 'Email' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'company', label: 'Company' },
+  { field: 'phone', label: 'Phone' },
+];
+
+// A column is imported as a field, as a custom attribute named after the
+// column, or not at all
+export type LeadImportTarget = LeadImportField | 'custom' | 'ignore';
+
+/**
+ * What each column of an uploaded file is imported as, by column name
+ */
+export type LeadImportMapping = Record<string, LeadImportTarget>;
+
+/**
+ * What an uploaded lead list says about a lead besides its email
+ */
+export interface LeadAttributes {
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  phone?: string;
+  // Values of the columns imported as custom attributes, by column name
+  custom: Record<string, string>;
+}
+
+/**
+ * The rows of an uploaded file as text, under its header row
+ */
+export interface LeadImportTable {
+  fileName: string;
+  columns: string[];
+  rows: string[][];
+}
+
+// "existing" leads were saved before; "duplicate" rows repeat an earlier
+// row's email and are left out
+export type LeadImportRowStatus = 'new' | 'existing' | 'duplicate' | 'invalid';
+
+export interface LeadImportRow {
+  // Line in the file, counting the header row as 1
+  line: number;
+  email: string;
+  status: LeadImportRowStatus;
+  attributes: LeadAttributes;
+  // Why an invalid row can't be imported
+  error?: string;
+  // Why enrichment will skip the lead, e.g. a free-mail address
+  warning?: string;
+}
+
+export interface LeadImportPreview {
+  columns: string[];
+  mapping: LeadImportMapping;
+  rows: LeadImportRow[];
+  counts: Record<LeadImportRowStatus, number>;
+}
+
+// Column names are compared without case, spaces or punctuation
+const COLUMN_NAMES: Record<LeadImportField, string[]> = {
+  email: ['email', 'emailaddress', 'workemail', 'businessemail', 'mail'],
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  company: [
+    'company',
+    'companyname',
+    'organization',
+    'organisation',
+    'account',
+  ],
+  phone: ['phone', 'phonenumber', 'telephone', 'mobile', 'workphone'],
+};
+
+const toColumnKey = (column: string) =>
+  column.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Maps columns to fields by their names. Columns that match no field are
+ * imported as custom attributes.
+ */
+export const guessLeadImportMapping = (
+  columns: string[],
+): LeadImportMapping => {
+  const mapping: LeadImportMapping = {};
+  const used = new Set<LeadImportField>();
+
+  for (const column of columns) {
+    const key = toColumnKey(column);
+    const field = LEAD_IMPORT_FIELDS.map((item) => item.field).find(
+      (candidate) =>
+        !used.has(candidate) && COLUMN_NAMES[candidate].includes(key),
+    );
+
+    if (field) used.add(field);
+    mapping[column] = field ?? 'custom';
+  }
+
+  return mapping;
+};
+
+const LEAD_IMPORT_TARGETS: LeadImportTarget[] = [
+  ...LEAD_IMPORT_FIELDS.map((item) => item.field),
+  'custom',
+  'ignore',
+];
+
+/**
+ * Reads a column mapping for a file with these columns, returning an error
+ * message when it is invalid. Columns left out are ignored.
+ */
+export const parseLeadImportMapping = (
+  value: any,
+  columns: string[],
+): LeadImportMapping | string => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'mapping must be an object of column names and fields';
+  }
+
+  const mapping: LeadImportMapping = {};
+  for (const [column, target] of Object.entries(value)) {
+    if (!columns.includes(column)) {
+      return `The file has no column named ${column}`;
+    }
+    if (!LEAD_IMPORT_TARGETS.includes(target as LeadImportTarget)) {
+      return `Columns must be mapped to one of: ${LEAD_IMPORT_TARGETS.join(
+        ', ',
+      )}`;
+    }
+    mapping[column] = target as LeadImportTarget;
+  }
+
+  for (const { field, label } of LEAD_IMPORT_FIELDS) {
+    const mapped = Object.values(mapping).filter((target) => target === field);
+    if (field === 'email' && mapped.length === 0) {
+      return 'One column must be mapped to email';
+    }
+    if (mapped.length > 1) return `Only one column can be mapped to ${label}`;
+  }
+
+  return mapping;
+};
+
+/**
+ * The values of the column mapped to email, to look up which leads were
+ * saved before
+ */
+export const getLeadImportEmails = (
+  table: LeadImportTable,
+  mapping: LeadImportMapping,
+) => {
+  const position = table.columns.findIndex(
+    (column) => mapping[column] === 'email',
+  );
+
+  return table.rows
+    .map((row) => (row[position] ?? '').trim().toLowerCase())
+    .filter(Boolean);
+};
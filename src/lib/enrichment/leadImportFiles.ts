@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { classifyEmail } from './emailClassifier';
+import type {
+  LeadAttributes,
+  LeadImportMapping,
+  LeadImportPreview,
+  LeadImportRow,
+  LeadImportRowStatus,
+  LeadImportTable,
+} from './leadImport';
+import { readCsv, readXlsx } from './spreadsheets';
+
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+// Uploads that were previewed but never imported are deleted after this
+const IMPORT_TABLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const uploadDir = path.join(process.cwd(), 'uploads');
+
+const getTablePath = (id: string) => path.join(uploadDir, `${id}-leads.json`);
+
+// Blank and repeated headers get names of their own, since the mapping is
+// keyed by column name
+const toColumnNames = (header: string[]) => {
+  const names: string[] = [];
+
+  header.forEach((value, index) => {
+    const base = value.trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; names.includes(name); n++) name = `${base} (${n})`;
+    names.push(name);
+  });
+
+  return names;
+};
+
+/**
+ * Reads the first sheet of a CSV or XLSX file, returning an error message
+ * when it can't be imported. CSV cells are read as written, XLSX cells as
+ * the values Excel stores.
+ */
+export const parseLeadImportFile = (
+  fileName: string,
+  data: Buffer,
+): LeadImportTable | string => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension !== 'csv' && extension !== 'xlsx') {
+    return 'Only CSV and XLSX files can be imported';
+  }
+  if (data.length > MAX_IMPORT_FILE_BYTES) {
+    return `Files can be at most ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB`;
+  }
+
+  let cells: string[][];
+  try {
+    // CSV values stay text, so phone numbers keep their leading zeros
+    cells =
+      extension === 'csv'
+        ? readCsv(data.toString('utf-8').replace(/^\uFEFF/, ''))
+        : readXlsx(data);
+  } catch (err) {
+    return `${fileName} could not be read: ${(err as Error).message}`;
+  }
+
+  const [header, ...rows] = cells.filter((row) =>
+    row.some((cell) => cell.trim() !== ''),
+  );
+
+  if (!header || rows.length === 0) {
+    return `${fileName} has no rows under its header row`;
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return `Files can have at most ${MAX_IMPORT_ROWS} rows`;
+  }
+
+  // Columns with a value in any row get a name, even without a header
+  const width = Math.max(header.length, ...rows.map((row) => row.length));
+
+  return {
+    fileName,
+    columns: toColumnNames(
+      Array.from({ length: width }, (_, index) => header[index] ?? ''),
+    ),
+    rows,
+  };
+};
+
+const deleteExpiredLeadImportTables = () => {
+  const expiredBefore = Date.now() - IMPORT_TABLE_TTL_MS;
+
+  for (const name of fs.readdirSync(uploadDir)) {
+    if (!/^[a-f0-9]{32}-leads\.json$/.test(name)) continue;
+
+    const filePath = path.join(uploadDir, name);
+    try {
+      if (fs.statSync(filePath).mtimeMs < expiredBefore) fs.rmSync(filePath);
+    } catch {
+      // Imported or deleted by another request in the meantime
+    }
+  }
+};
+
+/**
+ * Keeps a parsed file in the uploads directory until it is imported,
+ * returning its ID. Files not imported within a day are deleted by a later
+ * upload.
+ */
+export const saveLeadImportTable = (table: LeadImportTable) => {
+  const id = crypto.randomBytes(16).toString('hex');
+
+  fs.mkdirSync(uploadDir, { recursive: true });
+  deleteExpiredLeadImportTables();
+  fs.writeFileSync(getTablePath(id), JSON.stringify(table));
+
+  return id;
+};
+
+/**
+ * A parsed file by its ID, or undefined if it does not exist or expired
+ */
+export const getLeadImportTable = (id: string) => {
+  // IDs are hex, so they can't point outside the uploads directory
+  if (
+    !/^[a-f0-9]{32}$/.test(id) ||
+    !fs.existsSync(getTablePath(id)) ||
+    fs.statSync(getTablePath(id)).mtimeMs < Date.now() - IMPORT_TABLE_TTL_MS
+  ) {
+    return undefined;
+  }
+
+  return JSON.parse(
+    fs.readFileSync(getTablePath(id), 'utf8'),
+  ) as LeadImportTable;
+};
+
+export const deleteLeadImportTable = (id: string) => {
+  if (/^[a-f0-9]{32}$/.test(id)) fs.rmSync(getTablePath(id), { force: true });
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Reads the rows of a file with a mapping. Emails are checked and compared
+ * with the earlier rows and with `savedEmails`, the leads saved before.
+ */
+export const previewLeadImport = (
+  table: LeadImportTable,
+  mapping: LeadImportMapping,
+  savedEmails: Set<string>,
+): LeadImportPreview => {
+  const seen = new Set<string>();
+
+  const rows = table.rows.map((values, index): LeadImportRow => {
+    const attributes: LeadAttributes = { custom: {} };
+    let email = '';
+
+    table.columns.forEach((column, position) => {
+      const value = (values[position] ?? '').trim();
+      const target = mapping[column] ?? 'ignore';
+      if (!value || target === 'ignore') return;
+
+      if (target === 'email') email = value.toLowerCase();
+      else if (target === 'custom') attributes.custom[column] = value;
+      else attributes[target] = value;
+    });
+
+    const row = { line: index + 2, email, attributes };
+
+    if (!email) {
+      return { ...row, status: 'invalid', error: 'No email' };
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      return { ...row, status: 'invalid', error: `${email} is not an email` };
+    }
+    if (seen.has(email)) return { ...row, status: 'duplicate' };
+    seen.add(email);
+
+    const classification = classifyEmail(email);
+
+    return {
+      ...row,
+      status: savedEmails.has(email) ? 'existing' : 'new',
+      warning: classification.skip
+        ? `Enrichment will skip it: ${classification.reason}`
+        : undefined,
+    };
+  });
+
+  const count = (status: LeadImportRowStatus) =>
+    rows.filter((row) => row.status === status).length;
+
+  return {
+    columns: table.columns,
+    mapping,
+    rows,
+    counts: {
+      new: count('new'),
+      existing: count('existing'),
+      duplicate: count('duplicate'),
+      invalid: count('invalid'),
+    },
+  };
+};
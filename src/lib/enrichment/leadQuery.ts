@@ -0,0 +1,255 @@
+import type { LeadAttributes } from './leadImport';
+import type { LeadVersion } from './leadVersions';
+
+export type LeadSortKey =
+  'score' | 'createdAt' | 'enrichedAt' | 'email' | 'domain' | 'company';
+
+export const LEAD_SORT_KEYS: LeadSortKey[] = [
+  'score',
+  'createdAt',
+  'enrichedAt',
+  'email',
+  'domain',
+  'company',
+];
+
+export interface LeadSort {
+  key: LeadSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// "partial" leads have questions that failed every attempt
+export type LeadEnrichmentStatus = 'complete' | 'partial';
+
+export const LEAD_ENRICHMENT_STATUSES: LeadEnrichmentStatus[] = [
+  'complete',
+  'partial',
+];
+
+/**
+ * Filters, sort and page of GET /api/leads. Filters apply to the latest run
+ * of every lead.
+ */
+export interface LeadQuery {
+  minScore?: number;
+  maxScore?: number;
+  // Registrable domain, e.g. "acme.co.uk"
+  domain?: string;
+  // Matched anywhere in the value, ignoring case
+  industry?: string;
+  country?: string;
+  // ISO dates or times the lead was first saved between, both inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  status?: LeadEnrichmentStatus;
+  // Searched in the answers, the email and the company name
+  search?: string;
+  sort: LeadSort[];
+  limit: number;
+  // Opaque, from nextCursor of the previous page
+  cursor?: string;
+}
+
+/**
+ * A lead as GET /api/leads returns it: the latest run with its company
+ */
+export interface LeadListItem extends Omit<
+  LeadVersion,
+  'domain' | 'createdAt'
+> {
+  company: string;
+  domain: string;
+  status: LeadEnrichmentStatus;
+  // When the lead was first saved
+  createdAt: string;
+  // When the latest run was saved
+  enrichedAt: string;
+  // What the file the lead was imported from says about it
+  attributes: LeadAttributes | null;
+}
+
+export interface LeadPage {
+  leads: LeadListItem[];
+  // Leads matching the filters, on all pages
+  total: number;
+  nextCursor: string | null;
+}
+
+export type LeadFilters = Omit<LeadQuery, 'sort' | 'limit' | 'cursor'>;
+
+/**
+ * How the Lead Table is laid out and which leads it shows
+ */
+export interface LeadViewSettings {
+  // IDs of the visible columns, in order
+  columns: string[];
+  sort: LeadSort[];
+  filters: LeadFilters;
+  pageSize: number;
+}
+
+/**
+ * Lead Table settings saved under a name by a user
+ */
+export interface LeadView extends LeadViewSettings {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LeadViewInput extends LeadViewSettings {
+  name: string;
+}
+
+export const DEFAULT_LEAD_SORT: LeadSort[] = [
+  { key: 'enrichedAt', direction: 'desc' },
+];
+export const DEFAULT_LEAD_PAGE_SIZE = 50;
+export const MAX_LEAD_PAGE_SIZE = 200;
+
+/**
+ * Renders a sort as the `sort` parameter, e.g. "score:desc,email:asc"
+ */
+export const formatLeadSort = (sort: LeadSort[]) =>
+  sort.map(({ key, direction }) => `${key}:${direction}`).join(',');
+
+/**
+ * Reads the `sort` parameter. Keys sort ascending unless followed by ":desc".
+ */
+export const parseLeadSort = (value: string): LeadSort[] | string => {
+  const sort: LeadSort[] = [];
+
+  for (const part of value.split(',')) {
+    const [key, direction = 'asc'] = part.trim().split(':');
+
+    if (!LEAD_SORT_KEYS.includes(key as LeadSortKey)) {
+      return `sort keys must be one of: ${LEAD_SORT_KEYS.join(', ')}`;
+    }
+    if (direction !== 'asc' && direction !== 'desc') {
+      return 'sort directions must be asc or desc';
+    }
+    if (sort.some((item) => item.key === key)) {
+      return `${key} is sorted by twice`;
+    }
+
+    sort.push({ key: key as LeadSortKey, direction });
+  }
+
+  return sort;
+};
+
+/**
+ * Reads the `emails` of a bulk action on leads, returning an error message
+ * when they are missing
+ */
+export const parseLeadEmails = (body: any): string[] | string => {
+  const emails = body?.emails;
+
+  if (
+    !Array.isArray(emails) ||
+    emails.length === 0 ||
+    !emails.every((email) => typeof email === 'string' && email.trim())
+  ) {
+    return 'emails must be a non-empty list of email addresses';
+  }
+
+  return emails;
+};
+
+const isDate = (value: string) => !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Reads the query parameters of GET /api/leads, returning an error message
+ * when one is invalid
+ */
+export const parseLeadQuery = (
+  params: URLSearchParams,
+): { query?: LeadQuery; error?: string } => {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+
+  const numbers: Partial<Record<'minScore' | 'maxScore' | 'limit', number>> =
+    {};
+  for (const name of ['minScore', 'maxScore', 'limit'] as const) {
+    const value = get(name);
+    if (value === undefined) continue;
+
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      return { error: `${name} must be a number` };
+    }
+    numbers[name] = number;
+  }
+
+  const limit = numbers.limit ?? DEFAULT_LEAD_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LEAD_PAGE_SIZE) {
+    return {
+      error: `limit must be a whole number from 1 to ${MAX_LEAD_PAGE_SIZE}`,
+    };
+  }
+
+  for (const name of ['createdFrom', 'createdTo']) {
+    const value = get(name);
+    if (value !== undefined && !isDate(value)) {
+      return { error: `${name} must be an ISO date` };
+    }
+  }
+
+  const status = get('status');
+  if (
+    status !== undefined &&
+    !LEAD_ENRICHMENT_STATUSES.includes(status as LeadEnrichmentStatus)
+  ) {
+    return {
+      error: `status must be one of: ${LEAD_ENRICHMENT_STATUSES.join(', ')}`,
+    };
+  }
+
+  const sortParam = get('sort');
+  const sort = sortParam ? parseLeadSort(sortParam) : DEFAULT_LEAD_SORT;
+  if (typeof sort === 'string') return { error: sort };
+
+  return {
+    query: {
+      minScore: numbers.minScore,
+      maxScore: numbers.maxScore,
+      domain: get('domain')?.toLowerCase(),
+      industry: get('industry'),
+      country: get('country'),
+      createdFrom: get('createdFrom'),
+      createdTo: get('createdTo'),
+      status: status as LeadEnrichmentStatus | undefined,
+      search: get('q'),
+      sort,
+      limit,
+      cursor: get('cursor'),
+    },
+  };
+};
+
+/**
+ * The query parameters for a LeadQuery, leaving out unset ones
+ */
+export const toLeadSearchParams = (query: Partial<LeadQuery>) => {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  };
+
+  set('minScore', query.minScore);
+  set('maxScore', query.maxScore);
+  set('domain', query.domain);
+  set('industry', query.industry);
+  set('country', query.country);
+  set('createdFrom', query.createdFrom);
+  set('createdTo', query.createdTo);
+  set('status', query.status);
+  set('q', query.search);
+  if (query.sort && query.sort.length > 0) {
+    set('sort', formatLeadSort(query.sort));
+  }
+  set('limit', query.limit);
+  set('cursor', query.cursor);
+
+  return params;
+};
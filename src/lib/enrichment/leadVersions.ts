@@ -0,0 +1,207 @@
+import type { LeadEnrichmentResult } from '@/lib/runEnrichment';
+import type { StructuredDataConfidence } from './fieldConfidence';
+import { formatMoney, isMoney } from './money';
+import type { PersonProfile } from './person';
+import type { StructuredDataReconciliation } from './reconciliation';
+import type { QuestionError, QuestionStatus } from './retry';
+import { formatScoreBreakdown, ScoreBreakdown } from './rubric';
+import type { StructuredAnswer, StructuredValue } from './structuredAnswers';
+
+export interface LeadFieldChange {
+  // Key of structuredData, or "score"
+  field: string;
+  label: string;
+  kind: 'added' | 'removed' | 'changed';
+  previous: StructuredValue | null;
+  current: StructuredValue | null;
+  // For lists, the items the new run found that the previous one did not
+  addedItems?: string[];
+}
+
+/**
+ * One enrichment run of a lead. Runs are never overwritten, so the history of
+ * a lead shows how the company changed between them.
+ */
+export interface LeadVersion {
+  email: string;
+  // The company name the lead was saved under
+  domain: string;
+  chatId: string;
+  version: number;
+  results: {
+    questionId?: string;
+    question: string;
+    answer: string;
+    // Missing from runs saved before failed questions were told apart
+    status?: QuestionStatus;
+    error?: QuestionError;
+    sources?: { title: string; url: string; snippet: string }[];
+  }[];
+  structuredData: StructuredAnswer | null;
+  structuredDataConfidence: StructuredDataConfidence | null;
+  structuredDataReconciliation: StructuredDataReconciliation | null;
+  score: number | null;
+  scoreBreakdown: ScoreBreakdown | null;
+  reason: string;
+  // When the score was made, later than createdAt once the lead is re-scored
+  scoredAt?: string | null;
+  person: PersonProfile | null;
+  // The CRM fields, missing from runs saved before they were kept
+  structuredFields?: Record<string, any> | null;
+  // What changed since the previous version, empty for the first one
+  changes: LeadFieldChange[];
+  createdAt: string;
+}
+
+/**
+ * The body POST /api/lead expects for a finished enrichment
+ */
+export const toLeadSaveRequest = (result: LeadEnrichmentResult) => ({
+  email: result.email,
+  company: result.company,
+  domain: result.domain,
+  chatId: result.chatId,
+  results: result.enrichmentData.map((item) => ({
+    questionId: item.questionId,
+    question: item.question,
+    answer: item.answer,
+    status: item.status,
+    error: item.error,
+    sources: item.sources ?? [],
+  })),
+  structuredData: result.structuredData,
+  structuredDataConfidence: result.structuredDataConfidence,
+  structuredDataReconciliation: result.structuredDataReconciliation,
+  score: result.score,
+  scoreBreakdown: result.scoreBreakdown,
+  reason: result.scoreBreakdown
+    ? formatScoreBreakdown(result.scoreBreakdown)
+    : undefined,
+  person: result.person,
+  structuredFields: result.structuredFields,
+});
+
+const normalizeItem = (item: string) => item.trim().toLowerCase();
+
+const isSameValue = (previous: StructuredValue, current: StructuredValue) => {
+  if (Array.isArray(previous) && Array.isArray(current)) {
+    const items = new Set(previous.map(normalizeItem));
+    return (
+      previous.length === current.length &&
+      current.every((item) => items.has(normalizeItem(item)))
+    );
+  }
+
+  if (isMoney(previous) && isMoney(current)) {
+    return (
+      previous.amount === current.amount &&
+      previous.currency === current.currency
+    );
+  }
+
+  if (typeof previous === 'string' && typeof current === 'string') {
+    return normalizeItem(previous) === normalizeItem(current);
+  }
+
+  return previous === current;
+};
+
+/**
+ * Turns a structuredData key into a label, e.g. "employeeCount" becomes
+ * "Employee Count"
+ */
+export const formatFieldLabel = (field: string) =>
+  field
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/^./, (char) => char.toUpperCase());
+
+/**
+ * Compares two runs field by field. Values missing from both runs are not
+ * changes; a value only the new run found is "added".
+ */
+export const diffLeadVersions = (
+  previous: Pick<LeadVersion, 'structuredData' | 'score'>,
+  current: Pick<LeadVersion, 'structuredData' | 'score'>,
+): LeadFieldChange[] => {
+  const before = previous.structuredData ?? {};
+  const after = current.structuredData ?? {};
+  const fields = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)]),
+  );
+
+  const changes: LeadFieldChange[] = [];
+
+  for (const field of fields) {
+    const previousValue = before[field] ?? null;
+    const currentValue = after[field] ?? null;
+
+    if (previousValue === null && currentValue === null) continue;
+
+    const change = {
+      field,
+      label: formatFieldLabel(field),
+      previous: previousValue,
+      current: currentValue,
+    };
+
+    if (previousValue === null) {
+      changes.push({ ...change, kind: 'added' });
+    } else if (currentValue === null) {
+      changes.push({ ...change, kind: 'removed' });
+    } else if (!isSameValue(previousValue, currentValue)) {
+      const addedItems =
+        Array.isArray(previousValue) && Array.isArray(currentValue)
+          ? currentValue.filter(
+              (item) =>
+                !previousValue.some(
+                  (previousItem) =>
+                    normalizeItem(previousItem) === normalizeItem(item),
+                ),
+            )
+          : undefined;
+
+      changes.push({ ...change, kind: 'changed', addedItems });
+    }
+  }
+
+  if (
+    typeof previous.score === 'number' &&
+    typeof current.score === 'number' &&
+    previous.score !== current.score
+  ) {
+    changes.push({
+      field: 'score',
+      label: 'Score',
+      kind: 'changed',
+      previous: previous.score,
+      current: current.score,
+    });
+  }
+
+  return changes;
+};
+
+export const formatChangeValue = (value: StructuredValue | null) => {
+  if (value === null) return 'none';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (isMoney(value)) return formatMoney(value);
+  return String(value);
+};
+
+/**
+ * Renders a change as e.g. "Employee Count: 120 → 210"
+ */
+export const formatLeadChange = (change: LeadFieldChange) => {
+  switch (change.kind) {
+    case 'added':
+      return `${change.label}: ${formatChangeValue(change.current)} (new)`;
+    case 'removed':
+      return `${change.label}: ${formatChangeValue(change.previous)} (no longer found)`;
+    case 'changed':
+      return change.addedItems && change.addedItems.length > 0
+        ? `${change.label}: + ${change.addedItems.join(', ')}`
+        : `${change.label}: ${formatChangeValue(change.previous)} → ${formatChangeValue(change.current)}`;
+  }
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import db from '@/lib/db';
+import { leadViews } from '@/lib/db/schema';
+import {
+  LeadView,
+  LeadViewInput,
+  LeadViewSettings,
+  parseLeadQuery,
+  toLeadSearchParams,
+} from './leadQuery';
+
+/**
+ * Reads a saved view, returning an error message when it is invalid. Filters,
+ * sort and page size are checked the way GET /api/leads checks them.
+ */
+export const parseLeadView = (body: any): LeadViewInput | string => {
+  if (!body || typeof body !== 'object') return 'Request body is required';
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+
+  if (
+    !Array.isArray(body.columns) ||
+    body.columns.length === 0 ||
+    !body.columns.every((column: unknown) => typeof column === 'string')
+  ) {
+    return 'columns must be a non-empty list of column IDs';
+  }
+
+  if (body.sort !== undefined && !Array.isArray(body.sort)) {
+    return 'sort must be a list of { key, direction }';
+  }
+
+  if (body.filters !== undefined && typeof body.filters !== 'object') {
+    return 'filters must be an object';
+  }
+
+  const { query, error } = parseLeadQuery(
+    toLeadSearchParams({
+      ...body.filters,
+      sort: body.sort,
+      limit: body.pageSize,
+    }),
+  );
+  if (!query) return error!;
+
+  const { sort, limit, cursor, ...filters } = query;
+
+  return {
+    name: body.name.trim(),
+    columns: body.columns,
+    sort,
+    filters,
+    pageSize: limit,
+  };
+};
+
+const forUser = (userId?: string) =>
+  userId ? eq(leadViews.userId, userId) : isNull(leadViews.userId);
+
+const toLeadView = (row: typeof leadViews.$inferSelect): LeadView => ({
+  id: row.id,
+  name: row.name,
+  ...(row.settings as LeadViewSettings),
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+const toSettings = (input: LeadViewInput): LeadViewSettings => ({
+  columns: input.columns,
+  sort: input.sort,
+  filters: input.filters,
+  pageSize: input.pageSize,
+});
+
+/**
+ * The views a user saved, or the shared ones without a user
+ */
+export const listLeadViews = async (userId?: string) => {
+  const rows = await db.query.leadViews.findMany({
+    where: forUser(userId),
+    orderBy: asc(leadViews.name),
+  });
+
+  return rows.map(toLeadView);
+};
+
+export const getLeadView = async (id: string, userId?: string) => {
+  const row = await db.query.leadViews.findFirst({
+    where: and(eq(leadViews.id, id), forUser(userId)),
+  });
+
+  return row ? toLeadView(row) : undefined;
+};
+
+export const createLeadView = async (
+  input: LeadViewInput,
+  userId?: string,
+) => {
+  const id = crypto.randomBytes(12).toString('hex');
+  const now = new Date().toISOString();
+
+  await db
+    .insert(leadViews)
+    .values({
+      id,
+      userId: userId ?? null,
+      name: input.name,
+      settings: toSettings(input),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .execute();
+
+  return (await getLeadView(id, userId))!;
+};
+
+export const updateLeadView = async (
+  id: string,
+  input: LeadViewInput,
+  userId?: string,
+) => {
+  await db
+    .update(leadViews)
+    .set({
+      name: input.name,
+      settings: toSettings(input),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(and(eq(leadViews.id, id), forUser(userId)))
+    .execute();
+
+  return getLeadView(id, userId);
+};
+
+export const deleteLeadView = async (id: string, userId?: string) => {
+  await db
+    .delete(leadViews)
+    .where(and(eq(leadViews.id, id), forUser(userId)))
+    .execute();
+};
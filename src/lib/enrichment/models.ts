@@ -0,0 +1,113 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatOpenAI } from '@langchain/openai';
+import {
+  getCustomOpenaiApiKey,
+  getCustomOpenaiApiUrl,
+  getCustomOpenaiModelName,
+  getRetryConfig,
+  getScoringModelName,
+  getScoringModelProvider,
+} from '@/lib/config';
+import { chatModelProviders } from '@/lib/providers';
+import { acquireRateLimit } from './rateLimiter';
+import { createUsageHandler, UsageAttribution } from './usage';
+
+export interface ModelSelection {
+  provider: string;
+  name: string;
+}
+
+export interface ResolvedChatModel extends ModelSelection {
+  llm: BaseChatModel;
+  // What generateText counts the model's calls against
+  usage?: UsageAttribution;
+}
+
+/**
+ * Looks a chat model up in the provider registry, the same way /api/chat does.
+ * The model is built for this caller, at the temperature asked for if any.
+ */
+export const resolveChatModel = async (
+  selection: ModelSelection,
+  options: { temperature?: number } = {},
+): Promise<ResolvedChatModel> => {
+  if (selection.provider === 'custom_openai') {
+    return {
+      provider: selection.provider,
+      name: getCustomOpenaiModelName(),
+      llm: new ChatOpenAI({
+        apiKey: getCustomOpenaiApiKey(),
+        modelName: getCustomOpenaiModelName(),
+        temperature: options.temperature ?? 0.7,
+        configuration: {
+          baseURL: getCustomOpenaiApiUrl(),
+        },
+      }) as unknown as BaseChatModel,
+    };
+  }
+
+  const chatModels = await chatModelProviders[selection.provider]?.(
+    options.temperature,
+  );
+  const chatModel = chatModels?.[selection.name];
+
+  if (!chatModel) {
+    throw new Error(
+      `Chat model ${selection.provider}/${selection.name} is not available`,
+    );
+  }
+
+  return { ...selection, llm: chatModel.model };
+};
+
+/**
+ * The model used for scoring and field extraction: the configured scoring
+ * model if there is one, otherwise the model that researched the lead
+ */
+export const getScoringModelSelection = (
+  chatModel: ModelSelection,
+): ModelSelection => {
+  const provider = getScoringModelProvider();
+  const name = getScoringModelName();
+
+  return provider && (name || provider === 'custom_openai')
+    ? { provider, name }
+    : chatModel;
+};
+
+/**
+ * The model a failing question is retried with once the chat model gives up,
+ * or null when none is configured
+ */
+export const getFallbackModelSelection = (): ModelSelection | null => {
+  const { FALLBACK_MODEL_PROVIDER: provider, FALLBACK_MODEL_NAME: name } =
+    getRetryConfig();
+
+  return provider && (name || provider === 'custom_openai')
+    ? { provider, name: name ?? '' }
+    : null;
+};
+
+/**
+ * The same model with its calls counted against a lead, job or purpose
+ */
+export const withUsage = (
+  model: ResolvedChatModel,
+  usage: UsageAttribution,
+): ResolvedChatModel => ({ ...model, usage });
+
+/**
+ * Sends a single prompt to the model and returns the text of its reply
+ */
+export const generateText = async (
+  model: ResolvedChatModel,
+  prompt: string,
+) => {
+  await acquireRateLimit(model.provider);
+  return model.llm.pipe(new StringOutputParser()).invoke(prompt, {
+    callbacks: [
+      createUsageHandler(model, model.usage ?? { purpose: 'unattributed' }),
+    ],
+  });
+};
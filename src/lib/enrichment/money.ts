@@ -0,0 +1,281 @@
+import type { StructuredValue } from './structuredAnswers';
+
+export interface NormalizedMoney {
+  amount: number;
+  // ISO 4217 code
+  currency: string;
+  // null when the FX table has no rate for the currency
+  usdEquivalent: number | null;
+  // The year the figure refers to, when the text states one
+  year: number | null;
+}
+
+/**
+ * USD value of one unit of each currency. Rates are offline approximations,
+ * good enough to put a figure in a scoring band; override them with
+ * [ENRICHMENT.FX_RATES] in config.toml.
+ */
+export const DEFAULT_FX_RATES: Record<string, number> = {
+  USD: 1,
+  INR: 0.012,
+  EUR: 1.08,
+  GBP: 1.27,
+  JPY: 0.0067,
+  CNY: 0.14,
+  AUD: 0.66,
+  CAD: 0.73,
+  SGD: 0.74,
+  AED: 0.27,
+  CHF: 1.13,
+};
+
+// Longer prefixes first so "A$" is not read as "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['S$', 'SGD'],
+  ['Rs.', 'INR'],
+  ['Rs', 'INR'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+];
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD',
+  dollars: 'USD',
+  rupee: 'INR',
+  rupees: 'INR',
+  euro: 'EUR',
+  euros: 'EUR',
+  pound: 'GBP',
+  pounds: 'GBP',
+  yen: 'JPY',
+};
+
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  millions: 1e6,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  billions: 1e9,
+  t: 1e12,
+  tn: 1e12,
+  trillion: 1e12,
+};
+
+// Crore and lakh only appear in Indian figures, so they imply rupees. A bare
+// "L" is too ambiguous to do the same.
+const INR_MAGNITUDES = [
+  'lac',
+  'lacs',
+  'lakh',
+  'lakhs',
+  'cr',
+  'crore',
+  'crores',
+];
+
+/**
+ * Escapes text to be matched literally in a regular expression
+ */
+export const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters may not come right before a symbol, so "years 2020" is not rupees
+const SYMBOL_PATTERN = `(?<![A-Za-z])(?:${CURRENCY_SYMBOLS.map(([symbol]) =>
+  escapeRegExp(symbol),
+).join('|')})`;
+const MAGNITUDE_PATTERN = Object.keys(MAGNITUDES)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+const NUMBER_PATTERN = '\\d[\\d,]*(?:\\.\\d+)?';
+
+// [symbol or code] number [- number] [magnitude] [code or currency word]
+const MONEY_REGEX = new RegExp(
+  `(?:(${SYMBOL_PATTERN})\\s?|\\b([A-Z]{3})\\s?)?` +
+    `(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(?:${SYMBOL_PATTERN})?\\s?${NUMBER_PATTERN})?` +
+    `(?:\\s*(${MAGNITUDE_PATTERN})\\b\\.?)?` +
+    `(?:\\s*(?:\\b([A-Z]{3})\\b|(${Object.keys(CURRENCY_WORDS).join('|')})\\b))?`,
+  'gi',
+);
+
+const YEAR_REGEX = /\b(?:FY\s?'?(\d{2})\b|(?:FY\s?)?((?:19|20)\d{2})\b)/i;
+
+const isKnownCode = (
+  code: string | undefined,
+  fxRates: Record<string, number>,
+): code is string =>
+  !!code &&
+  (code.toUpperCase() in fxRates || code.toUpperCase() in DEFAULT_FX_RATES);
+
+/**
+ * Converts an amount to US dollars, or null if the currency has no rate
+ */
+export const toUsd = (
+  amount: number,
+  currency: string,
+  fxRates: Record<string, number> = {},
+) => {
+  const rate = fxRates[currency] ?? DEFAULT_FX_RATES[currency];
+  return rate === undefined ? null : Math.round(amount * rate);
+};
+
+/**
+ * Finds the year a figure refers to, e.g. "FY2023", "FY23" or "in 2022"
+ */
+const findYear = (text: string) => {
+  const match = text.match(YEAR_REGEX);
+  if (!match) return null;
+  return match[1] ? 2000 + Number(match[1]) : Number(match[2]);
+};
+
+export interface MoneyMatch extends NormalizedMoney {
+  // The expression as written, e.g. "₹80 Cr"
+  text: string;
+}
+
+/**
+ * Finds every monetary expression in a text, such as "$10M", "₹8.5 crore",
+ * "INR 80 lakh" or "12 million euros". A number counts as money only when it
+ * has a currency or a crore/lakh magnitude, so years and head counts are
+ * skipped. Ranges like "$1-10M" resolve to their lower bound.
+ */
+export const findMoneyAmounts = (
+  text: string,
+  fxRates: Record<string, number> = {},
+): MoneyMatch[] => {
+  const matches: MoneyMatch[] = [];
+
+  for (const match of text.matchAll(MONEY_REGEX)) {
+    const [raw, symbol, prefixCode, number, magnitude, suffixCode, word] =
+      match;
+    const unit = magnitude?.toLowerCase();
+
+    const currency =
+      (symbol &&
+        CURRENCY_SYMBOLS.find(
+          ([candidate]) => candidate.toLowerCase() === symbol.toLowerCase(),
+        )?.[1]) ||
+      (isKnownCode(prefixCode, fxRates) && prefixCode.toUpperCase()) ||
+      (isKnownCode(suffixCode, fxRates) && suffixCode.toUpperCase()) ||
+      (word && CURRENCY_WORDS[word.toLowerCase()]) ||
+      (unit && INR_MAGNITUDES.includes(unit) ? 'INR' : '');
+
+    if (!currency) continue;
+
+    const amount =
+      parseFloat(number.replace(/,/g, '')) * (unit ? MAGNITUDES[unit] : 1);
+    if (!Number.isFinite(amount)) continue;
+
+    // Look for the year in the rest of the sentence, then just before it
+    const end = match.index! + raw.length;
+    const rest = text.slice(end);
+    // A dot after the magnitude ends the sentence when a new one follows,
+    // as in "$10M. Founded in 2015"
+    const sentenceEnd =
+      raw.endsWith('.') && /^(\s+[A-Z]|\s*$)/.test(rest)
+        ? 0
+        : rest.search(/[.;\n](\s|$)/);
+    const after = sentenceEnd === -1 ? rest : rest.slice(0, sentenceEnd);
+    const before = text.slice(Math.max(0, match.index! - 40), match.index);
+
+    matches.push({
+      text: raw.trim(),
+      amount,
+      currency,
+      usdEquivalent: toUsd(amount, currency, fxRates),
+      year: findYear(after) ?? findYear(before),
+    });
+  }
+
+  return matches;
+};
+
+/**
+ * Parses the first monetary expression in a text
+ */
+export const parseMoney = (
+  text: string,
+  fxRates: Record<string, number> = {},
+): NormalizedMoney | null => {
+  const [match] = findMoneyAmounts(text, fxRates);
+  if (!match) return null;
+
+  const { amount, currency, usdEquivalent, year } = match;
+  return { amount, currency, usdEquivalent, year };
+};
+
+/**
+ * Fills in the USD equivalent of an amount that is already split into amount
+ * and currency, e.g. one returned by the model
+ */
+export const normalizeMoney = (
+  amount: number,
+  currency: string,
+  year: number | null = null,
+  fxRates: Record<string, number> = {},
+): NormalizedMoney => ({
+  amount,
+  currency,
+  usdEquivalent: toUsd(amount, currency, fxRates),
+  year,
+});
+
+/**
+ * Whether a structured answer value is money rather than text, a number, a
+ * yes/no or a list
+ */
+export const isMoney = (value: StructuredValue): value is NormalizedMoney =>
+  typeof value === 'object' && !Array.isArray(value);
+
+// Amounts within this share of each other are the same figure
+const AMOUNT_TOLERANCE = 0.1;
+
+/**
+ * Whether two amounts are the same figure, e.g. 10M and 10.4M
+ */
+export const isSameAmount = (a: number, b: number) =>
+  Math.abs(a - b) <= AMOUNT_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+
+/**
+ * Whether two amounts of money are the same figure, compared in USD when
+ * their currencies differ
+ */
+export const isSameMoney = (a: NormalizedMoney, b: NormalizedMoney) =>
+  a.currency === b.currency
+    ? isSameAmount(a.amount, b.amount)
+    : a.usdEquivalent !== null &&
+      b.usdEquivalent !== null &&
+      isSameAmount(a.usdEquivalent, b.usdEquivalent);
+
+/**
+ * Renders money as e.g. "INR 800,000,000 (≈ USD 9,600,000, 2023)"
+ */
+export const formatMoney = (money: Partial<NormalizedMoney>) => {
+  const details = [
+    money.currency !== 'USD' && typeof money.usdEquivalent === 'number'
+      ? `≈ USD ${money.usdEquivalent.toLocaleString('en-US')}`
+      : null,
+    money.year ? String(money.year) : null,
+  ].filter(Boolean);
+
+  return `${money.currency} ${money.amount?.toLocaleString('en-US')}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+};
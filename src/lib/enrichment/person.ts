@@ -0,0 +1,324 @@
+export type Seniority =
+  'c_suite' | 'vp' | 'director' | 'manager' | 'senior' | 'individual' | 'entry';
+
+export interface PersonProfile {
+  firstName: string | null;
+  lastName: string | null;
+  title: string | null;
+  // Inferred from the title, null when no title was found
+  seniority: Seniority | null;
+  department: string | null;
+  profileUrl: string | null;
+  // 0-1, how sure we are this is the person behind the email
+  confidence: number;
+}
+
+/**
+ * A reading of the email's local part, e.g. "jsmith" as J. Smith
+ */
+export interface NameCandidate {
+  firstName?: string;
+  lastName?: string;
+  // Set when the local part only has the first letter of that name
+  firstInitial?: string;
+  lastInitial?: string;
+}
+
+/**
+ * Seniority as a number, so rubric criteria can score it with bands
+ */
+export const SENIORITY_LEVELS: Record<Seniority, number> = {
+  entry: 0,
+  individual: 1,
+  senior: 2,
+  manager: 3,
+  director: 4,
+  vp: 5,
+  c_suite: 6,
+};
+
+// Checked in order, so "Vice President" is not read as "President"
+const SENIORITY_PATTERNS: [Seniority, RegExp][] = [
+  ['vp', /\b(vp|svp|evp|avp|vice[-\s]president)\b/i],
+  [
+    'c_suite',
+    /\b(chief|ceo|cto|cfo|coo|cmo|cio|ciso|cro|cpo|founder|co-?founder|owner|president|managing director|managing partner)\b/i,
+  ],
+  ['director', /\b(director|head of|head)\b/i],
+  ['manager', /\b(manager|lead|supervisor)\b/i],
+  ['entry', /\b(intern|junior|jr\.?|trainee|graduate|apprentice|assistant)\b/i],
+  ['senior', /\b(senior|sr\.?|principal|staff)\b/i],
+];
+
+const DEPARTMENT_PATTERNS: [string, RegExp][] = [
+  [
+    'Engineering',
+    /\b(engineer\w*|developer|technology|cto|devops|software)\b/i,
+  ],
+  ['Sales', /\b(sales|account executive|business development|bdr|sdr)\b/i],
+  ['Marketing', /\b(marketing|growth|brand|cmo|content)\b/i],
+  ['Product', /\b(product|cpo)\b/i],
+  ['Finance', /\b(finance|financial|cfo|accounting|controller)\b/i],
+  ['Human Resources', /\b(hr|human resources|people|talent|recruit\w*)\b/i],
+  ['Operations', /\b(operations|coo|supply chain|logistics)\b/i],
+  ['Customer Success', /\b(customer success|support|customer experience)\b/i],
+  ['Design', /\b(design\w*|ux|ui)\b/i],
+  ['Legal', /\b(legal|counsel|compliance)\b/i],
+  // Last, so a "Vice President of Sales" is in Sales
+  ['Executive', /\b(chief|ceo|founder|co-?founder|owner|president)\b/i],
+];
+
+export const inferSeniority = (title: string | null): Seniority | null => {
+  if (!title?.trim()) return null;
+  return (
+    SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] ??
+    'individual'
+  );
+};
+
+export const inferDepartment = (title: string | null) => {
+  if (!title?.trim()) return null;
+  return (
+    DEPARTMENT_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] ?? null
+  );
+};
+
+// Two consonants that don't form an onset like "ch", "sh" or "br"
+const INITIAL_PREFIX =
+  /^(?![cstpwg]h|[bcdfgkpt]r|[bcfgps]l|sc|sk|sm|sn|sp|st|sw|tw|kn|qu)[^aeiouy][^aeiouy]/;
+
+const capitalize = (name: string) =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+/**
+ * Reads possible names from the local part of an email: "john.smith" is John
+ * Smith, "john_s" is John S., "j.smith" and "jsmith" are J. Smith. Digits and
+ * "+tags" are ignored. Returns the likeliest reading first, or nothing when
+ * the local part has no letters to go on.
+ */
+export const parseLocalPart = (email: string): NameCandidate[] => {
+  const localPart = email.split('@')[0].split('+')[0].toLowerCase();
+  const parts = localPart
+    .split(/[._-]+/)
+    .map((part) => part.replace(/[^a-z]/g, ''))
+    .filter(Boolean);
+
+  if (parts.length === 0) return [];
+
+  if (parts.length >= 2) {
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+
+    const candidate: NameCandidate = {};
+    if (first.length === 1) candidate.firstInitial = first;
+    else candidate.firstName = capitalize(first);
+    if (last.length === 1) candidate.lastInitial = last;
+    else candidate.lastName = capitalize(last);
+
+    // "smith.john" is less common, but both are real conventions
+    const reversed: NameCandidate = {};
+    if (last.length > 1 && first.length > 1) {
+      reversed.firstName = capitalize(last);
+      reversed.lastName = capitalize(first);
+      return [candidate, reversed];
+    }
+
+    return [candidate];
+  }
+
+  const [token] = parts;
+  if (token.length < 2) return [];
+
+  // "jsmith" is an initial and a last name, since names rarely start with two
+  // consonants that can't begin a word; "john" and "chris" are first names
+  if (token.length >= 4 && INITIAL_PREFIX.test(token)) {
+    return [
+      { firstInitial: token[0], lastName: capitalize(token.slice(1)) },
+      { firstName: capitalize(token) },
+    ];
+  }
+
+  return [{ firstName: capitalize(token) }];
+};
+
+/**
+ * Renders a candidate for a search query, e.g. "J. Smith"
+ */
+export const formatNameCandidate = (candidate: NameCandidate) =>
+  [
+    candidate.firstName ??
+      (candidate.firstInitial && `${candidate.firstInitial.toUpperCase()}.`),
+    candidate.lastName ??
+      (candidate.lastInitial && `${candidate.lastInitial.toUpperCase()}.`),
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const matchesName = (
+  found: string | null,
+  name: string | undefined,
+  initial: string | undefined,
+) => {
+  if (!found) return false;
+  const normalized = found.trim().toLowerCase();
+  if (name) return normalized === name.toLowerCase();
+  if (initial) return normalized.startsWith(initial);
+  return false;
+};
+
+/**
+ * How well a found name fits the email: 1 when first and last name fit a
+ * candidate, 0.5 when one of them does
+ */
+export const scoreNameMatch = (
+  candidates: NameCandidate[],
+  firstName: string | null,
+  lastName: string | null,
+) =>
+  Math.max(
+    0,
+    ...candidates.map((candidate) => {
+      const first = matchesName(
+        firstName,
+        candidate.firstName,
+        candidate.firstInitial,
+      );
+      const last = matchesName(
+        lastName,
+        candidate.lastName,
+        candidate.lastInitial,
+      );
+      const checks = [
+        candidate.firstName || candidate.firstInitial ? first : null,
+        candidate.lastName || candidate.lastInitial ? last : null,
+      ].filter((check) => check !== null);
+
+      if (checks.length === 0) return 0;
+      return checks.every(Boolean) ? 1 : checks.some(Boolean) ? 0.5 : 0;
+    }),
+  );
+
+/**
+ * Confidence that a found person is the one behind the email, computed from
+ * what was found rather than asked of the model
+ */
+export const getPersonConfidence = (
+  person: Omit<PersonProfile, 'confidence'>,
+  candidates: NameCandidate[],
+  sourceUrls: string[],
+) => {
+  const nameMatch = scoreNameMatch(
+    candidates,
+    person.firstName,
+    person.lastName,
+  );
+  const profileInSources =
+    !!person.profileUrl &&
+    sourceUrls.some(
+      (url) => url.replace(/\/$/, '') === person.profileUrl!.replace(/\/$/, ''),
+    );
+
+  const confidence =
+    0.5 * nameMatch +
+    (person.title ? 0.2 : 0) +
+    (person.profileUrl ? 0.15 : 0) +
+    (profileInSources ? 0.15 : 0);
+
+  return Math.round(Math.min(1, confidence) * 100) / 100;
+};
+
+/**
+ * Renders a person as e.g. "Jane Smith, VP of Sales (85% match)"
+ */
+export const formatPerson = (person: PersonProfile) => {
+  const name =
+    [person.firstName, person.lastName].filter(Boolean).join(' ') || 'Unknown';
+  const title = person.title ? `, ${person.title}` : '';
+  return `${name}${title} (${Math.round(person.confidence * 100)}% match)`;
+};
+
+/**
+ * The question the search agent researches the person with
+ */
+export const buildPersonQuestion = (
+  email: string,
+  candidates: NameCandidate[],
+  company: string,
+  domain: string,
+) => {
+  const names = candidates.map(formatNameCandidate).filter(Boolean);
+  const who =
+    names.length > 0
+      ? `${names.map((name) => `"${name}"`).join(' or ')}`
+      : 'the person';
+
+  return `Who is ${who} at ${company} (${domain}), whose work email is ${email}? What is their current job title and department, and what is their public professional profile URL (such as LinkedIn)?`;
+};
+
+/**
+ * Asks the model to pull the person's details out of the search answer
+ */
+export const buildPersonExtractionPrompt = (
+  email: string,
+  company: string,
+  answer: string,
+  sourceUrls: string[],
+) => `
+Extract details about the person with the work email ${email} at ${company} from the answer below.
+Only use what the answer states about that person. If the answer is about someone else or does not say, use null. Do not guess.
+profileUrl must be one of the source URLs or a URL written in the answer.
+
+Answer:
+${answer}
+
+Sources:
+${sourceUrls.join('\n') || 'None'}
+
+Return ONLY a JSON object:
+{"firstName": <string or null>, "lastName": <string or null>, "title": <string or null>, "department": <string or null>, "profileUrl": <string or null>}
+`;
+
+const toOptionalString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Builds the person from the model's JSON. Seniority and confidence are
+ * computed here; names fall back to what the email says.
+ */
+export const parsePersonProfile = (
+  text: string,
+  candidates: NameCandidate[],
+  sourceUrls: string[],
+): PersonProfile => {
+  let raw: Record<string, unknown> = {};
+  try {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (json) raw = JSON.parse(json[0]);
+  } catch (err) {
+    console.error('Error parsing person JSON:', err, text);
+  }
+
+  const profileUrl = toOptionalString(raw.profileUrl);
+  const title = toOptionalString(raw.title);
+
+  const found = {
+    firstName: toOptionalString(raw.firstName),
+    lastName: toOptionalString(raw.lastName),
+    title,
+    seniority: inferSeniority(title),
+    department: toOptionalString(raw.department) ?? inferDepartment(title),
+    profileUrl:
+      profileUrl && /^https?:\/\//i.test(profileUrl) ? profileUrl : null,
+  };
+
+  // Confidence only counts what the search found, not the email's own guess
+  const confidence = getPersonConfidence(found, candidates, sourceUrls);
+  const [likeliest] = candidates;
+
+  return {
+    ...found,
+    firstName: found.firstName ?? likeliest?.firstName ?? null,
+    lastName: found.lastName ?? likeliest?.lastName ?? null,
+    confidence,
+  };
+};
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { asc, eq } from 'drizzle-orm';
+import db from '@/lib/db';
+import {
+  EnrichmentQuestion,
+  enrichmentSchedules,
+  questionSets,
+} from '@/lib/db/schema';
+import { searchHandlers } from '@/lib/search';
+import { ANSWER_TYPES, DEFAULT_QUESTIONS } from './questionTemplates';
+
+export interface QuestionSetInput {
+  name: string;
+  description?: string;
+  questions: EnrichmentQuestion[];
+  isDefault?: boolean;
+}
+
+/**
+ * Returns an error message if the input is not a valid question set
+ */
+export const validateQuestionSet = (body: any): string | undefined => {
+  if (!body || typeof body !== 'object') return 'Request body is required';
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+
+  if (body.description != null && typeof body.description !== 'string') {
+    return 'description must be a string';
+  }
+
+  if (!Array.isArray(body.questions) || body.questions.length === 0) {
+    return 'questions must be a non-empty array';
+  }
+
+  const ids = new Set<string>();
+  const outputKeys = new Set<string>();
+
+  for (const [index, question] of body.questions.entries()) {
+    if (typeof question?.id !== 'string' || !question.id.trim()) {
+      return `questions[${index}].id is required`;
+    }
+
+    if (ids.has(question.id)) {
+      return `Duplicate question id: ${question.id}`;
+    }
+    ids.add(question.id);
+
+    if (typeof question.template !== 'string' || !question.template.trim()) {
+      return `questions[${index}].template is required`;
+    }
+
+    if (!/\{(company|domain)\}/.test(question.template)) {
+      return `questions[${index}].template must contain {company} or {domain}`;
+    }
+
+    if (!ANSWER_TYPES.includes(question.answerType)) {
+      return `questions[${index}].answerType must be one of: ${ANSWER_TYPES.join(', ')}`;
+    }
+
+    if (question.focusMode && !searchHandlers[question.focusMode]) {
+      return `questions[${index}].focusMode is not a valid focus mode`;
+    }
+
+    if (question.output === undefined) continue;
+
+    if (!Array.isArray(question.output)) {
+      return `questions[${index}].output must be an array`;
+    }
+
+    for (const field of question.output) {
+      if (
+        typeof field?.key !== 'string' ||
+        !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(field.key)
+      ) {
+        return `questions[${index}].output keys must be identifiers like employeeCount`;
+      }
+
+      // Output values of all questions are merged per lead, so keys must not clash
+      if (outputKeys.has(field.key)) {
+        return `Duplicate output key: ${field.key}`;
+      }
+      outputKeys.add(field.key);
+
+      if (!ANSWER_TYPES.includes(field.type)) {
+        return `questions[${index}].output.${field.key} type must be one of: ${ANSWER_TYPES.join(', ')}`;
+      }
+
+      if (field.description != null && typeof field.description !== 'string') {
+        return `questions[${index}].output.${field.key} description must be a string`;
+      }
+    }
+  }
+};
+
+const toQuestions = (questions: EnrichmentQuestion[]): EnrichmentQuestion[] =>
+  questions.map((question) => ({
+    id: question.id.trim(),
+    template: question.template.trim(),
+    focusMode: question.focusMode || undefined,
+    answerType: question.answerType,
+    output: question.output?.map((field) => ({
+      key: field.key,
+      type: field.type,
+      description: field.description?.trim() || undefined,
+    })),
+  }));
+
+// Only one set can be the default, so clear the flag on the others first
+const clearDefault = async () => {
+  await db
+    .update(questionSets)
+    .set({ isDefault: false })
+    .where(eq(questionSets.isDefault, true))
+    .execute();
+};
+
+export const listQuestionSets = async () => {
+  return db.query.questionSets.findMany({
+    orderBy: asc(questionSets.createdAt),
+  });
+};
+
+export const getQuestionSet = async (id: string) => {
+  return db.query.questionSets.findFirst({
+    where: eq(questionSets.id, id),
+  });
+};
+
+export const createQuestionSet = async (input: QuestionSetInput) => {
+  const id = crypto.randomBytes(12).toString('hex');
+  const now = new Date().toISOString();
+
+  if (input.isDefault) await clearDefault();
+
+  await db
+    .insert(questionSets)
+    .values({
+      id,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      questions: toQuestions(input.questions),
+      isDefault: input.isDefault ?? false,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .execute();
+
+  return (await getQuestionSet(id))!;
+};
+
+export const updateQuestionSet = async (
+  id: string,
+  input: QuestionSetInput,
+) => {
+  if (input.isDefault) await clearDefault();
+
+  await db
+    .update(questionSets)
+    .set({
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      questions: toQuestions(input.questions),
+      isDefault: input.isDefault ?? false,
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(questionSets.id, id))
+    .execute();
+
+  return getQuestionSet(id);
+};
+
+/**
+ * Names of the enrichment schedules that ask this question set
+ */
+export const getQuestionSetSchedules = async (id: string) => {
+  const rows = await db
+    .select({ name: enrichmentSchedules.name })
+    .from(enrichmentSchedules)
+    .where(eq(enrichmentSchedules.questionSetId, id));
+
+  return rows.map((row) => row.name);
+};
+
+export const deleteQuestionSet = async (id: string) => {
+  await db.delete(questionSets).where(eq(questionSets.id, id)).execute();
+};
+
+/**
+ * Returns the questions to ask for an enrichment run: the requested set, else
+ * the set marked default, else the built-in questions
+ */
+export const resolveQuestions = async (
+  questionSetId?: string,
+): Promise<EnrichmentQuestion[]> => {
+  if (questionSetId) {
+    const questionSet = await getQuestionSet(questionSetId);
+    if (!questionSet) {
+      throw new Error(`Question set ${questionSetId} not found`);
+    }
+    return questionSet.questions;
+  }
+
+  const defaultSet = await db.query.questionSets.findFirst({
+    where: eq(questionSets.isDefault, true),
+  });
+
+  return defaultSet?.questions ?? DEFAULT_QUESTIONS;
+};
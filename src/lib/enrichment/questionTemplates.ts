@@ -0,0 +1,185 @@
+import type {
+  EnrichmentQuestion,
+  QuestionOutputField,
+} from '@/lib/db/schema';
+
+export type { EnrichmentQuestion, QuestionOutputField };
+
+export type QuestionAnswerType = EnrichmentQuestion['answerType'];
+
+export const ANSWER_TYPES: QuestionAnswerType[] = [
+  'text',
+  'number',
+  'money',
+  'boolean',
+  'url',
+  'list',
+];
+
+/**
+ * Questions used when no question set is selected and none is marked default
+ */
+export const DEFAULT_QUESTIONS: EnrichmentQuestion[] = [
+  {
+    id: 'description',
+    template:
+      'What does {domain} company do? Please give a short description in two lines.',
+    answerType: 'text',
+    output: [
+      {
+        key: 'description',
+        type: 'text',
+        description: 'Two line description of what the company does',
+      },
+    ],
+  },
+  {
+    id: 'website',
+    template: 'What is the website of the company with the domain {domain}?',
+    answerType: 'url',
+    output: [
+      {
+        key: 'websiteUrl',
+        type: 'url',
+        description: 'Official company website',
+      },
+    ],
+  },
+  {
+    id: 'revenue',
+    template:
+      'What are the revenue figures for the company with the domain {domain}? Only include results related to this entity and list each figure along with the source name.',
+    answerType: 'money',
+    output: [
+      {
+        key: 'annualRevenue',
+        type: 'money',
+        description: 'Most recent annual revenue',
+      },
+    ],
+  },
+  {
+    id: 'employees',
+    template:
+      'What is the employee size of {company} company? Please reply with only the number of employees in two short sentences, without additional explanation.',
+    answerType: 'number',
+    output: [
+      {
+        key: 'employeeCount',
+        type: 'number',
+        description: 'Total number of employees',
+      },
+    ],
+  },
+  {
+    id: 'years_in_business',
+    template:
+      'How many years has {company} company been in business? Please reply with only the number of years in two short sentences, without additional explanation.',
+    answerType: 'number',
+    output: [
+      {
+        key: 'foundedYear',
+        type: 'number',
+        description: 'Year the company was founded',
+      },
+      {
+        key: 'yearsInBusiness',
+        type: 'number',
+        description: 'Number of years the company has been in business',
+      },
+    ],
+  },
+  {
+    id: 'funding',
+    template:
+      'What is the latest funding news for {company} company? Please reply with only the latest funding amount and date in two short sentences in bullet points, without additional explanation.',
+    answerType: 'money',
+    output: [
+      {
+        key: 'latestFundingAmount',
+        type: 'money',
+        description: 'Amount raised in the latest funding round',
+      },
+      {
+        key: 'latestFundingDate',
+        type: 'text',
+        description: 'Date of the latest funding round',
+      },
+    ],
+  },
+  {
+    id: 'fortune_500',
+    template:
+      'Is {company} in the Fortune 500 list? Please respond with a yes or no and one short supporting detail.',
+    answerType: 'boolean',
+    output: [
+      {
+        key: 'fortune500',
+        type: 'boolean',
+        description: 'Whether the company is in the Fortune 500',
+      },
+    ],
+  },
+  {
+    id: 'fortune_100',
+    template:
+      'Is {company} in the Fortune 100 list? Please respond with a yes or no and one short supporting detail.',
+    answerType: 'boolean',
+    output: [
+      {
+        key: 'fortune100',
+        type: 'boolean',
+        description: 'Whether the company is in the Fortune 100',
+      },
+    ],
+  },
+  {
+    id: 'clients',
+    template:
+      'Who are the clients of {company}? List major clients or industries they serve.',
+    answerType: 'list',
+    output: [
+      {
+        key: 'clients',
+        type: 'list',
+        description: 'Names of major clients',
+      },
+    ],
+  },
+  {
+    id: 'industry',
+    template: 'What is the industry classification of {company}?',
+    answerType: 'text',
+    output: [
+      {
+        key: 'industry',
+        type: 'text',
+        description: 'Industry classification',
+      },
+    ],
+  },
+  {
+    id: 'linkedin',
+    template:
+      'What is the LinkedIn profile link of the company named {company}? Return only the link.',
+    answerType: 'url',
+    output: [
+      {
+        key: 'linkedinUrl',
+        type: 'url',
+        description: 'LinkedIn company page',
+      },
+    ],
+  },
+];
+
+/**
+ * Fills the {company} and {domain} placeholders of a question template
+ */
+export const renderQuestion = (
+  template: string,
+  values: { company: string; domain: string },
+) =>
+  template
+    .replace(/\{company\}/g, values.company)
+    .replace(/\{domain\}/g, values.domain);
@@ -0,0 +1,61 @@
+import { getProviderRateLimit, RateLimitConfig } from '@/lib/config';
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(readonly limit: RateLimitConfig) {
+    this.tokens = limit.BURST;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refillPerMs = this.limit.REQUESTS_PER_MINUTE / 60000;
+
+    this.tokens = Math.min(
+      this.limit.BURST,
+      this.tokens + (now - this.lastRefill) * refillPerMs,
+    );
+    this.lastRefill = now;
+  }
+
+  async take() {
+    while (true) {
+      this.refill();
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const waitMs =
+        ((1 - this.tokens) * 60000) / this.limit.REQUESTS_PER_MINUTE;
+      await new Promise((resolve) => setTimeout(resolve, Math.ceil(waitMs)));
+    }
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+const sameLimit = (a: RateLimitConfig, b: RateLimitConfig) =>
+  a.REQUESTS_PER_MINUTE === b.REQUESTS_PER_MINUTE && a.BURST === b.BURST;
+
+/**
+ * Waits until the chat model provider's token bucket allows another request.
+ * Providers without a configured limit (and no DEFAULT) are not throttled.
+ */
+export const acquireRateLimit = async (provider: string) => {
+  const limit = getProviderRateLimit(provider);
+
+  if (!limit || !limit.REQUESTS_PER_MINUTE || limit.BURST < 1) return;
+
+  let bucket = buckets.get(provider);
+
+  // Rebuild the bucket when the limits in config.toml change
+  if (!bucket || !sameLimit(bucket.limit, limit)) {
+    bucket = new TokenBucket(limit);
+    buckets.set(provider, bucket);
+  }
+
+  await bucket.take();
+};
@@ -0,0 +1,450 @@
+import type {
+  FieldConfidence,
+  StructuredDataConfidence,
+} from './fieldConfidence';
+import {
+  escapeRegExp,
+  findMoneyAmounts,
+  isMoney,
+  isSameAmount,
+  isSameMoney,
+} from './money';
+import type { QuestionOutputField } from './questionTemplates';
+import type { StructuredAnswer, StructuredValue } from './structuredAnswers';
+
+export type SourceKind = 'filing' | 'company' | 'news' | 'aggregator' | 'other';
+
+/**
+ * How much a source of each kind counts when sources disagree. Filings are
+ * audited, the company's own site comes next, aggregators often estimate.
+ */
+export const SOURCE_WEIGHTS: Record<SourceKind, number> = {
+  filing: 1,
+  company: 0.9,
+  news: 0.7,
+  aggregator: 0.5,
+  other: 0.3,
+};
+
+// A figure the answer states without citing a source
+const UNCITED_WEIGHT = 0.2;
+
+// A runner-up this close to the pick means the sources really disagree
+const CONFLICT_RATIO = 0.8;
+
+const FILING_HOSTS = [
+  'sec.gov',
+  'companieshouse.gov.uk',
+  'company-information.service.gov.uk',
+  'mca.gov.in',
+  'bseindia.com',
+  'nseindia.com',
+  'annualreports.com',
+  'asx.com.au',
+  'sedarplus.ca',
+];
+
+const NEWS_HOSTS = [
+  'reuters.com',
+  'bloomberg.com',
+  'ft.com',
+  'wsj.com',
+  'cnbc.com',
+  'forbes.com',
+  'techcrunch.com',
+  'businessinsider.com',
+  'venturebeat.com',
+  'economictimes.indiatimes.com',
+  'livemint.com',
+  'business-standard.com',
+  'moneycontrol.com',
+  'thehindubusinessline.com',
+  'financialexpress.com',
+  'yourstory.com',
+  'inc42.com',
+  'entrackr.com',
+  'prnewswire.com',
+  'businesswire.com',
+  'globenewswire.com',
+];
+
+const AGGREGATOR_HOSTS = [
+  'zoominfo.com',
+  'crunchbase.com',
+  'linkedin.com',
+  'owler.com',
+  'growjo.com',
+  'rocketreach.co',
+  'dnb.com',
+  'apollo.io',
+  'tracxn.com',
+  'craft.co',
+  'cbinsights.com',
+  'pitchbook.com',
+  'glassdoor.com',
+  'statista.com',
+  'wikipedia.org',
+  'macrotrends.net',
+  'companiesmarketcap.com',
+  'zaubacorp.com',
+  'tofler.in',
+  'leadiq.com',
+  'datanyze.com',
+];
+
+export interface CandidateSource {
+  title: string;
+  url: string;
+  kind: SourceKind;
+}
+
+export interface FieldCandidate {
+  value: StructuredValue;
+  // Sum of the weights of the distinct sources that state it
+  weight: number;
+  sources: CandidateSource[];
+}
+
+/**
+ * Every figure the sources gave for a field, best supported first. `value`
+ * is the pick, which a user can override with another candidate.
+ */
+export interface FieldReconciliation {
+  value: StructuredValue;
+  candidates: FieldCandidate[];
+  // The runner-up is nearly as well supported as the pick
+  conflicting: boolean;
+  overridden?: boolean;
+}
+
+export type StructuredDataReconciliation = Record<string, FieldReconciliation>;
+
+const matchesHost = (host: string, domains: string[]) =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+/**
+ * Sorts a source into a kind by its URL. `companyDomain` is the registrable
+ * domain of the company being researched.
+ */
+export const classifySource = (
+  url: string,
+  companyDomain?: string,
+): SourceKind => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'other';
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+  if (companyDomain && matchesHost(host, [companyDomain.toLowerCase()])) {
+    // Investor relations pages publish the annual reports
+    return /^(investors?|ir)\./.test(host) ||
+      /annual[-_]?report/i.test(parsed.pathname)
+      ? 'filing'
+      : 'company';
+  }
+
+  if (matchesHost(host, FILING_HOSTS) || /\.gov(\.[a-z]{2})?$/.test(host)) {
+    return 'filing';
+  }
+  if (matchesHost(host, NEWS_HOSTS)) return 'news';
+  if (matchesHost(host, AGGREGATOR_HOSTS)) return 'aggregator';
+  return 'other';
+};
+
+/**
+ * Whether two values are the same figure, e.g. "$10M" and "$10.4 million"
+ */
+export const isSameFigure = (a: StructuredValue, b: StructuredValue) => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return isSameAmount(a, b);
+  }
+
+  return isMoney(a) && isMoney(b) && isSameMoney(a, b);
+};
+
+const STOP_WORDS = ['count', 'number', 'total', 'amount', 'latest', 'size'];
+
+const SYNONYMS: Record<string, string[]> = {
+  employ: ['staff', 'headcount', 'workforce', 'team of'],
+};
+
+// "employeeCount" looks for employ(ees), staff, headcount...
+const getKeywords = (key: string) =>
+  key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s_-]+/)
+    .filter((word) => word.length >= 4 && !STOP_WORDS.includes(word))
+    .flatMap((word) => {
+      const stem = word.slice(0, Math.max(4, word.length - 2));
+      return [stem, ...(SYNONYMS[stem] ?? [])];
+    });
+
+// Not preceded by a currency, which would make it money
+const NUMBER = String.raw`(?<![$₹€£¥]\s?)(?<![\d.,])(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|m|mn|million)?\b\+?`;
+
+const NUMBER_MAGNITUDES: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mn: 1_000_000,
+  million: 1_000_000,
+};
+
+const toFigure = (number: string, magnitude?: string) => {
+  const value =
+    parseFloat(number.replace(/,/g, '')) *
+    (magnitude ? NUMBER_MAGNITUDES[magnitude.toLowerCase()] : 1);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Finds the numbers a text gives for a field: years next to "founded" for
+ * foundedYear, or numbers within a few words of "employees" for employeeCount
+ */
+const findNumbers = (text: string, key: string): number[] => {
+  const keywords = getKeywords(key);
+  if (keywords.length === 0) return [];
+
+  const keyword = `(?:${keywords.map(escapeRegExp).join('|')})\\w*`;
+  const isYear = /year/i.test(key);
+  const number = isYear ? String.raw`\b(1[89]\d\d|20\d\d)\b()` : NUMBER;
+  // Words in between are separated by spaces only, so a match doesn't run
+  // into the next clause
+  const patterns = [
+    new RegExp(`${number}\\s+(?:[\\w-]+\\s+){0,2}?${keyword}`, 'gi'),
+    new RegExp(
+      `${keyword}(?:\\s*[:(]\\s*|\\s+(?:[\\w-]+\\s+){0,3}?)${number}`,
+      'gi',
+    ),
+  ];
+  // Citation markers are not figures
+  const plain = text.replace(/\[\d+\]/g, '');
+
+  return patterns.flatMap((pattern) =>
+    Array.from(plain.matchAll(pattern))
+      .map((match) => toFigure(match[1], match[2] || undefined))
+      .filter((value): value is number => value !== null),
+  );
+};
+
+const findFigures = (
+  text: string,
+  field: QuestionOutputField,
+  fxRates: Record<string, number>,
+): StructuredValue[] =>
+  field.type === 'money'
+    ? findMoneyAmounts(text, fxRates).map(({ text: _, ...money }) => money)
+    : findNumbers(text, field.key);
+
+interface Mention {
+  value: StructuredValue;
+  // 1-based like the answer's [n] markers, null when nothing is cited
+  source: number | null;
+}
+
+const splitSentences = (text: string) =>
+  text.split(/(?<=[.;!?])\s+|\n+/).filter((sentence) => sentence.trim());
+
+/**
+ * Gathers every figure for a field from the sources and the answer, groups
+ * the ones that are the same figure and picks the best supported group.
+ * Returns null when the sources give no figure for the field.
+ */
+export const reconcileField = (
+  field: QuestionOutputField,
+  extracted: StructuredValue,
+  answer: string,
+  sources: { title: string; url: string; snippet: string }[],
+  companyDomain: string,
+  fxRates: Record<string, number> = {},
+): FieldReconciliation | null => {
+  const mentions: Mention[] = [];
+
+  sources.forEach((source, index) => {
+    for (const value of findFigures(source.snippet, field, fxRates)) {
+      mentions.push({ value, source: index + 1 });
+    }
+  });
+
+  // The answer credits figures to sources with [n] markers in each sentence
+  for (const sentence of splitSentences(answer)) {
+    const cited = Array.from(sentence.matchAll(/\[(\d+)\]/g))
+      .map((match) => Number(match[1]))
+      .filter((index) => index >= 1 && index <= sources.length);
+
+    for (const value of findFigures(sentence, field, fxRates)) {
+      if (cited.length === 0) mentions.push({ value, source: null });
+      for (const source of cited) mentions.push({ value, source });
+    }
+  }
+
+  if (mentions.length === 0) return null;
+
+  // The extracted value leads its group, since it keeps the year the model
+  // quoted with it
+  const groups: { value: StructuredValue; mentions: Mention[] }[] = [
+    { value: extracted, mentions: [] },
+  ];
+
+  for (const mention of mentions) {
+    const group = groups.find((group) =>
+      isSameFigure(group.value, mention.value),
+    );
+    if (group) group.mentions.push(mention);
+    else groups.push({ value: mention.value, mentions: [mention] });
+  }
+
+  const candidates: FieldCandidate[] = groups
+    .map((group) => {
+      const indexes = Array.from(
+        new Set(
+          group.mentions
+            .map((mention) => mention.source)
+            .filter((source): source is number => source !== null),
+        ),
+      );
+      const candidateSources = indexes.map((index) => {
+        const source = sources[index - 1];
+        return {
+          title: source.title,
+          url: source.url,
+          kind: classifySource(source.url, companyDomain),
+        };
+      });
+      const uncited = group.mentions.some((mention) => mention.source === null);
+
+      return {
+        value: group.value,
+        weight:
+          Math.round(
+            (candidateSources.reduce(
+              (total, source) => total + SOURCE_WEIGHTS[source.kind],
+              0,
+            ) +
+              (uncited ? UNCITED_WEIGHT : 0)) *
+              100,
+          ) / 100,
+        sources: candidateSources,
+      };
+    })
+    .filter((candidate) => candidate.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  if (candidates.length === 0) return null;
+
+  const [pick, runnerUp] = candidates;
+
+  return {
+    value: pick.value,
+    candidates,
+    conflicting: !!runnerUp && runnerUp.weight >= CONFLICT_RATIO * pick.weight,
+  };
+};
+
+/**
+ * Reconciles the number and money values of one answer. Returns the answer
+ * with each value replaced by its pick, and the candidates behind each pick.
+ */
+export const reconcileStructuredAnswer = (
+  structured: StructuredAnswer,
+  fields: QuestionOutputField[],
+  answer: string,
+  sources: { title: string; url: string; snippet: string }[],
+  companyDomain: string,
+  fxRates: Record<string, number> = {},
+) => {
+  const values: StructuredAnswer = { ...structured };
+  const reconciliation: StructuredDataReconciliation = {};
+
+  for (const field of fields) {
+    const extracted = structured[field.key] ?? null;
+    if (
+      extracted === null ||
+      (field.type !== 'number' && field.type !== 'money')
+    ) {
+      continue;
+    }
+
+    const result = reconcileField(
+      field,
+      extracted,
+      answer,
+      sources,
+      companyDomain,
+      fxRates,
+    );
+    if (!result) continue;
+
+    values[field.key] = result.value;
+    reconciliation[field.key] = result;
+  }
+
+  return { structured: values, reconciliation };
+};
+
+// A value the user picked is as sure as a value can be
+const OVERRIDE_CONFIDENCE = (candidate: FieldCandidate): FieldConfidence => ({
+  status: 'found',
+  confidence: 1,
+  agreeingSources: candidate.sources.length,
+});
+
+export interface ReconciledData {
+  structuredData: StructuredAnswer | null;
+  structuredDataConfidence: StructuredDataConfidence | null;
+  structuredDataReconciliation: StructuredDataReconciliation | null;
+}
+
+/**
+ * Replaces the pick of a field with another of its candidates
+ */
+export const overrideField = <T extends ReconciledData>(
+  data: T,
+  field: string,
+  candidateIndex: number,
+): T => {
+  const reconciliation = data.structuredDataReconciliation?.[field];
+  const candidate = reconciliation?.candidates[candidateIndex];
+  if (!reconciliation || !candidate) {
+    throw new Error(`${field} has no candidate ${candidateIndex}`);
+  }
+
+  return {
+    ...data,
+    structuredData: { ...data.structuredData, [field]: candidate.value },
+    structuredDataConfidence: {
+      ...data.structuredDataConfidence,
+      [field]: OVERRIDE_CONFIDENCE(candidate),
+    },
+    structuredDataReconciliation: {
+      ...data.structuredDataReconciliation,
+      [field]: { ...reconciliation, value: candidate.value, overridden: true },
+    },
+  };
+};
+
+/**
+ * Keeps the picks a user overrode in an earlier run, as long as the new run
+ * still found the same figure
+ */
+export const carryOverrides = <T extends ReconciledData>(
+  previous: ReconciledData,
+  current: T,
+): T =>
+  Object.entries(previous.structuredDataReconciliation ?? {})
+    .filter(([, reconciliation]) => reconciliation.overridden)
+    .reduce((data, [field, reconciliation]) => {
+      const candidateIndex =
+        data.structuredDataReconciliation?.[field]?.candidates.findIndex(
+          (candidate) => isSameFigure(candidate.value, reconciliation.value),
+        ) ?? -1;
+
+      return candidateIndex === -1
+        ? data
+        : overrideField(data, field, candidateIndex);
+    }, current);
@@ -0,0 +1,198 @@
+export type EnrichmentErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'provider_down'
+  | 'searxng_empty'
+  | 'parse_failure'
+  | 'unknown';
+
+export type QuestionStatus = 'answered' | 'failed';
+
+export interface QuestionError {
+  kind: EnrichmentErrorKind;
+  message: string;
+}
+
+/**
+ * An error whose kind is known where it is thrown, e.g. a search that found
+ * nothing. `attempts` is set once retrying gave up.
+ */
+export class EnrichmentError extends Error {
+  kind: EnrichmentErrorKind;
+  attempts: number;
+
+  constructor(kind: EnrichmentErrorKind, message: string, attempts = 1) {
+    super(message);
+    this.name = 'EnrichmentError';
+    this.kind = kind;
+    this.attempts = attempts;
+  }
+}
+
+interface RetryPolicy {
+  retry: boolean;
+  // Whether another model may do better
+  fallback: boolean;
+  // Scales the backoff, providers that rate limit need longer to recover
+  delayFactor: number;
+}
+
+const RETRY_POLICIES: Record<EnrichmentErrorKind, RetryPolicy> = {
+  rate_limit: { retry: true, fallback: true, delayFactor: 4 },
+  timeout: { retry: true, fallback: true, delayFactor: 1 },
+  provider_down: { retry: true, fallback: true, delayFactor: 2 },
+  // Another model searches the same SearxNG, a rephrased query may not
+  searxng_empty: { retry: true, fallback: false, delayFactor: 1 },
+  parse_failure: { retry: true, fallback: true, delayFactor: 0.5 },
+  // Bad requests and bugs fail the same way every time
+  unknown: { retry: false, fallback: false, delayFactor: 1 },
+};
+
+const getErrorText = (err: unknown) =>
+  err instanceof Error ? `${err.name}: ${err.message}` : String(err);
+
+/**
+ * Sorts an error into a kind the retry policy knows, from its type or from
+ * the status codes and messages providers use
+ */
+export const classifyError = (err: unknown): EnrichmentErrorKind => {
+  if (err instanceof EnrichmentError) return err.kind;
+
+  const text = getErrorText(err).toLowerCase();
+
+  if (
+    /\b429\b|rate.?limit|too many requests|quota|resource.?exhausted/.test(text)
+  ) {
+    return 'rate_limit';
+  }
+
+  if (/timeout|timed out|etimedout|aborterror|deadline exceeded/.test(text)) {
+    return 'timeout';
+  }
+
+  if (
+    /\b50[0-4]\b|econnrefused|econnreset|enotfound|eai_again|fetch failed|socket hang up|overloaded|unavailable|bad gateway/.test(
+      text,
+    )
+  ) {
+    return 'provider_down';
+  }
+
+  if (/json|unexpected token|unexpected end of/.test(text)) {
+    return 'parse_failure';
+  }
+
+  return 'unknown';
+};
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryEvent {
+  attempt: number;
+  kind: EnrichmentErrorKind;
+  error: string;
+  delayMs: number;
+  // The next attempt uses the fallback model
+  fallback: boolean;
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half
+ * random, so retries of parallel questions spread out
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  kind: EnrichmentErrorKind,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>,
+) => {
+  const delay = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * RETRY_POLICIES[kind].delayFactor * 2 ** (attempt - 1),
+  );
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `attempt` until it succeeds or its error is not worth retrying. When
+ * the primary model gives up and a fallback exists, the fallback model gets
+ * the same number of attempts. Throws an EnrichmentError with the kind of
+ * the last error and the number of attempts made.
+ */
+export const withRetry = async <T>(
+  attempt: (fallback: boolean) => Promise<T>,
+  options: RetryOptions & {
+    hasFallback?: boolean;
+    onRetry?: (event: RetryEvent) => void | Promise<void>;
+  },
+): Promise<{ value: T; attempts: number; fallback: boolean }> => {
+  const maxAttempts = Math.max(1, options.maxAttempts);
+  let attempts = 0;
+  let fallback = false;
+  // Attempts on the current model
+  let tries = 0;
+
+  while (true) {
+    attempts++;
+    tries++;
+
+    try {
+      return { value: await attempt(fallback), attempts, fallback };
+    } catch (err) {
+      const kind = classifyError(err);
+      const policy = RETRY_POLICIES[kind];
+      const error = err instanceof Error ? err.message : String(err);
+      const exhausted = !policy.retry || tries >= maxAttempts;
+
+      if (exhausted && !fallback && options.hasFallback && policy.fallback) {
+        fallback = true;
+        tries = 0;
+        await options.onRetry?.({
+          attempt: attempts,
+          kind,
+          error,
+          delayMs: 0,
+          fallback,
+        });
+        continue;
+      }
+
+      if (exhausted) throw new EnrichmentError(kind, error, attempts);
+
+      const delayMs = getBackoffDelay(tries, kind, options);
+      await options.onRetry?.({
+        attempt: attempts,
+        kind,
+        error,
+        delayMs,
+        fallback,
+      });
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Whether a question has an answer to score. Questions that failed every
+ * attempt have none; runs saved before statuses were recorded stored the
+ * error text as the answer.
+ */
+export const isAnsweredQuestion = (result: {
+  answer: string;
+  status?: QuestionStatus;
+}) => result.status !== 'failed' && !result.answer.startsWith('Error: ');
+
+/**
+ * Renders why a question has no answer, e.g. "Failed after 3 attempts: rate
+ * limit"
+ */
+export const formatQuestionError = (
+  error: QuestionError,
+  attempts: number = 1,
+) =>
+  `Failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${error.kind.replace('_', ' ')}`;
@@ -0,0 +1,242 @@
+import type {
+  RubricBand,
+  RubricCriterion,
+  RubricMoneyBand,
+} from '@/lib/db/schema';
+import type { FieldStatus } from './fieldConfidence';
+
+export type { RubricBand, RubricCriterion, RubricMoneyBand };
+
+export type RubricCriterionType = RubricCriterion['type'];
+
+export const CRITERION_TYPES: RubricCriterionType[] = [
+  'number',
+  'money',
+  'boolean',
+  'llm',
+];
+
+export interface Rubric {
+  // Built-in rubrics count down from 0, saved rubrics count up from 1
+  version: number;
+  criteria: RubricCriterion[];
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+  // Label of the band that matched, null when there was no data to score
+  band: string | null;
+  value: unknown;
+  // How sure the enrichment is of the value, "not_found" when it wasn't found
+  status?: FieldStatus;
+  reason?: string;
+}
+
+export interface ScoreBreakdown {
+  rubricVersion: number;
+  score: number;
+  maxScore: number;
+  criteria: CriterionScore[];
+}
+
+const LAKH = 100_000;
+const CRORE = 10_000_000;
+
+// What the first built-in rubric scored, 90 points of company criteria
+const COMPANY_CRITERIA: RubricCriterion[] = [
+  {
+    id: 'revenue',
+    label: 'Revenue',
+    type: 'money',
+    field: 'annualRevenue',
+    bands: [
+      {
+        label: '> ₹80Cr or $10M',
+        points: 20,
+        min: { USD: 10_000_000, INR: 80 * CRORE },
+      },
+      {
+        label: '₹8Cr–₹80Cr or $1M–$10M',
+        points: 15,
+        min: { USD: 1_000_000, INR: 8 * CRORE },
+        max: { USD: 10_000_000, INR: 80 * CRORE },
+      },
+      {
+        label: '₹80L–₹8Cr or $100k–$1M',
+        points: 10,
+        min: { USD: 100_000, INR: 80 * LAKH },
+        max: { USD: 1_000_000, INR: 8 * CRORE },
+      },
+      {
+        label: '< ₹80L or < $100k',
+        points: 5,
+        max: { USD: 100_000, INR: 80 * LAKH },
+      },
+    ],
+  },
+  {
+    id: 'employees',
+    label: 'Employee Size',
+    type: 'number',
+    field: 'employeeCount',
+    bands: [
+      { label: '> 200', points: 10, min: 201 },
+      { label: '51–200', points: 7, min: 51, max: 201 },
+      { label: '11–50', points: 5, min: 11, max: 51 },
+      { label: '≤ 10', points: 2, max: 11 },
+    ],
+  },
+  {
+    id: 'years_in_business',
+    label: 'Years in Business',
+    type: 'number',
+    field: 'yearsInBusiness',
+    bands: [
+      { label: '> 10 years', points: 10, min: 11 },
+      { label: '5–10 years', points: 7, min: 5, max: 11 },
+      { label: '< 5 years', points: 4, max: 5 },
+    ],
+  },
+  {
+    id: 'funding',
+    label: 'Funding',
+    type: 'money',
+    field: 'latestFundingAmount',
+    bands: [
+      {
+        label: '> $5M or ₹40Cr',
+        points: 15,
+        min: { USD: 5_000_000, INR: 40 * CRORE },
+      },
+      {
+        label: '< $5M or ₹40Cr',
+        points: 10,
+        max: { USD: 5_000_000, INR: 40 * CRORE },
+      },
+    ],
+  },
+  {
+    id: 'fortune_500',
+    label: 'Fortune 500 Presence',
+    type: 'boolean',
+    field: 'fortune500',
+    truePoints: 10,
+    falsePoints: 0,
+  },
+  {
+    id: 'fortune_100',
+    label: 'Fortune 100 Presence',
+    type: 'boolean',
+    field: 'fortune100',
+    truePoints: 10,
+    falsePoints: 0,
+  },
+  {
+    id: 'clients',
+    label: 'Clients / Logos / Big Accounts',
+    type: 'llm',
+    questionIds: ['clients'],
+    instructions:
+      'Judge how established the clients, customers and partners named for the company are.',
+    bands: [
+      { label: 'Enterprise Clients or Well-known Brands', points: 15 },
+      { label: 'Multiple Mid-size Clients', points: 10 },
+      { label: 'Mostly Small Businesses', points: 5 },
+    ],
+  },
+];
+
+// The level of the person behind the email, see SENIORITY_LEVELS
+const SENIORITY_CRITERION: RubricCriterion = {
+  id: 'seniority',
+  label: 'Contact Seniority',
+  type: 'number',
+  field: 'seniorityLevel',
+  bands: [
+    { label: 'C-suite or Founder', points: 10, min: 6 },
+    { label: 'VP', points: 8, min: 5, max: 6 },
+    { label: 'Director', points: 6, min: 4, max: 5 },
+    { label: 'Manager', points: 4, min: 3, max: 4 },
+    { label: 'Individual Contributor', points: 2, max: 3 },
+  ],
+};
+
+/**
+ * Every built-in rubric, newest first. The built-in rubric changes by adding a
+ * version here, so scores still name the rubric that produced them.
+ */
+export const BUILT_IN_RUBRICS: Rubric[] = [
+  // Adds the seniority of the contact, for 100 points
+  { version: -1, criteria: [...COMPANY_CRITERIA, SENIORITY_CRITERION] },
+  { version: 0, criteria: COMPANY_CRITERIA },
+];
+
+/**
+ * The 100 point rubric used until a rubric is saved in settings
+ */
+export const DEFAULT_RUBRIC: Rubric = BUILT_IN_RUBRICS[0];
+
+/**
+ * Names a rubric version, e.g. "v3" or "built-in v2"
+ */
+export const formatRubricVersion = (version: number) =>
+  version > 0 ? `v${version}` : `built-in v${1 - version}`;
+
+export const getCriterionMaxPoints = (criterion: RubricCriterion) =>
+  criterion.type === 'boolean'
+    ? Math.max(criterion.truePoints, criterion.falsePoints)
+    : Math.max(0, ...criterion.bands.map((band) => band.points));
+
+export const getRubricMaxScore = (rubric: Rubric) =>
+  rubric.criteria.reduce(
+    (total, criterion) => total + getCriterionMaxPoints(criterion),
+    0,
+  );
+
+/**
+ * Describes the rubric as bullet points, for prompts that score with an LLM
+ */
+export const formatRubricForPrompt = (rubric: Rubric) =>
+  rubric.criteria
+    .map((criterion) => {
+      const bands =
+        criterion.type === 'boolean'
+          ? [
+              `Yes → ${criterion.truePoints} pts`,
+              `No → ${criterion.falsePoints} pts`,
+            ]
+          : criterion.bands.map((band) => `${band.label} → ${band.points} pts`);
+
+      return [
+        `🔸 ${criterion.label} (out of ${getCriterionMaxPoints(criterion)})`,
+        ...bands.map((band) => `  • ${band}`),
+        `  • Not found → ${criterion.notFoundPoints ?? 0} pts`,
+      ].join('\n');
+    })
+    .join('\n\n');
+
+/**
+ * The band a criterion matched, noting values that were inferred or disputed
+ */
+export const formatCriterionBand = (criterion: CriterionScore) => {
+  if (criterion.status === 'not_found') return 'Not found';
+  if (criterion.band === null) return 'No data';
+  return criterion.status === 'inferred' || criterion.status === 'conflicting'
+    ? `${criterion.band}, ${criterion.status}`
+    : criterion.band;
+};
+
+/**
+ * Renders a breakdown as "Label: points/max (band)" lines
+ */
+export const formatScoreBreakdown = (breakdown: ScoreBreakdown) =>
+  [
+    ...breakdown.criteria.map(
+      (criterion) =>
+        `${criterion.label}: ${criterion.points}/${criterion.maxPoints} (${formatCriterionBand(criterion)})`,
+    ),
+    `Total Score: ${breakdown.score}/${breakdown.maxScore}`,
+  ].join('\n');
@@ -0,0 +1,148 @@
+import { desc, eq } from 'drizzle-orm';
+import db from '@/lib/db';
+import { RubricCriterion, rubrics } from '@/lib/db/schema';
+import { CRITERION_TYPES, DEFAULT_RUBRIC, Rubric } from './rubric';
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+const isCurrencyBounds = (value: unknown) =>
+  value === undefined ||
+  (typeof value === 'object' &&
+    value !== null &&
+    Object.entries(value).every(
+      ([currency, amount]) =>
+        /^[A-Z]{3}$/.test(currency) &&
+        typeof amount === 'number' &&
+        Number.isFinite(amount),
+    ));
+
+/**
+ * Returns an error message if the input is not a valid list of criteria
+ */
+export const validateRubric = (body: any): string | undefined => {
+  if (!body || typeof body !== 'object') return 'Request body is required';
+
+  if (!Array.isArray(body.criteria) || body.criteria.length === 0) {
+    return 'criteria must be a non-empty array';
+  }
+
+  const ids = new Set<string>();
+
+  for (const [index, criterion] of body.criteria.entries()) {
+    if (typeof criterion?.id !== 'string' || !criterion.id.trim()) {
+      return `criteria[${index}].id is required`;
+    }
+
+    if (ids.has(criterion.id)) {
+      return `Duplicate criterion id: ${criterion.id}`;
+    }
+    ids.add(criterion.id);
+
+    if (typeof criterion.label !== 'string' || !criterion.label.trim()) {
+      return `criteria[${index}].label is required`;
+    }
+
+    if (!isOptionalNumber(criterion.notFoundPoints)) {
+      return `criteria[${index}].notFoundPoints must be a number`;
+    }
+
+    if (!CRITERION_TYPES.includes(criterion.type)) {
+      return `criteria[${index}].type must be one of: ${CRITERION_TYPES.join(', ')}`;
+    }
+
+    if (criterion.type === 'llm') {
+      if (
+        !Array.isArray(criterion.questionIds) ||
+        criterion.questionIds.some((id: unknown) => typeof id !== 'string')
+      ) {
+        return `criteria[${index}].questionIds must be an array of question ids`;
+      }
+    } else if (typeof criterion.field !== 'string' || !criterion.field.trim()) {
+      return `criteria[${index}].field is required`;
+    }
+
+    if (criterion.type === 'boolean') {
+      if (
+        typeof criterion.truePoints !== 'number' ||
+        typeof criterion.falsePoints !== 'number'
+      ) {
+        return `criteria[${index}].truePoints and falsePoints must be numbers`;
+      }
+      continue;
+    }
+
+    if (!Array.isArray(criterion.bands) || criterion.bands.length === 0) {
+      return `criteria[${index}].bands must be a non-empty array`;
+    }
+
+    for (const band of criterion.bands) {
+      if (typeof band?.label !== 'string' || !band.label.trim()) {
+        return `criteria[${index}].bands need a label`;
+      }
+
+      if (typeof band.points !== 'number' || !Number.isFinite(band.points)) {
+        return `criteria[${index}].bands.${band.label} points must be a number`;
+      }
+
+      const boundsValid =
+        criterion.type === 'money'
+          ? isCurrencyBounds(band.min) && isCurrencyBounds(band.max)
+          : isOptionalNumber(band.min) && isOptionalNumber(band.max);
+
+      if (criterion.type !== 'llm' && !boundsValid) {
+        return criterion.type === 'money'
+          ? `criteria[${index}].bands.${band.label} bounds must map currency codes to amounts`
+          : `criteria[${index}].bands.${band.label} bounds must be numbers`;
+      }
+    }
+  }
+};
+
+const toCriteria = (criteria: RubricCriterion[]): RubricCriterion[] =>
+  criteria.map((criterion) => ({
+    ...criterion,
+    id: criterion.id.trim(),
+    label: criterion.label.trim(),
+  }));
+
+export const listRubrics = async () => {
+  return db.query.rubrics.findMany({
+    orderBy: desc(rubrics.version),
+  });
+};
+
+export const getRubric = async (version: number) => {
+  return db.query.rubrics.findFirst({
+    where: eq(rubrics.version, version),
+  });
+};
+
+/**
+ * Rubrics are never edited in place: every save adds a version, so scores
+ * can always be traced back to the rubric that produced them
+ */
+export const createRubricVersion = async (criteria: RubricCriterion[]) => {
+  const [rubric] = await db
+    .insert(rubrics)
+    .values({
+      criteria: toCriteria(criteria),
+      createdAt: new Date().toISOString(),
+    })
+    .returning();
+
+  return rubric;
+};
+
+/**
+ * The latest saved rubric, or the built-in one if none has been saved
+ */
+export const getActiveRubric = async (): Promise<Rubric> => {
+  const rubric = await db.query.rubrics.findFirst({
+    orderBy: desc(rubrics.version),
+  });
+
+  return rubric
+    ? { version: rubric.version, criteria: rubric.criteria }
+    : DEFAULT_RUBRIC;
+};
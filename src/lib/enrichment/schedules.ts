@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { and, asc, desc, eq, lte } from 'drizzle-orm';
+import db from '@/lib/db';
+import { enrichmentScheduleRuns, enrichmentSchedules } from '@/lib/db/schema';
+import { getNextCronRun, validateCron } from './cron';
+import { createEnrichmentJob, getEnrichmentJob } from './jobs';
+import { findUnenrichedLeadEmails } from './leadAttributes';
+import { findLeads } from './leadHistory';
+import { getQuestionSet } from './questionSets';
+
+export type ScheduleAction = 'reenrich' | 'score';
+
+export const SCHEDULE_ACTIONS: ScheduleAction[] = ['reenrich', 'score'];
+
+export interface ScheduleInput {
+  name: string;
+  cron: string;
+  action: ScheduleAction;
+  minScore?: number | null;
+  savedWithinHours?: number | null;
+  questionSetId?: string | null;
+  enabled?: boolean;
+}
+
+type SchedulerState = {
+  started: boolean;
+  busy: boolean;
+  timer?: NodeJS.Timeout;
+};
+
+// Kept on globalThis so hot reloads in development don't start a second timer
+const globalForSchedules = globalThis as unknown as {
+  enrichmentScheduler?: SchedulerState;
+};
+
+const schedulerState: SchedulerState =
+  (globalForSchedules.enrichmentScheduler ??= {
+    started: false,
+    busy: false,
+  });
+
+// Cron has minute resolution
+const TICK_INTERVAL_MS = 60 * 1000;
+const RUN_LOG_LIMIT = 20;
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * Returns an error message if the input is not a valid schedule
+ */
+export const validateSchedule = async (
+  body: any,
+): Promise<string | undefined> => {
+  if (!body || typeof body !== 'object') return 'Request body is required';
+
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name is required';
+  }
+
+  const cronError = validateCron(body.cron);
+  if (cronError) return cronError;
+
+  if (!getNextCronRun(body.cron)) {
+    return 'The cron expression never matches a date';
+  }
+
+  if (!SCHEDULE_ACTIONS.includes(body.action)) {
+    return `action must be one of: ${SCHEDULE_ACTIONS.join(', ')}`;
+  }
+
+  if (!isOptionalNumber(body.minScore)) {
+    return 'minScore must be a non-negative number';
+  }
+
+  if (!isOptionalNumber(body.savedWithinHours)) {
+    return 'savedWithinHours must be a non-negative number';
+  }
+
+  if (body.questionSetId) {
+    if (typeof body.questionSetId !== 'string') {
+      return 'questionSetId must be a string';
+    }
+    if (!(await getQuestionSet(body.questionSetId))) {
+      return `Question set ${body.questionSetId} not found`;
+    }
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+};
+
+const toScheduleValues = (input: ScheduleInput) => ({
+  name: input.name.trim(),
+  cron: input.cron.trim(),
+  action: input.action,
+  minScore: input.minScore ?? null,
+  savedWithinHours: input.savedWithinHours ?? null,
+  questionSetId: input.questionSetId || null,
+  enabled: input.enabled ?? true,
+  nextRunAt: getNextCronRun(input.cron)?.toISOString() ?? null,
+});
+
+export const listSchedules = async () => {
+  return db.query.enrichmentSchedules.findMany({
+    orderBy: asc(enrichmentSchedules.createdAt),
+  });
+};
+
+export const getSchedule = async (id: string) => {
+  return db.query.enrichmentSchedules.findFirst({
+    where: eq(enrichmentSchedules.id, id),
+  });
+};
+
+export const createSchedule = async (input: ScheduleInput) => {
+  const id = crypto.randomBytes(12).toString('hex');
+  const now = new Date().toISOString();
+
+  await db
+    .insert(enrichmentSchedules)
+    .values({
+      id,
+      ...toScheduleValues(input),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .execute();
+
+  return (await getSchedule(id))!;
+};
+
+export const updateSchedule = async (id: string, input: ScheduleInput) => {
+  await db
+    .update(enrichmentSchedules)
+    .set({
+      ...toScheduleValues(input),
+      updatedAt: new Date().toISOString(),
+    })
+    .where(eq(enrichmentSchedules.id, id))
+    .execute();
+
+  return getSchedule(id);
+};
+
+export const deleteSchedule = async (id: string) => {
+  await db
+    .delete(enrichmentScheduleRuns)
+    .where(eq(enrichmentScheduleRuns.scheduleId, id))
+    .execute();
+  await db
+    .delete(enrichmentSchedules)
+    .where(eq(enrichmentSchedules.id, id))
+    .execute();
+};
+
+/**
+ * The latest runs of a schedule with the status of the job each one queued
+ */
+export const listScheduleRuns = async (scheduleId: string) => {
+  const runs = await db.query.enrichmentScheduleRuns.findMany({
+    where: eq(enrichmentScheduleRuns.scheduleId, scheduleId),
+    orderBy: desc(enrichmentScheduleRuns.id),
+    limit: RUN_LOG_LIMIT,
+  });
+
+  return Promise.all(
+    runs.map(async (run) => {
+      const job = run.jobId ? await getEnrichmentJob(run.jobId) : undefined;
+
+      return {
+        id: run.id,
+        startedAt: run.startedAt,
+        leadCount: run.leadCount,
+        error: run.error ?? undefined,
+        jobId: run.jobId,
+        status: job?.status ?? (run.error ? 'failed' : 'completed'),
+        completedAt: job?.completedAt ?? null,
+        progress: job?.progress,
+      };
+    }),
+  );
+};
+
+/**
+ * Picks the leads that match a schedule and queues a job for them. Re-enriched
+ * leads are saved as new versions, scored ones have their latest score
+ * replaced.
+ */
+export const runSchedule = async (
+  schedule: typeof enrichmentSchedules.$inferSelect,
+) => {
+  const startedAt = new Date();
+  let jobId: string | null = null;
+  let leadCount = 0;
+  let error: string | null = null;
+
+  try {
+    const leads = await findLeads({
+      minScore: schedule.minScore,
+      savedWithinHours: schedule.savedWithinHours,
+    });
+    // Imported leads have no run or score yet, so they can't be above a
+    // minimum score
+    const imported =
+      typeof schedule.minScore === 'number'
+        ? []
+        : await findUnenrichedLeadEmails(schedule.savedWithinHours);
+
+    const emails = [...leads.map((lead) => lead.email), ...imported];
+    leadCount = emails.length;
+
+    if (emails.length > 0) {
+      jobId = await createEnrichmentJob({
+        emails,
+        questionSetId: schedule.questionSetId ?? undefined,
+        forceRefresh: schedule.action === 'reenrich',
+        // Scoring runs apply the rubric to the saved answers again, and
+        // enrich the imported leads that have no answers yet
+        rescore: schedule.action === 'score',
+        enrichUnsaved: schedule.action === 'score',
+      });
+    }
+  } catch (err) {
+    console.error(`Error running schedule ${schedule.name}:`, err);
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await db
+    .insert(enrichmentScheduleRuns)
+    .values({
+      scheduleId: schedule.id,
+      jobId,
+      leadCount,
+      error,
+      startedAt: startedAt.toISOString(),
+    })
+    .execute();
+
+  await db
+    .update(enrichmentSchedules)
+    .set({
+      lastRunAt: startedAt.toISOString(),
+      nextRunAt:
+        getNextCronRun(schedule.cron, startedAt)?.toISOString() ?? null,
+    })
+    .where(eq(enrichmentSchedules.id, schedule.id))
+    .execute();
+
+  return { jobId, leadCount, error };
+};
+
+const runDueSchedules = async () => {
+  if (schedulerState.busy) return;
+  schedulerState.busy = true;
+
+  try {
+    // Schedules missed while the server was down run once when it is back
+    const due = await db.query.enrichmentSchedules.findMany({
+      where: and(
+        eq(enrichmentSchedules.enabled, true),
+        lte(enrichmentSchedules.nextRunAt, new Date().toISOString()),
+      ),
+    });
+
+    for (const schedule of due) {
+      await runSchedule(schedule);
+    }
+  } finally {
+    schedulerState.busy = false;
+  }
+};
+
+const tick = () => {
+  runDueSchedules().catch((err) =>
+    console.error('Error in enrichment scheduler:', err),
+  );
+};
+
+/**
+ * Starts the in-process scheduler once. It checks for due schedules every
+ * minute, so no external cron service is needed.
+ */
+export const ensureEnrichmentScheduler = () => {
+  if (!schedulerState.started) {
+    schedulerState.started = true;
+    schedulerState.timer = setInterval(tick, TICK_INTERVAL_MS);
+    console.log('Lead enrichment scheduler started');
+  }
+
+  tick();
+};
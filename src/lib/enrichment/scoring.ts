@@ -0,0 +1,362 @@
+import { getFxRates } from '@/lib/config';
+import type { RubricCriterion, RubricMoneyBand } from '@/lib/db/schema';
+import type {
+  FieldConfidence,
+  StructuredDataConfidence,
+} from './fieldConfidence';
+import { generateText, ResolvedChatModel } from './models';
+import { formatMoney, NormalizedMoney, toUsd } from './money';
+import { isAnsweredQuestion, QuestionStatus } from './retry';
+import {
+  CriterionScore,
+  getCriterionMaxPoints,
+  getRubricMaxScore,
+  Rubric,
+  ScoreBreakdown,
+} from './rubric';
+import type { StructuredAnswer, StructuredValue } from './structuredAnswers';
+
+type LLMCriterion = Extract<RubricCriterion, { type: 'llm' }>;
+
+interface AnsweredQuestion {
+  questionId?: string;
+  question: string;
+  answer: string;
+  status?: QuestionStatus;
+}
+
+interface LLMJudgement {
+  band: string | null;
+  reason?: string;
+}
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value < max);
+
+const hasBounds = (band: RubricMoneyBand, currency: string) =>
+  band.min?.[currency] !== undefined || band.max?.[currency] !== undefined;
+
+/**
+ * Finds the money band for an amount. Bands are compared in the amount's own
+ * currency when the rubric has thresholds for it, otherwise the USD equivalent
+ * is compared against the USD thresholds.
+ */
+const findMoneyBand = (bands: RubricMoneyBand[], money: NormalizedMoney) => {
+  const matchIn = (currency: string, amount: number) =>
+    bands.find(
+      (band) =>
+        // A band without any bounds matches every amount
+        (!band.min && !band.max) ||
+        (hasBounds(band, currency) &&
+          inRange(amount, band.min?.[currency], band.max?.[currency])),
+    );
+
+  if (bands.some((band) => hasBounds(band, money.currency))) {
+    return matchIn(money.currency, money.amount);
+  }
+
+  const usdEquivalent =
+    money.usdEquivalent ?? toUsd(money.amount, money.currency, getFxRates());
+  return usdEquivalent === null ? undefined : matchIn('USD', usdEquivalent);
+};
+
+/**
+ * Reads a field from the lead's structured data. Years in business falls back
+ * to the founding year, which is what answers state most of the time.
+ */
+const getFieldValue = (structuredData: StructuredAnswer, field: string) => {
+  const value = structuredData[field] ?? null;
+
+  if (
+    value === null &&
+    field === 'yearsInBusiness' &&
+    typeof structuredData.foundedYear === 'number'
+  ) {
+    return new Date().getFullYear() - structuredData.foundedYear;
+  }
+
+  return value;
+};
+
+const getFieldConfidence = (
+  structuredData: StructuredAnswer,
+  confidence: StructuredDataConfidence,
+  field: string,
+): FieldConfidence | undefined =>
+  field === 'yearsInBusiness' && (structuredData[field] ?? null) === null
+    ? confidence.foundedYear
+    : confidence[field];
+
+const noData = (
+  criterion: RubricCriterion,
+  value: unknown = null,
+): CriterionScore => ({
+  criterionId: criterion.id,
+  label: criterion.label,
+  points: 0,
+  maxPoints: getCriterionMaxPoints(criterion),
+  band: null,
+  value,
+});
+
+/**
+ * Scores a value the answers say they could not find, so "I could not find
+ * revenue data" is never read as a fact
+ */
+const notFound = (
+  criterion: RubricCriterion,
+  value: unknown = null,
+): CriterionScore => ({
+  ...noData(criterion, value),
+  points: criterion.notFoundPoints ?? 0,
+  status: 'not_found',
+});
+
+const scoreFieldValue = (
+  criterion: Exclude<RubricCriterion, LLMCriterion>,
+  value: StructuredValue,
+  maxPoints: number,
+): CriterionScore => {
+  switch (criterion.type) {
+    case 'boolean': {
+      if (typeof value !== 'boolean') return noData(criterion, value);
+      return {
+        criterionId: criterion.id,
+        label: criterion.label,
+        points: value ? criterion.truePoints : criterion.falsePoints,
+        maxPoints,
+        band: value ? 'Yes' : 'No',
+        value,
+      };
+    }
+    case 'number': {
+      if (typeof value !== 'number') return noData(criterion, value);
+      const band = criterion.bands.find((band) =>
+        inRange(value, band.min, band.max),
+      );
+      return {
+        criterionId: criterion.id,
+        label: criterion.label,
+        points: band?.points ?? 0,
+        maxPoints,
+        band: band?.label ?? null,
+        value,
+      };
+    }
+    case 'money': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return noData(criterion, value);
+      }
+      const money = value as NormalizedMoney;
+      const band = findMoneyBand(criterion.bands, money);
+
+      return {
+        criterionId: criterion.id,
+        label: criterion.label,
+        points: band?.points ?? 0,
+        maxPoints,
+        band: band?.label ?? null,
+        value,
+        reason: band ? undefined : `No band matches ${formatMoney(money)}`,
+      };
+    }
+  }
+};
+
+/**
+ * Scores a criterion that is computed from a structured value
+ */
+const scoreFieldCriterion = (
+  criterion: Exclude<RubricCriterion, LLMCriterion>,
+  structuredData: StructuredAnswer,
+  confidence: StructuredDataConfidence,
+): CriterionScore => {
+  const value = getFieldValue(structuredData, criterion.field);
+  const maxPoints = getCriterionMaxPoints(criterion);
+  const fieldConfidence = getFieldConfidence(
+    structuredData,
+    confidence,
+    criterion.field,
+  );
+
+  if (fieldConfidence?.status === 'not_found') {
+    return notFound(criterion, value);
+  }
+  if (value === null) return noData(criterion);
+
+  const score = scoreFieldValue(criterion, value, maxPoints);
+  return fieldConfidence ? { ...score, status: fieldConfidence.status } : score;
+};
+
+const buildJudgementPrompt = (
+  criteria: LLMCriterion[],
+  results: AnsweredQuestion[],
+) => {
+  // Failed questions are no evidence either way
+  const answered = results.filter(isAnsweredQuestion);
+
+  const evidenceFor = (criterion: LLMCriterion) => {
+    const relevant =
+      criterion.questionIds.length > 0
+        ? answered.filter(
+            (result) =>
+              result.questionId &&
+              criterion.questionIds.includes(result.questionId),
+          )
+        : answered;
+
+    return (
+      relevant
+        .map((result) => `Q: ${result.question}\nA: ${result.answer}`)
+        .join('\n') || 'No answers available.'
+    );
+  };
+
+  return `
+You are a lead scoring assistant. For each criterion below, pick the one band that best fits the evidence. Use null if the evidence does not say anything about the criterion. Do not guess.
+
+${criteria
+  .map(
+    (criterion) => `Criterion "${criterion.id}": ${criterion.label}
+${criterion.instructions}
+Bands:
+${criterion.bands.map((band) => `- "${band.label}"`).join('\n')}
+Evidence:
+${evidenceFor(criterion)}`,
+  )
+  .join('\n\n')}
+
+Return ONLY a JSON object with one key per criterion id, like:
+{"${criteria[0].id}": {"band": "<band label or null>", "reason": "<one short sentence>"}}
+`;
+};
+
+const parseJudgements = (text: string): Record<string, LLMJudgement> => {
+  try {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (json) return JSON.parse(json[0]);
+  } catch (err) {
+    console.error('Error parsing rubric judgement JSON:', err, text);
+  }
+  return {};
+};
+
+/**
+ * Scores the fuzzy criteria with a single LLM call. The model only chooses a
+ * band; the points come from the rubric.
+ */
+const scoreLLMCriteria = async (
+  model: ResolvedChatModel,
+  criteria: LLMCriterion[],
+  results: AnsweredQuestion[],
+): Promise<Record<string, CriterionScore>> => {
+  if (criteria.length === 0) return {};
+
+  const judgements = parseJudgements(
+    await generateText(model, buildJudgementPrompt(criteria, results)),
+  );
+
+  return Object.fromEntries(
+    criteria.map((criterion) => {
+      const judgement = judgements[criterion.id];
+      const band = criterion.bands.find(
+        (band) =>
+          typeof judgement?.band === 'string' &&
+          band.label.toLowerCase() === judgement.band.trim().toLowerCase(),
+      );
+
+      // The model answered, but the evidence says nothing about the criterion
+      if (judgement && judgement.band === null) {
+        return [
+          criterion.id,
+          {
+            ...notFound(criterion),
+            reason:
+              typeof judgement.reason === 'string'
+                ? judgement.reason
+                : undefined,
+          },
+        ];
+      }
+
+      return [
+        criterion.id,
+        {
+          criterionId: criterion.id,
+          label: criterion.label,
+          points: band?.points ?? 0,
+          maxPoints: getCriterionMaxPoints(criterion),
+          band: band?.label ?? null,
+          value: judgement?.band ?? null,
+          reason:
+            typeof judgement?.reason === 'string'
+              ? judgement.reason
+              : undefined,
+        },
+      ];
+    }),
+  );
+};
+
+/**
+ * Scores a lead against a rubric. Sub-scores and the total are computed here
+ * from the structured answers; the model is only asked about llm criteria.
+ * Judgements in `previous` are reused when it was scored with the same rubric
+ * version, e.g. when only the contact person differs.
+ */
+export const scoreLead = async (
+  model: ResolvedChatModel,
+  rubric: Rubric,
+  lead: {
+    results: AnsweredQuestion[];
+    structuredData: StructuredAnswer;
+    structuredDataConfidence?: StructuredDataConfidence;
+  },
+  previous?: ScoreBreakdown,
+): Promise<ScoreBreakdown> => {
+  const llmCriteria = rubric.criteria.filter(
+    (criterion): criterion is LLMCriterion => criterion.type === 'llm',
+  );
+
+  let llmScores: Record<string, CriterionScore> = {};
+
+  if (previous?.rubricVersion === rubric.version) {
+    llmScores = Object.fromEntries(
+      previous.criteria
+        .filter((score) =>
+          llmCriteria.some((criterion) => criterion.id === score.criterionId),
+        )
+        .map((score) => [score.criterionId, score]),
+    );
+  }
+
+  try {
+    const unjudged = llmCriteria.filter(
+      (criterion) => !llmScores[criterion.id],
+    );
+    Object.assign(
+      llmScores,
+      await scoreLLMCriteria(model, unjudged, lead.results),
+    );
+  } catch (error) {
+    // The deterministic criteria still give a usable score
+    console.error('Error scoring rubric criteria with LLM:', error);
+  }
+
+  const criteria = rubric.criteria.map((criterion) =>
+    criterion.type === 'llm'
+      ? (llmScores[criterion.id] ?? noData(criterion))
+      : scoreFieldCriterion(
+          criterion,
+          lead.structuredData,
+          lead.structuredDataConfidence ?? {},
+        ),
+  );
+
+  return {
+    rubricVersion: rubric.version,
+    score: criteria.reduce((total, criterion) => total + criterion.points, 0),
+    maxScore: getRubricMaxScore(rubric),
+    criteria,
+  };
+};
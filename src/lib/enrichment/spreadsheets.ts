@@ -0,0 +1,252 @@
+import zlib from 'zlib';
+
+// No part of a workbook we read is allowed to unpack to more than this, so a
+// small zip can't expand into gigabytes of XML
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter used most in the first line outside quotes, since files
+ * saved with a non-English locale often use semicolons
+ */
+const guessDelimiter = (text: string) => {
+  const counts = new Map(CSV_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  return [...counts].reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best,
+  )[0];
+};
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180: quoted cells may
+ * hold delimiters, line breaks and doubled quotes
+ */
+export const readCsv = (text: string): string[][] => {
+  const delimiter = guessDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+};
+
+/**
+ * The files in a zip archive by name, unpacked when read
+ */
+const readZip = (data: Buffer) => {
+  // The end of central directory record is at most 64 KB from the end, after
+  // the archive comment
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65_557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error('it is not an XLSX file');
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 workbooks are not supported');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('its zip directory is damaged');
+    }
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (size > MAX_ENTRY_BYTES) throw new Error(`${name} is too large`);
+
+      // Names and extra fields in the local header can differ in length from
+      // the ones in the directory
+      const start =
+        localOffset +
+        30 +
+        data.readUInt16LE(localOffset + 26) +
+        data.readUInt16LE(localOffset + 28);
+      const content = data.subarray(start, start + compressedSize);
+
+      if (method === 0) return content;
+      if (method === 8) {
+        return zlib.inflateRawSync(content, {
+          maxOutputLength: MAX_ENTRY_BYTES,
+        });
+      }
+      throw new Error(`${name} uses an unsupported compression method`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|quot|apos|amp);/g, (_, entity) => {
+      if (entity[0] !== '#') {
+        return { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }[
+          entity as string
+        ]!;
+      }
+      const code =
+        entity[1] === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    })
+    // Excel escapes control characters as _x000D_
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, code) =>
+      String.fromCharCode(parseInt(code, 16)),
+    );
+
+const getAttribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+/**
+ * The text of the <t> elements in a shared or inline string, leaving out the
+ * phonetic guides of East Asian text
+ */
+const readStringItem = (xml: string) =>
+  decodeXml(
+    [
+      ...xml
+        .replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '')
+        .matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g),
+    ]
+      .map((match) => match[1])
+      .join(''),
+  );
+
+// "BC12" is column 55
+const getColumnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? '';
+  let index = 0;
+  for (const letter of letters) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+/**
+ * Reads the first sheet of an XLSX workbook into rows of cells. Cells hold
+ * the value Excel stores rather than the text it shows, so numbers are
+ * unformatted and dates are serial numbers.
+ */
+export const readXlsx = (data: Buffer): string[][] => {
+  const entries = readZip(data);
+  const readEntry = (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) throw new Error(`it has no ${name}`);
+    return entry().toString('utf8');
+  };
+
+  // The first sheet in the workbook is not always sheet1.xml
+  const sheetTag = readEntry('xl/workbook.xml').match(
+    /<(?:\w+:)?sheet\s[^>]*>/,
+  );
+  const relationId = sheetTag?.[0].match(/\s\w+:id="([^"]*)"/)?.[1];
+  if (!relationId) throw new Error('it has no sheets');
+
+  const relation = [
+    ...readEntry('xl/_rels/workbook.xml.rels').matchAll(
+      /<(?:\w+:)?Relationship\s([^>]*)>/g,
+    ),
+  ].find((match) => getAttribute(match[1], 'Id') === relationId);
+  const target = relation && getAttribute(relation[1], 'Target');
+  if (!target) throw new Error('its first sheet is missing');
+
+  const sheetPath = target.startsWith('/')
+    ? target.slice(1)
+    : `xl/${target.replace(/^\.\//, '')}`;
+
+  const sharedStrings = entries.has('xl/sharedStrings.xml')
+    ? [
+        ...readEntry('xl/sharedStrings.xml').matchAll(
+          /<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g,
+        ),
+      ].map((match) => readStringItem(match[1]))
+    : [];
+
+  // Blank rows are left out of the sheet, as the importer would drop them
+  const rows: string[][] = [];
+
+  for (const row of readEntry(sheetPath).matchAll(
+    /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g,
+  )) {
+    const cells: string[] = [];
+
+    for (const cell of (row[2] ?? '').matchAll(
+      /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g,
+    )) {
+      // Cells without a reference follow the one before
+      const reference = getAttribute(cell[1], 'r');
+      const index = reference ? getColumnIndex(reference) : cells.length;
+      const type = getAttribute(cell[1], 't');
+      const content = cell[2] ?? '';
+      const value = content.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+
+      let text = '';
+      if (type === 'inlineStr') text = readStringItem(content);
+      else if (value === undefined) text = '';
+      else if (type === 's') text = sharedStrings[Number(value)] ?? '';
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else text = decodeXml(value);
+
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    }
+
+    rows.push(cells);
+  }
+
+  return rows;
+};
@@ -0,0 +1,168 @@
+import {
+  formatMoney,
+  normalizeMoney,
+  NormalizedMoney,
+  parseMoney,
+} from './money';
+import type { QuestionOutputField } from './questionTemplates';
+
+export type StructuredValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | NormalizedMoney;
+
+export type StructuredAnswer = Record<string, StructuredValue | null>;
+
+const FORMAT_HINTS: Record<QuestionOutputField['type'], string> = {
+  text: 'a short string',
+  number: 'a plain number without units or separators',
+  // Magnitudes like crore or $10M are converted in code, which the model
+  // gets wrong too often
+  money:
+    'a string quoting the amount as written in the answer, with its currency and year if stated, e.g. "₹80 crore (FY2023)" or "$12M in 2022"',
+  boolean: 'true or false',
+  url: 'an absolute URL',
+  list: 'an array of strings',
+};
+
+/**
+ * Builds the prompt that asks the model to pull typed values out of an answer
+ */
+export const buildStructuredAnswerPrompt = (
+  question: string,
+  answer: string,
+  fields: QuestionOutputField[],
+) => `
+Extract the following values from the answer below.
+${fields
+  .map(
+    (field) =>
+      `- "${field.key}": ${FORMAT_HINTS[field.type]}${field.description ? ` (${field.description})` : ''}`,
+  )
+  .join('\n')}
+
+Return ONLY a JSON object with exactly these keys. Use null for any value the answer does not state. Do not guess.
+
+Question: ${question}
+Answer: ${answer}
+`;
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const parsed = parseFloat(value.replace(/[,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Coerces a raw JSON value into the declared type, or null if it doesn't fit
+ */
+export const normalizeStructuredValue = (
+  type: QuestionOutputField['type'],
+  value: unknown,
+  fxRates: Record<string, number> = {},
+): StructuredValue | null => {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'text': {
+      const text = String(value).trim();
+      return text && text.toLowerCase() !== 'null' ? text : null;
+    }
+    case 'number':
+      return toNumber(value);
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes'].includes(text)) return true;
+      if (['false', 'no'].includes(text)) return false;
+      return null;
+    }
+    case 'url': {
+      const text = String(value).trim();
+      if (!text) return null;
+      try {
+        const url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+        return url.hostname.includes('.') ? url.toString() : null;
+      } catch {
+        return null;
+      }
+    }
+    case 'list': {
+      const items = Array.isArray(value) ? value : String(value).split(',');
+      const list = items
+        .map((item) => String(item).trim())
+        .filter((item) => item && item.toLowerCase() !== 'null');
+      return list.length > 0 ? list : null;
+    }
+    case 'money': {
+      if (typeof value === 'string') return parseMoney(value, fxRates);
+      if (typeof value !== 'object') return null;
+
+      // Also accept an already split {amount, currency, year}
+      const { amount, currency, year } = value as Record<string, unknown>;
+      const parsedAmount = toNumber(amount);
+      const code = typeof currency === 'string' ? currency.trim() : '';
+      if (parsedAmount === null || !/^[a-z]{3}$/i.test(code)) return null;
+      return normalizeMoney(
+        parsedAmount,
+        code.toUpperCase(),
+        toNumber(year),
+        fxRates,
+      );
+    }
+  }
+};
+
+/**
+ * The JSON object in a model reply, which may wrap it in prose or a code
+ * fence, or null when there is none
+ */
+export const extractJsonObject = (
+  text: string,
+): Record<string, unknown> | null => {
+  try {
+    const json = text.match(/\{[\s\S]*\}/);
+    if (json) return JSON.parse(json[0]);
+  } catch (err) {
+    console.error('Error parsing structured answer JSON:', err, text);
+  }
+  return null;
+};
+
+/**
+ * Parses the model output into validated values. Every declared key is present
+ * in the result; anything missing or malformed becomes null.
+ */
+export const parseStructuredAnswer = (
+  text: string,
+  fields: QuestionOutputField[],
+  fxRates: Record<string, number> = {},
+): StructuredAnswer => {
+  const raw = extractJsonObject(text) ?? {};
+
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.key,
+      normalizeStructuredValue(field.type, raw[field.key], fxRates),
+    ]),
+  );
+};
+
+/**
+ * Renders structured values as "key: value" lines for prompts
+ */
+export const formatStructuredAnswer = (values: StructuredAnswer) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => {
+      if (Array.isArray(value)) return `${key}: ${value.join(', ')}`;
+      if (typeof value === 'object' && value !== null) {
+        return `${key}: ${formatMoney(value)}`;
+      }
+      return `${key}: ${value}`;
+    })
+    .join('\n');
@@ -0,0 +1,300 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { AIMessage } from '@langchain/core/messages';
+import { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import crypto from 'crypto';
+import { asc, desc, eq, gte, sql, SQL } from 'drizzle-orm';
+import db from '@/lib/db';
+import { llmUsage } from '@/lib/db/schema';
+import { getModelPrice } from '@/lib/config';
+import type { UsageTotals } from './costs';
+import type { ModelSelection } from './models';
+
+/**
+ * Who and what an LLM call is counted against
+ */
+export interface UsageAttribution {
+  // e.g. "research", "extraction", "scoring"
+  purpose: string;
+  jobId?: string;
+  email?: string;
+  userId?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+}
+
+// Rough size of a token in English text, for providers that report no usage
+const CHARS_PER_TOKEN = 4;
+
+const estimateTokens = (chars: number) => Math.ceil(chars / CHARS_PER_TOKEN);
+
+/**
+ * The token counts a provider reported for one call. OpenAI-style providers
+ * report them in llmOutput, newer chat models on the message itself.
+ */
+export const getTokenUsage = (output: LLMResult): TokenUsage | null => {
+  const reported = output.llmOutput?.tokenUsage;
+  if (reported && (reported.promptTokens || reported.completionTokens)) {
+    return {
+      promptTokens: reported.promptTokens ?? 0,
+      completionTokens: reported.completionTokens ?? 0,
+      estimated: false,
+    };
+  }
+
+  const messages = output.generations
+    .flat()
+    .map(
+      (generation) =>
+        ((generation as ChatGeneration).message as AIMessage | undefined)
+          ?.usage_metadata,
+    )
+    .filter((usage) => !!usage);
+
+  if (messages.length > 0) {
+    return {
+      promptTokens: messages.reduce(
+        (sum, usage) => sum + usage.input_tokens,
+        0,
+      ),
+      completionTokens: messages.reduce(
+        (sum, usage) => sum + usage.output_tokens,
+        0,
+      ),
+      estimated: false,
+    };
+  }
+
+  const estimated = output.llmOutput?.estimatedTokenUsage;
+  if (estimated) {
+    return {
+      promptTokens: estimated.promptTokens ?? 0,
+      completionTokens: estimated.completionTokens ?? 0,
+      estimated: true,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * USD cost of a call at the model's price in config.toml, null when the
+ * model has no price
+ */
+export const priceUsage = (
+  provider: string,
+  model: string,
+  usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>,
+) => {
+  const price = getModelPrice(provider, model);
+  if (!price) return null;
+
+  return (
+    (usage.promptTokens * (price.INPUT || 0) +
+      usage.completionTokens * (price.OUTPUT || 0)) /
+    1_000_000
+  );
+};
+
+/**
+ * Stores one LLM call, priced now so later price changes don't rewrite history
+ */
+const recordUsage = async (
+  model: ModelSelection,
+  attribution: UsageAttribution,
+  usage: TokenUsage,
+) => {
+  await db
+    .insert(llmUsage)
+    .values({
+      purpose: attribution.purpose,
+      jobId: attribution.jobId ?? null,
+      email: attribution.email ?? null,
+      userId: attribution.userId ?? null,
+      provider: model.provider,
+      model: model.name,
+      promptTokens: Math.round(usage.promptTokens),
+      completionTokens: Math.round(usage.completionTokens),
+      estimated: usage.estimated,
+      cost: priceUsage(model.provider, model.name, usage),
+      createdAt: new Date().toISOString(),
+    })
+    .execute();
+};
+
+// Kept on globalThis so every route of the server shares the same token
+const globalForUsage = globalThis as unknown as { usageToken?: string };
+
+export const USAGE_TOKEN_HEADER = 'x-usage-token';
+
+/**
+ * A token only this server process knows. Enrichment sends it to /api/chat
+ * with the attribution of its calls, so other clients can't claim one.
+ */
+export const getUsageToken = () =>
+  (globalForUsage.usageToken ??= crypto.randomBytes(32).toString('hex'));
+
+/**
+ * The attribution a /api/chat request asked for if it came from enrichment
+ * in this process, otherwise the call is counted as a chat
+ */
+export const getRequestAttribution = (
+  req: Request,
+  attribution: UsageAttribution | undefined,
+): UsageAttribution => {
+  const token = Buffer.from(req.headers.get(USAGE_TOKEN_HEADER) ?? '');
+  const expected = Buffer.from(getUsageToken());
+
+  return attribution &&
+    token.length === expected.length &&
+    crypto.timingSafeEqual(token, expected)
+    ? attribution
+    : { purpose: 'chat' };
+};
+
+const getMessageText = (content: unknown) =>
+  typeof content === 'string' ? content : JSON.stringify(content);
+
+/**
+ * A LangChain callback handler that records every LLM call it sees against
+ * the attribution. Usage a provider doesn't report is estimated from the
+ * length of the prompt and the reply.
+ */
+export const createUsageHandler = (
+  model: ModelSelection,
+  attribution: UsageAttribution,
+) => {
+  const promptChars = new Map<string, number>();
+
+  return BaseCallbackHandler.fromMethods({
+    handleLLMStart(_llm, prompts, runId) {
+      promptChars.set(runId, prompts.join('').length);
+    },
+    handleChatModelStart(_llm, messages, runId) {
+      promptChars.set(
+        runId,
+        messages
+          .flat()
+          .reduce(
+            (sum, message) => sum + getMessageText(message.content).length,
+            0,
+          ),
+      );
+    },
+    async handleLLMEnd(output, runId) {
+      const chars = promptChars.get(runId) ?? 0;
+      promptChars.delete(runId);
+
+      const usage = getTokenUsage(output) ?? {
+        promptTokens: estimateTokens(chars),
+        completionTokens: estimateTokens(
+          output.generations
+            .flat()
+            .reduce((sum, generation) => sum + generation.text.length, 0),
+        ),
+        estimated: true,
+      };
+
+      try {
+        await recordUsage(model, attribution, usage);
+      } catch (err) {
+        // Losing a usage row must not fail the call it counts
+        console.error('Error recording LLM usage:', err);
+      }
+    },
+    handleLLMError(_err, runId) {
+      promptChars.delete(runId);
+    },
+  });
+};
+
+const totalsColumns: { [K in keyof UsageTotals]: SQL<number> } = {
+  calls: sql<number>`count(*)`,
+  promptTokens: sql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)`,
+  completionTokens: sql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)`,
+  cost: sql<number>`coalesce(sum(${llmUsage.cost}), 0)`,
+  unpricedCalls: sql<number>`coalesce(sum(${llmUsage.cost} is null), 0)`,
+  estimatedCalls: sql<number>`coalesce(sum(${llmUsage.estimated}), 0)`,
+};
+
+// Sums of float costs pick up noise like 0.30000000000000004
+const roundCost = <T extends { cost: number }>(totals: T): T => ({
+  ...totals,
+  cost: Math.round(totals.cost * 1_000_000) / 1_000_000,
+});
+
+const getTotals = async (where?: SQL) => {
+  const [totals] = await db.select(totalsColumns).from(llmUsage).where(where);
+  return roundCost(totals);
+};
+
+const getModelTotals = async (where?: SQL) => {
+  const rows = await db
+    .select({
+      provider: llmUsage.provider,
+      model: llmUsage.model,
+      ...totalsColumns,
+    })
+    .from(llmUsage)
+    .where(where)
+    .groupBy(llmUsage.provider, llmUsage.model)
+    .orderBy(desc(totalsColumns.cost));
+
+  return rows.map(roundCost);
+};
+
+/**
+ * What a job's LLM calls used and cost, in total, per model and per lead
+ */
+export const getJobUsage = async (jobId: string) => {
+  const where = eq(llmUsage.jobId, jobId);
+
+  const byLead = await db
+    .select({ email: llmUsage.email, ...totalsColumns })
+    .from(llmUsage)
+    .where(where)
+    .groupBy(llmUsage.email)
+    .orderBy(asc(llmUsage.email));
+
+  return {
+    ...(await getTotals(where)),
+    byModel: await getModelTotals(where),
+    byLead: byLead.map(roundCost),
+  };
+};
+
+/**
+ * Usage of the last `days` days, per UTC day, per user and per model
+ */
+export const getUsageReport = async (days: number) => {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  since.setUTCHours(0, 0, 0, 0);
+  const where = gte(llmUsage.createdAt, since.toISOString());
+
+  const day = sql<string>`substr(${llmUsage.createdAt}, 1, 10)`;
+
+  const byDay = await db
+    .select({ day, ...totalsColumns })
+    .from(llmUsage)
+    .where(where)
+    .groupBy(day)
+    .orderBy(asc(day));
+
+  const byUser = await db
+    .select({ userId: llmUsage.userId, ...totalsColumns })
+    .from(llmUsage)
+    .where(where)
+    .groupBy(llmUsage.userId)
+    .orderBy(desc(totalsColumns.cost));
+
+  return {
+    since: since.toISOString(),
+    totals: await getTotals(where),
+    byDay: byDay.map(roundCost),
+    byUser: byUser.map(roundCost),
+    byModel: await getModelTotals(where),
+  };
+};
@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { getZohoConfig } from '@/lib/config';
+import { toCrmLeadFields, toCrmNameFields } from './crmFields';
+import type { LeadVersion } from './leadVersions';
+
+// Zoho takes at most 100 records per upsert
+const UPSERT_BATCH_SIZE = 100;
+
+let accessToken: { token: string; expiresAt: number } | null = null;
+
+/**
+ * The outcome of pushing one lead to the CRM
+ */
+export interface CrmPushResult {
+  email: string;
+  // Whether the CRM created the lead or updated an existing one
+  action?: 'insert' | 'update';
+  recordId?: string;
+  error?: string;
+}
+
+export const isZohoConfigured = () => {
+  const config = getZohoConfig();
+  return Boolean(
+    config.CLIENT_ID && config.CLIENT_SECRET && config.REFRESH_TOKEN,
+  );
+};
+
+// Access tokens last an hour; a new one is fetched with the refresh token
+const getAccessToken = async () => {
+  if (accessToken && accessToken.expiresAt > Date.now()) {
+    return accessToken.token;
+  }
+
+  const config = getZohoConfig();
+  const res = await axios.post(
+    `${config.ACCOUNTS_URL || 'https://accounts.zoho.com'}/oauth/v2/token`,
+    new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: config.CLIENT_ID ?? '',
+      client_secret: config.CLIENT_SECRET ?? '',
+      refresh_token: config.REFRESH_TOKEN ?? '',
+    }),
+  );
+
+  if (!res.data.access_token) {
+    throw new Error(`Zoho did not return an access token: ${res.data.error}`);
+  }
+
+  accessToken = {
+    token: res.data.access_token,
+    // Renewed a minute early so a token never expires mid-request
+    expiresAt: Date.now() + (res.data.expires_in - 60) * 1000,
+  };
+
+  return accessToken.token;
+};
+
+const toZohoLead = (version: LeadVersion, minConfidence: number) => ({
+  Email: version.email,
+  Company: version.domain,
+  ...toCrmNameFields(version.email, version.person),
+  ...toCrmLeadFields(
+    version.structuredFields,
+    version.structuredData,
+    version.structuredDataConfidence,
+    minConfidence,
+  ).fields,
+});
+
+/**
+ * Creates or updates the Zoho leads of saved enrichments, matched by email.
+ * Values rated below `minConfidence` are not written.
+ */
+export const pushLeadsToZoho = async (
+  versions: LeadVersion[],
+  minConfidence: number,
+): Promise<CrmPushResult[]> => {
+  const token = await getAccessToken();
+  const apiUrl = getZohoConfig().API_URL || 'https://www.zohoapis.com';
+  const results: CrmPushResult[] = [];
+
+  for (let i = 0; i < versions.length; i += UPSERT_BATCH_SIZE) {
+    const batch = versions.slice(i, i + UPSERT_BATCH_SIZE);
+
+    const res = await axios.post(
+      `${apiUrl}/crm/v2/Leads/upsert`,
+      {
+        data: batch.map((version) => toZohoLead(version, minConfidence)),
+        duplicate_check_fields: ['Email'],
+      },
+      {
+        headers: { Authorization: `Zoho-oauthtoken ${token}` },
+        // Per-record errors come back in the body, with a 207 status
+        validateStatus: (status) => status < 500,
+      },
+    );
+
+    if (!Array.isArray(res.data?.data)) {
+      throw new Error(
+        `Zoho rejected the upsert: ${res.data?.message ?? res.status}`,
+      );
+    }
+
+    // Zoho answers in the order the records were sent
+    batch.forEach((version, index) => {
+      const record = res.data.data[index];
+
+      results.push(
+        record?.code === 'SUCCESS'
+          ? {
+              email: version.email,
+              action: record.action,
+              recordId: record.details?.id,
+            }
+          : {
+              email: version.email,
+              error: record?.message ?? 'No response for this lead',
+            },
+      );
+    });
+  }
+
+  return results;
+};
@@ -18,7 +18,7 @@ interface AimlApiModel {
 
 const API_URL = 'https://api.aimlapi.com';
 
-export const loadAimlApiChatModels = async () => {
+export const loadAimlApiChatModels = async (temperature = 0.7) => {
   const apiKey = getAimlApiKey();
 
   if (!apiKey) return {};
@@ -40,7 +40,7 @@ export const loadAimlApiChatModels = async () => {
           model: new ChatOpenAI({
             apiKey: apiKey,
             modelName: model.id,
-            temperature: 0.7,
+            temperature,
             configuration: {
               baseURL: API_URL,
             },
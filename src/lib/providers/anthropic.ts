@@ -39,7 +39,7 @@ const anthropicChatModels: Record<string, string>[] = [
   },
 ];
 
-export const loadAnthropicChatModels = async () => {
+export const loadAnthropicChatModels = async (temperature = 0.7) => {
   const anthropicApiKey = getAnthropicApiKey();
 
   if (!anthropicApiKey) return {};
@@ -53,7 +53,7 @@ export const loadAnthropicChatModels = async () => {
         model: new ChatAnthropic({
           apiKey: anthropicApiKey,
           modelName: model.key,
-          temperature: 0.7,
+          temperature,
         }) as unknown as BaseChatModel,
       };
     });
@@ -19,7 +19,7 @@ const deepseekChatModels: Record<string, string>[] = [
   },
 ];
 
-export const loadDeepseekChatModels = async () => {
+export const loadDeepseekChatModels = async (temperature = 0.7) => {
   const deepseekApiKey = getDeepseekApiKey();
 
   if (!deepseekApiKey) return {};
@@ -33,7 +33,7 @@ export const loadDeepseekChatModels = async () => {
         model: new ChatOpenAI({
           apiKey: deepseekApiKey,
           modelName: model.key,
-          temperature: 0.7,
+          temperature,
           configuration: {
             baseURL: 'https://api.deepseek.com',
           },
@@ -58,7 +58,7 @@ const geminiEmbeddingModels: Record<string, string>[] = [
   },
 ];
 
-export const loadGeminiChatModels = async () => {
+export const loadGeminiChatModels = async (temperature = 0.7) => {
   const geminiApiKey = getGeminiApiKey();
 
   if (!geminiApiKey) return {};
@@ -72,7 +72,7 @@ export const loadGeminiChatModels = async () => {
         model: new ChatGoogleGenerativeAI({
           apiKey: geminiApiKey,
           model: model.key,
-          temperature: 0.7,
+          temperature,
         }) as unknown as BaseChatModel,
       };
     });
@@ -9,7 +9,7 @@ export const PROVIDER_INFO = {
 
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 
-export const loadGroqChatModels = async () => {
+export const loadGroqChatModels = async (temperature = 0.7) => {
   const groqApiKey = getGroqApiKey();
   if (!groqApiKey) return {};
 
@@ -31,7 +31,7 @@ export const loadGroqChatModels = async () => {
         model: new ChatOpenAI({
           apiKey: groqApiKey,
           modelName: model.id,
-          temperature: 0.7,
+          temperature,
           configuration: {
             baseURL: 'https://api.groq.com/openai/v1',
           },
@@ -72,9 +72,10 @@ export interface EmbeddingModel {
   model: Embeddings;
 }
 
+// Loaders build their models at a temperature of 0.7 unless given another
 export const chatModelProviders: Record<
   string,
-  () => Promise<Record<string, ChatModel>>
+  (temperature?: number) => Promise<Record<string, ChatModel>>
 > = {
   openai: loadOpenAIChatModels,
   ollama: loadOllamaChatModels,
@@ -30,7 +30,7 @@ const checkServerAvailability = async (endpoint: string): Promise<boolean> => {
   }
 };
 
-export const loadLMStudioChatModels = async () => {
+export const loadLMStudioChatModels = async (temperature = 0.7) => {
   const endpoint = getLMStudioApiEndpoint();
 
   if (!endpoint) return {};
@@ -52,7 +52,7 @@ export const loadLMStudioChatModels = async () => {
             baseURL: ensureV1Endpoint(endpoint),
           },
           modelName: model.id,
-          temperature: 0.7,
+          temperature,
           streaming: true,
           maxRetries: 3,
         }) as unknown as BaseChatModel,
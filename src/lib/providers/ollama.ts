@@ -9,7 +9,7 @@ export const PROVIDER_INFO = {
 import { ChatOllama } from '@langchain/ollama';
 import { OllamaEmbeddings } from '@langchain/ollama';
 
-export const loadOllamaChatModels = async () => {
+export const loadOllamaChatModels = async (temperature = 0.7) => {
   const ollamaApiEndpoint = getOllamaApiEndpoint();
 
   if (!ollamaApiEndpoint) return {};
@@ -31,7 +31,7 @@ export const loadOllamaChatModels = async () => {
         model: new ChatOllama({
           baseUrl: ollamaApiEndpoint,
           model: model.model,
-          temperature: 0.7,
+          temperature,
           keepAlive: getKeepAlive(),
         }),
       };
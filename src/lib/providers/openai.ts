@@ -55,7 +55,7 @@ const openaiEmbeddingModels: Record<string, string>[] = [
   },
 ];
 
-export const loadOpenAIChatModels = async () => {
+export const loadOpenAIChatModels = async (temperature = 0.7) => {
   const openaiApiKey = getOpenaiApiKey();
 
   if (!openaiApiKey) return {};
@@ -69,7 +69,7 @@ export const loadOpenAIChatModels = async () => {
         model: new ChatOpenAI({
           apiKey: openaiApiKey,
           modelName: model.key,
-          temperature: 0.7,
+          temperature,
         }) as unknown as BaseChatModel,
       };
     });
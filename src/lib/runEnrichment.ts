@@ -1,8 +1,99 @@
 const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
 import crypto from 'crypto';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY!);
+import {
+  getCheckpointTtlHours,
+  getCompanyCacheTtlHours,
+  getEnrichPeople,
+  getFxRates,
+  getLeadConcurrency,
+  getMinFieldConfidence,
+  getQuestionConcurrency,
+  getRetryConfig,
+} from './config';
+import {
+  clearQuestionCheckpoints,
+  getQuestionCheckpoints,
+  QuestionCheckpoint,
+  saveQuestionCheckpoint,
+} from './enrichment/checkpoints';
+import {
+  CompanyProfile,
+  getCachedCompanyProfile,
+  getQuestionsKey,
+  saveCompanyProfile,
+} from './enrichment/companyProfiles';
+import {
+  guessCompanyName,
+  parseEmailDomain,
+  ParsedDomain,
+} from './enrichment/domain';
+import { classifyEmail, EmailCategory } from './enrichment/emailClassifier';
+import {
+  getLatestLeads,
+  saveLeadResult,
+  saveLeadScore,
+} from './enrichment/leadHistory';
+import { getLeadAttributes } from './enrichment/leadAttributes';
+import type { LeadAttributes } from './enrichment/leadImport';
+import type { LeadFieldChange, LeadVersion } from './enrichment/leadVersions';
+import {
+  assessStructuredAnswer,
+  filterConfidentValues,
+  StructuredDataConfidence,
+} from './enrichment/fieldConfidence';
+import { resolveQuestions } from './enrichment/questionSets';
+import {
+  EnrichmentQuestion,
+  QuestionOutputField,
+  renderQuestion,
+} from './enrichment/questionTemplates';
+import {
+  generateText,
+  getFallbackModelSelection,
+  getScoringModelSelection,
+  resolveChatModel,
+  ResolvedChatModel,
+  withUsage,
+} from './enrichment/models';
+import {
+  buildPersonExtractionPrompt,
+  buildPersonQuestion,
+  parseLocalPart,
+  parsePersonProfile,
+  PersonProfile,
+  SENIORITY_LEVELS,
+} from './enrichment/person';
+import { acquireRateLimit } from './enrichment/rateLimiter';
+import {
+  reconcileStructuredAnswer,
+  StructuredDataReconciliation,
+} from './enrichment/reconciliation';
+import {
+  classifyError,
+  EnrichmentError,
+  isAnsweredQuestion,
+  QuestionError,
+  QuestionStatus,
+  RetryEvent,
+  RetryOptions,
+  withRetry,
+} from './enrichment/retry';
+import { Rubric, ScoreBreakdown } from './enrichment/rubric';
+import { getActiveRubric } from './enrichment/rubrics';
+import { scoreLead } from './enrichment/scoring';
+import {
+  buildStructuredAnswerPrompt,
+  extractJsonObject,
+  formatStructuredAnswer,
+  parseStructuredAnswer,
+  StructuredAnswer,
+} from './enrichment/structuredAnswers';
+import {
+  getUsageToken,
+  USAGE_TOKEN_HEADER,
+  UsageAttribution,
+} from './enrichment/usage';
+import mapWithConcurrency from './utils/mapWithConcurrency';
 
 function toErrorString(err: any): string {
   if (!err) return 'Unknown error';
@@ -36,11 +127,136 @@ export interface EmbeddingModelProvider {
   provider: string;
 }
 
+export interface SourceCitation {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
 export interface EnrichmentResult {
+  questionId?: string;
   question: string;
+  // Empty when the question failed
+  answer: string;
+  status?: QuestionStatus;
+  // Including the first, 1 when it succeeded straight away
+  attempts?: number;
+  // Why the last attempt of a failed question failed
+  error?: QuestionError;
+  // Set when the fallback model answered instead of the chat model
+  fallbackModel?: ChatModelProvider;
+  // Answered by an earlier, interrupted run
+  resumed?: boolean;
+  structured?: StructuredAnswer;
+  // How well the answer and its sources back each structured value
+  confidence?: StructuredDataConfidence;
+  // The figures the sources gave for number and money values
+  reconciliation?: StructuredDataReconciliation;
+  // In the order the answer's [n] citation markers refer to
+  sources?: SourceCitation[];
+}
+
+export interface LeadEnrichmentResult {
+  email: string;
+  company: string;
+  // Registrable domain of the email, e.g. "acme.co.uk" for "mail.acme.co.uk"
+  domain?: string;
+  chatId: string;
+  enrichmentData: EnrichmentResult[];
+  error?: string;
+  emailCategory?: EmailCategory;
+  score?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  structuredData?: StructuredAnswer;
+  structuredDataSources?: Record<string, SourceCitation[]>;
+  structuredDataConfidence?: StructuredDataConfidence;
+  structuredDataReconciliation?: StructuredDataReconciliation;
+  structuredFields?: Record<string, any>;
+  // True when the company was researched earlier for another email
+  profileReused?: boolean;
+  profileResearchedAt?: string;
+  // The person behind the email, when they could be researched
+  person?: PersonProfile;
+  // The saved version of the lead and what changed since the previous one
+  version?: number;
+  changes?: LeadFieldChange[];
+}
+
+interface ChatAnswer {
   answer: string;
+  sources: SourceCitation[];
 }
 
+const SNIPPET_LENGTH = 300;
+
+const toSourceCitations = (sources: any[]): SourceCitation[] =>
+  sources.map((source) => ({
+    title: source?.metadata?.title ?? '',
+    url: source?.metadata?.url ?? '',
+    snippet: String(source?.pageContent ?? '').slice(0, SNIPPET_LENGTH),
+  }));
+
+export type EnrichmentEvent =
+  | { type: 'lead_started'; email: string }
+  | { type: 'lead_researching'; email: string; company: string; chatId: string }
+  | {
+      type: 'question_started';
+      email: string;
+      index: number;
+      total: number;
+      question: string;
+    }
+  | {
+      type: 'question_answered';
+      email: string;
+      index: number;
+      total: number;
+      question: string;
+      answer: string;
+      sources: SourceCitation[];
+      structured?: StructuredAnswer;
+      confidence?: StructuredDataConfidence;
+      resumed?: boolean;
+    }
+  | ({
+      type: 'question_retrying';
+      email: string;
+      index: number;
+      total: number;
+      question: string;
+    } & RetryEvent)
+  | {
+      type: 'question_failed';
+      email: string;
+      index: number;
+      total: number;
+      question: string;
+      error: string;
+      kind: QuestionError['kind'];
+      attempts: number;
+    }
+  | { type: 'person_enriched'; email: string; person: PersonProfile }
+  | { type: 'scoring_started'; email: string }
+  | {
+      type: 'fields_extracted';
+      email: string;
+      structuredFields: Record<string, any>;
+    }
+  | { type: 'lead_finished'; email: string; result: LeadEnrichmentResult }
+  | { type: 'lead_rescored'; email: string; result: LeadRescoreResult }
+  | {
+      type: 'lead_skipped';
+      email: string;
+      reason: string;
+      result: LeadEnrichmentResult;
+    }
+  | {
+      type: 'lead_failed';
+      email: string;
+      error: string;
+      result?: LeadEnrichmentResult;
+    };
+
 export interface LeadEnrichmentParams {
   emails: string[];
   chatModelProvider?: ChatModelProvider;
@@ -48,133 +264,43 @@ export interface LeadEnrichmentParams {
   focusMode?: string;
   optimizationMode?: string;
   systemInstructions?: string;
+  questionSetId?: string;
+  // Research every company again instead of reusing cached profiles
+  forceRefresh?: boolean;
+  // What the LLM usage of the run is counted against
+  jobId?: string;
+  userId?: string;
+  onEvent?: (event: EnrichmentEvent) => void | Promise<void>;
 }
 
 export interface LeadEnrichmentResponse {
   success: boolean;
-  results: {
-    email: string;
-    company: string;
-    chatId: string;
-    enrichmentData: EnrichmentResult[];
-    error?: string;
-    score?: number;
-    reason?: string;
-  }[];
+  results: LeadEnrichmentResult[];
   errors: string[];
 }
 
-async function scoreLeadWithGemini(lead: {
+/**
+ * The new score of a saved lead, or why it could not be scored
+ */
+export interface LeadRescoreResult {
   email: string;
-  domain: string;
-  createdAt: string;
-  results: EnrichmentResult[];
-}): Promise<{ reason: string; score: number }> {
-  const formattedResults = lead.results
-    .map((r) => `Q: ${r.question}\nA: ${r.answer}`)
-    .join('\n');
-  const prompt = `
-  You are a lead scoring assistant.
-
-  Given the company's data below, assign a numeric score for each of the following criteria. Use this scoring logic:
-
-  🔸 Revenue Score (out of 20)
-    • > ₹80Cr or $10M → 20 pts
-    • ₹8Cr–₹80Cr or $1M–$10M → 15 pts
-    • ₹80L–₹8Cr or $100k–$1M → 10 pts
-    • < ₹80L or < $100k → 5 pts
-    • No data → 0 pts
-
-  🔸 Employee Size (out of 10)
-    • > 200 → 10 pts
-    • 51–200 → 7 pts
-    • 11–50 → 5 pts
-    • ≤ 10 → 2 pts
-    • No data → 0 pts
-
-  🔸 Years in Business (out of 10)
-    • > 10 years → 10 pts
-    • 5–10 years → 7 pts
-    • < 5 years → 4 pts
-    • No data → 0 pts
-
-  🔸 Funding Score (out of 15)
-    • > $5M or ₹40Cr → 15 pts
-    • < $5M or ₹40Cr → 10 pts
-    • No funding → 0 pts
-
-  🔸 Fortune 500 Presence (out of 10)
-    • In list → 10 pts
-    • Not in list → 0 pts
-
-  🔸 Fortune 100 Presence (out of 10)
-    • In list → 10 pts
-    • Not in list → 0 pts
-
-  🔸 Clients / Logos / Big Accounts (out of 15)
-    • Enterprise Clients or Well-known Brands → 15 pts
-    • Multiple Mid-size Clients → 10 pts
-    • Mostly Small Businesses → 5 pts
-    • No data → 0 pts
-
-  Add the individual scores and return a total score out of 90.
-  Then explain briefly why you gave this score.
-
-  Output ONLY in this format:
-
-  Revenue Score: <x>/20
-  Employee Size Score: <x>/10
-  Years in Business Score: <x>/10
-  Funding Score: <x>/15
-  Fortune 500 Score: <x>/10
-  Fortune 100 Score: <x>/10
-  Clients Score: <x>/15
-  Total Score: <x>/90
-  Reason: <short explanation>
-
-  Company Data:
-  ${formattedResults}
-  `;
-
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-  const chat = model.startChat();
-  const result = await chat.sendMessage(prompt);
-  const text = result.response.text();
-
-  let reason = 'N/A',
-    score = 0;
-  try {
-    const scoreMatch = text.match(/Total Score:\s*(\d+(\.\d+)?)/);
-    const fullReason = text.match(
-      /Revenue Score:.*(?:\n.*?)+Reason:\s*([\s\S]*)/,
-    );
-    score = scoreMatch ? parseFloat(scoreMatch[1]) : 0;
-    reason = fullReason ? text.trim() : 'N/A';
-  } catch (err) {
-    reason = 'Parse failed';
-    score = 0;
-  }
-
-  return { reason, score };
+  score?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  scoredAt?: string;
+  error?: string;
 }
 
 // Extracting lead fields using LLM
 async function extractCrmLeadFieldsWithLLM(
+  model: ResolvedChatModel,
   company: string,
   enrichmentData: EnrichmentResult[],
-  chatModelProvider: ChatModelProvider,
-  embeddingModelProvider: EmbeddingModelProvider,
-  focusMode: string,
-  optimizationMode: string,
-  systemInstructions?: string,
-  chatId?: string,
+  structuredData: StructuredAnswer,
 ): Promise<Record<string, any>> {
-
-    const formattedResults = enrichmentData
+  const formattedResults = enrichmentData
     .map(({ question, answer }) => `Q: ${question}\nA: ${answer}`)
     .join('\n');
 
-
   const prompt = `
 Extract the following details for ${company} as structured JSON if possible.
 Return only:
@@ -192,25 +318,50 @@ Return only:
 }
 Return ONLY the JSON. Fill fields with data or null if not found.
 Use the following company data context to answer the best you can:
+${formatStructuredAnswer(structuredData)}
 ${formattedResults}
   `;
 
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-  const chat = model.startChat();
-  const result = await chat.sendMessage(prompt);
-  const text = result.response.text();
+  const text = await generateText(model, prompt);
 
   // Try to parse JSON from LLM output
+  let fields: Record<string, any> = {};
   try {
     const firstJson = text.match(/\{[\s\S]*?\}/);
     if (firstJson) {
-      return JSON.parse(firstJson[0]);
+      fields = JSON.parse(firstJson[0]);
     }
-    return {};
   } catch (err) {
     console.error('Error parsing CRM JSON from LLM:', err, text);
-    return {};
   }
+
+  if (!fields['Description'] && structuredData.description) {
+    fields['Description'] = structuredData.description;
+  }
+
+  return fields;
+}
+
+// Pulling typed values declared by the question out of the prose answer
+async function extractStructuredAnswerWithLLM(
+  model: ResolvedChatModel,
+  question: string,
+  answer: string,
+  fields: QuestionOutputField[],
+): Promise<StructuredAnswer> {
+  const text = await generateText(
+    model,
+    buildStructuredAnswerPrompt(question, answer, fields),
+  );
+
+  if (!extractJsonObject(text)) {
+    throw new EnrichmentError(
+      'parse_failure',
+      'The model did not reply with a JSON object',
+    );
+  }
+
+  return parseStructuredAnswer(text, fields, getFxRates());
 }
 
 // Default configuration - these will be overridden by actual available models
@@ -219,6 +370,51 @@ const DEFAULT_CONFIG = {
   optimizationMode: 'speed',
 };
 
+const SCRAPE_TIMEOUT_MS = 30000;
+
+// Focus modes that answer without searching, so no sources is expected
+const OFFLINE_FOCUS_MODES = ['writingAssistant'];
+
+const getRetryOptions = (): RetryOptions => {
+  const retry = getRetryConfig();
+  return {
+    maxAttempts: retry.MAX_ATTEMPTS ?? 3,
+    baseDelayMs: retry.BASE_DELAY_MS ?? 2000,
+    maxDelayMs: retry.MAX_DELAY_MS ?? 30000,
+  };
+};
+
+const getQuestionTimeoutMs = () =>
+  (getRetryConfig().QUESTION_TIMEOUT_SECONDS ?? 180) * 1000;
+
+/**
+ * Looks up the name the company uses on its own website, so questions ask
+ * about "Tata Consultancy Services" rather than "tcs". Falls back to a name
+ * guessed from the domain.
+ */
+async function resolveCompanyName(domain: ParsedDomain): Promise<string> {
+  try {
+    const response = await fetch(
+      `${BASE_URL}/api/scrape?domain=${encodeURIComponent(domain.registrableDomain)}`,
+      { signal: AbortSignal.timeout(SCRAPE_TIMEOUT_MS) },
+    );
+
+    if (response.ok) {
+      const seed = await response.json();
+      if (typeof seed.displayName === 'string' && seed.displayName.trim()) {
+        return seed.displayName.trim();
+      }
+    }
+  } catch (error) {
+    console.error(
+      `Error resolving company name for ${domain.registrableDomain}:`,
+      error,
+    );
+  }
+
+  return guessCompanyName(domain);
+}
+
 /**
  * Fetches available model providers from the API
  */
@@ -379,13 +575,18 @@ async function sendMessage(
   optimizationMode: string = 'speed',
   systemInstructions?: string,
   chatHistory: [string, string][] = [],
-): Promise<string> {
+  usage?: UsageAttribution,
+): Promise<ChatAnswer> {
   const messageId = crypto.randomBytes(7).toString('hex');
 
   const response = await fetch(`${BASE_URL}/api/chat`, {
     method: 'POST',
+    // Also aborts reading the stream, so a stalled answer times out
+    signal: AbortSignal.timeout(getQuestionTimeoutMs()),
     headers: {
       'Content-Type': 'application/json',
+      // Lets /api/chat trust the usage attribution below
+      [USAGE_TOKEN_HEADER]: getUsageToken(),
     },
     body: JSON.stringify({
       content: message,
@@ -408,6 +609,7 @@ async function sendMessage(
         provider: embeddingModelProvider.provider,
       },
       systemInstructions: systemInstructions,
+      usage,
     }),
   });
 
@@ -427,186 +629,524 @@ async function sendMessage(
   const decoder = new TextDecoder('utf-8');
   let partialChunk = '';
   let receivedMessage = '';
+  let sources: SourceCitation[] = [];
 
-  // Process streaming response
+  // Process streaming response, keeping any incomplete trailing line for the next chunk
   while (true) {
     const { value, done } = await reader.read();
     if (done) break;
 
     partialChunk += decoder.decode(value, { stream: true });
 
-    try {
-      const messages = partialChunk.split('\n');
-      for (const msg of messages) {
-        if (!msg.trim()) continue;
+    const lines = partialChunk.split('\n');
+    partialChunk = lines.pop() ?? '';
 
-        const data = JSON.parse(msg);
+    for (const line of lines) {
+      if (!line.trim()) continue;
 
-        if (data.type === 'error') {
-          throw new Error(data.data);
-        }
+      let data: any;
+      try {
+        data = JSON.parse(line);
+      } catch {
+        continue;
+      }
 
-        if (data.type === 'message') {
-          receivedMessage += data.data;
-        }
+      if (data.type === 'error') {
+        throw new Error(data.data);
+      }
 
-        if (data.type === 'messageEnd') {
-          return receivedMessage.trim();
+      if (data.type === 'sources') {
+        sources = toSourceCitations(Array.isArray(data.data) ? data.data : []);
+      }
+
+      if (data.type === 'message') {
+        receivedMessage += data.data;
+      }
+
+      if (data.type === 'messageEnd') {
+        // The agent still answers when SearxNG finds nothing, from no sources
+        if (sources.length === 0 && !OFFLINE_FOCUS_MODES.includes(focusMode)) {
+          throw new EnrichmentError(
+            'searxng_empty',
+            'The search returned no results',
+          );
         }
+
+        return { answer: receivedMessage.trim(), sources };
       }
-      partialChunk = '';
-    } catch (error) {
-      // Incomplete JSON, continue reading
-      continue;
     }
   }
 
-  return receivedMessage.trim();
+  throw new EnrichmentError(
+    'provider_down',
+    'The chat stream ended before the answer was complete',
+  );
 }
 
 /**
- * Generates enrichment questions for a company
+ * Researches the company behind a domain: asks every question, then scores the
+ * answers and extracts the CRM fields. Questions answered by an interrupted
+ * run are taken from its checkpoints instead of being asked again.
  */
-function generateEnrichmentQuestions(
-  company: string,
-  fullDomain: string,
-): string[] {
-  return [
-    `What does ${company} company do? Please give a short description in two lines.`,
-    `What is the website of the company with the domain ${fullDomain}?`,
-    `What are the revenue figures for the company with the domain ${fullDomain}? Only include results related to this entity and list each figure along with the source name.`,
-    `What is the employee size of ${company} company? Please reply with only the number of employees in two short sentences, without additional explanation.`,
-    `How many years has ${company} company been in business? Please reply with only the number of years in two short sentences, without additional explanation.`,
-    `What is the latest funding news for ${company} company? Please reply with only the latest funding amount and date in two short sentences in bullet points, without additional explanation.`,
-    `Is ${company} in the Fortune 500 list? Please respond with a yes or no and one short supporting detail.`,
-    `Is ${company} in the Fortune 100 list? Please respond with a yes or no and one short supporting detail.`,
-    `Who are the clients of ${company}? List major clients or industries they serve.`,
-    `What is the industry classification of ${company}?`,
-    `What is the LinkedIn profile link of the company named ${company}? Return only the link.`,
-  ];
-}
-
-/**
- * Processes lead enrichment for a single email
- */
-async function processLeadEnrichment(
+async function researchCompany(
   email: string,
+  attribution: LeadAttribution,
+  parsedDomain: ParsedDomain,
+  questions: EnrichmentQuestion[],
+  questionsKey: string,
+  checkpoints: QuestionCheckpoint[],
+  rubric: Rubric,
+  scoringModel: ResolvedChatModel,
   chatModelProvider: ChatModelProvider,
   embeddingModelProvider: EmbeddingModelProvider,
+  fallbackModelProvider: ChatModelProvider | null,
   focusMode: string,
   optimizationMode: string,
   systemInstructions?: string,
-  structuredFields: Record<string, any> = {},
-): Promise<{
-  email: string;
-  company: string;
-  chatId: string;
-  enrichmentData: EnrichmentResult[];
-  error?: string;
-  score?: number;
-  reason?: string;
-  structuredFields?: Record<string, any>;
-}> {
-  try {
-    // Helper to extract company/domain info from email
-    const extractCompanyInfo = (email: string) => {
-      const domain = email.split('@')[1];
-      const companyName = domain.split('.')[0];
-
-      return {
-        companyName,
-        fullDomain: domain,
-        searchQuery: `"${companyName}" site:${domain} OR "${companyName}" company`,
-        fallbackQuery: `"${companyName}.${domain.split('.').pop()}" company information`,
-      };
-    };
+  onEvent?: LeadEnrichmentParams['onEvent'],
+): Promise<{ profile: CompanyProfile; complete: boolean }> {
+  const domain = parsedDomain.registrableDomain;
+  const company = await resolveCompanyName(parsedDomain);
+
+  const resumed = new Map(
+    checkpoints.map((checkpoint) => [checkpoint.questionId, checkpoint.result]),
+  );
+
+  // Continue the interrupted run's chat, or start a new enrichment session
+  const chatId =
+    checkpoints[0]?.chatId ?? crypto.randomBytes(20).toString('hex');
+
+  const total = questions.length;
+  let failedQuestions = 0;
+
+  const usageFor = (purpose: string) => ({ ...attribution, purpose });
+
+  await onEvent?.({ type: 'lead_researching', email, company, chatId });
+
+  // Process questions in parallel, throttled by the provider's rate limit.
+  // Questions answered before the interruption are context from the start.
+  const chatHistory: [string, string][] = questions.flatMap(
+    (item): [string, string][] => {
+      const result = resumed.get(item.id);
+      return result
+        ? [
+            ['human', result.question],
+            ['assistant', result.answer],
+          ]
+        : [];
+    },
+  );
+
+  const enrichmentResults = await mapWithConcurrency(
+    questions,
+    getQuestionConcurrency(),
+    async (item, index): Promise<EnrichmentResult> => {
+      const question = renderQuestion(item.template, { company, domain });
+
+      const checkpoint = resumed.get(item.id);
+      if (checkpoint) {
+        await onEvent?.({
+          type: 'question_answered',
+          email,
+          index,
+          total,
+          question: checkpoint.question,
+          answer: checkpoint.answer,
+          sources: checkpoint.sources ?? [],
+          structured: checkpoint.structured,
+          confidence: checkpoint.confidence,
+          resumed: true,
+        });
+        return { ...checkpoint, resumed: true };
+      }
 
-    // Extract company from email domain
-    const { companyName, fullDomain } = extractCompanyInfo(email);
-    const company = companyName;
-    const domain = fullDomain;
+      try {
+        await onEvent?.({
+          type: 'question_started',
+          email,
+          index,
+          total,
+          question,
+        });
 
-    // Generate new chat ID for this enrichment session
-    const chatId = crypto.randomBytes(20).toString('hex');
+        // Rate limits, timeouts and empty searches are retried with backoff
+        const {
+          value: { answer, sources },
+          attempts,
+          fallback,
+        } = await withRetry(
+          async (fallback) => {
+            const model = fallback ? fallbackModelProvider! : chatModelProvider;
+            await acquireRateLimit(model.provider);
+            return sendMessage(
+              question,
+              chatId,
+              model,
+              embeddingModelProvider,
+              item.focusMode ?? focusMode,
+              optimizationMode,
+              systemInstructions,
+              [...chatHistory],
+              usageFor('research'),
+            );
+          },
+          {
+            ...getRetryOptions(),
+            hasFallback: !!fallbackModelProvider,
+            onRetry: (retry) =>
+              onEvent?.({
+                type: 'question_retrying',
+                email,
+                index,
+                total,
+                question,
+                ...retry,
+              }),
+          },
+        );
 
-    // Generate enrichment questions
-    const enrichmentQuestions = generateEnrichmentQuestions(company, domain);
+        // Share answered questions as context with the ones still to come
+        chatHistory.push(['human', question]);
+        chatHistory.push(['assistant', answer]);
 
-    // Process each question
-    const enrichmentResults: EnrichmentResult[] = [];
-    const chatHistory: [string, string][] = [];
+        let structured: StructuredAnswer | undefined;
+        let confidence: StructuredDataConfidence | undefined;
+        let reconciliation: StructuredDataReconciliation | undefined;
+        if (item.output && item.output.length > 0) {
+          try {
+            const { value: extracted } = await withRetry(
+              () =>
+                extractStructuredAnswerWithLLM(
+                  withUsage(scoringModel, usageFor('extraction')),
+                  question,
+                  answer,
+                  item.output!,
+                ),
+              getRetryOptions(),
+            );
+
+            // Sources often disagree on figures, so pick the best supported
+            const reconciled = reconcileStructuredAnswer(
+              extracted,
+              item.output,
+              answer,
+              sources,
+              domain,
+              getFxRates(),
+            );
+            structured = reconciled.structured;
+            reconciliation = reconciled.reconciliation;
+            confidence = assessStructuredAnswer(
+              structured,
+              answer,
+              sources,
+              getFxRates(),
+              Object.keys(reconciled.reconciliation).filter(
+                (key) => reconciled.reconciliation[key].conflicting,
+              ),
+            );
+          } catch (error) {
+            // The prose answer is still usable without structured values
+            console.error(
+              `Error extracting structured answer for ${company}:`,
+              error,
+            );
+          }
+        }
 
-    for (const question of enrichmentQuestions) {
-      try {
-        const answer = await sendMessage(
+        const result: EnrichmentResult = {
+          questionId: item.id,
           question,
-          chatId,
-          chatModelProvider,
-          embeddingModelProvider,
-          focusMode,
-          optimizationMode,
-          systemInstructions,
-          chatHistory,
-        );
+          answer,
+          status: 'answered',
+          attempts,
+          ...(fallback && { fallbackModel: fallbackModelProvider! }),
+          structured,
+          confidence,
+          reconciliation,
+          sources,
+        };
 
-        enrichmentResults.push({ question, answer });
+        // Saved straight away, so a crash later on doesn't lose the answer
+        await saveQuestionCheckpoint(
+          { jobId: attribution.jobId, email, domain, questionsKey, chatId },
+          item.id,
+          result,
+        ).catch((error) =>
+          console.error(`Error saving checkpoint for ${company}:`, error),
+        );
 
-        // Update chat history
-        chatHistory.push(['human', question]);
-        chatHistory.push(['assistant', answer]);
+        await onEvent?.({
+          type: 'question_answered',
+          email,
+          index,
+          total,
+          question,
+          answer,
+          sources,
+          structured,
+          confidence,
+        });
 
-        // Add delay between requests to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return result;
       } catch (error) {
         console.error(`Error processing question for ${company}:`, error);
-        enrichmentResults.push({
+        failedQuestions++;
+        const kind = classifyError(error);
+        const attempts = error instanceof EnrichmentError ? error.attempts : 1;
+        await onEvent?.({
+          type: 'question_failed',
+          email,
+          index,
+          total,
           question,
-          answer: `Error: ${toErrorString(error)}`,
+          error: toErrorString(error),
+          kind,
+          attempts,
         });
+        // No answer rather than the error text, so nothing scores it
+        return {
+          questionId: item.id,
+          question,
+          answer: '',
+          status: 'failed',
+          attempts,
+          error: { kind, message: toErrorString(error) },
+        };
       }
+    },
+  );
+
+  // Merge the typed values of all questions into one record for the lead
+  const structuredData: StructuredAnswer = Object.assign(
+    {},
+    ...enrichmentResults.map((result) => result.structured ?? {}),
+  );
+
+  // Each typed value is backed by the sources of the answer it came from
+  const structuredDataSources: Record<string, SourceCitation[]> = {};
+  for (const result of enrichmentResults) {
+    for (const [key, value] of Object.entries(result.structured ?? {})) {
+      if (value !== null) structuredDataSources[key] = result.sources ?? [];
     }
-    // Scoring with gemini 
-    const { score, reason } = await scoreLeadWithGemini({
-      email,
-      domain,
-      createdAt: new Date().toISOString(),
+  }
+
+  const structuredDataConfidence: StructuredDataConfidence = Object.assign(
+    {},
+    ...enrichmentResults.map((result) => result.confidence ?? {}),
+  );
+  const structuredDataReconciliation: StructuredDataReconciliation =
+    Object.assign(
+      {},
+      ...enrichmentResults.map((result) => result.reconciliation ?? {}),
+    );
+
+  // Scoring against the active rubric
+  await onEvent?.({ type: 'scoring_started', email });
+  const scoreBreakdown = await scoreLead(
+    withUsage(scoringModel, usageFor('scoring')),
+    rubric,
+    {
       results: enrichmentResults,
-    });
-    // extracting structured fields with LLM
-    const extractedStructuredFields = await extractCrmLeadFieldsWithLLM(
+      structuredData,
+      structuredDataConfidence,
+    },
+  );
+  // extracting structured fields with LLM, from the values sure enough to sync
+  const extractedStructuredFields = await extractCrmLeadFieldsWithLLM(
+    withUsage(scoringModel, usageFor('crm_fields')),
+    company,
+    enrichmentResults.filter(isAnsweredQuestion),
+    filterConfidentValues(
+      structuredData,
+      structuredDataConfidence,
+      getMinFieldConfidence(),
+    ),
+  );
+
+  return {
+    profile: {
+      domain,
       company,
-      enrichmentResults,
+      chatId,
+      enrichmentData: enrichmentResults,
+      structuredData,
+      structuredDataSources,
+      structuredDataConfidence,
+      structuredDataReconciliation,
+      structuredFields: extractedStructuredFields,
+      scoreBreakdown,
+      researchedAt: new Date().toISOString(),
+    },
+    complete: failedQuestions === 0,
+  };
+}
+
+/**
+ * Researches the person behind an email at an already researched company:
+ * their name, title and public profile. A name from an imported lead list
+ * is searched for instead of the names the email suggests.
+ */
+async function researchPerson(
+  email: string,
+  attribution: LeadAttribution,
+  profile: CompanyProfile,
+  scoringModel: ResolvedChatModel,
+  chatModelProvider: ChatModelProvider,
+  embeddingModelProvider: EmbeddingModelProvider,
+  optimizationMode: string,
+  systemInstructions?: string,
+  attributes?: LeadAttributes,
+): Promise<PersonProfile> {
+  const candidates =
+    attributes?.firstName || attributes?.lastName
+      ? [{ firstName: attributes.firstName, lastName: attributes.lastName }]
+      : parseLocalPart(email);
+  const question = buildPersonQuestion(
+    email,
+    candidates,
+    profile.company,
+    profile.domain,
+  );
+
+  const {
+    value: { answer, sources },
+  } = await withRetry(async () => {
+    await acquireRateLimit(chatModelProvider.provider);
+    return sendMessage(
+      question,
+      crypto.randomBytes(20).toString('hex'),
       chatModelProvider,
       embeddingModelProvider,
-      focusMode,
+      'webSearch',
       optimizationMode,
       systemInstructions,
-      chatId
+      [],
+      { ...attribution, purpose: 'person' },
     );
-    // Skipping DB save: return results directly in API response
-    return {
+  }, getRetryOptions());
+
+  const sourceUrls = sources.map((source) => source.url).filter(Boolean);
+  const text = await generateText(
+    withUsage(scoringModel, { ...attribution, purpose: 'person' }),
+    buildPersonExtractionPrompt(email, profile.company, answer, sourceUrls),
+  );
+
+  return parsePersonProfile(text, candidates, sourceUrls);
+}
+
+type LeadAttribution = Omit<UsageAttribution, 'purpose'>;
+
+type CompanyProfileLoader = (
+  email: string,
+  parsedDomain: ParsedDomain,
+) => Promise<{ profile: CompanyProfile; reused: boolean }>;
+
+type PersonLoader = (
+  email: string,
+  profile: CompanyProfile,
+) => Promise<PersonProfile | undefined>;
+
+/**
+ * Processes lead enrichment for a single email
+ */
+async function processLeadEnrichment(
+  email: string,
+  attribution: LeadAttribution,
+  loadProfile: CompanyProfileLoader,
+  loadPerson: PersonLoader,
+  rubric: Rubric,
+  scoringModel: ResolvedChatModel,
+  onEvent?: LeadEnrichmentParams['onEvent'],
+): Promise<LeadEnrichmentResult> {
+  try {
+    // Research the registrable domain, so mail.acme.co.uk becomes acme.co.uk
+    const parsedDomain = parseEmailDomain(email);
+    if (!parsedDomain) {
+      throw new Error(`${email.split('@')[1]} is not a company domain`);
+    }
+
+    const { profile, reused } = await loadProfile(email, parsedDomain);
+
+    if (reused) {
+      await onEvent?.({
+        type: 'lead_researching',
+        email,
+        company: profile.company,
+        chatId: profile.chatId,
+      });
+    }
+
+    const person = await loadPerson(email, profile);
+    if (person) await onEvent?.({ type: 'person_enriched', email, person });
+
+    // The company's score plus the person's seniority. Judgements of the
+    // profile are reused unless the rubric changed since it was scored.
+    if (reused) await onEvent?.({ type: 'scoring_started', email });
+    const scoreBreakdown = await scoreLead(
+      withUsage(scoringModel, { ...attribution, purpose: 'scoring' }),
+      rubric,
+      {
+        results: profile.enrichmentData,
+        structuredData: {
+          ...profile.structuredData,
+          seniorityLevel: person?.seniority
+            ? SENIORITY_LEVELS[person.seniority]
+            : null,
+        },
+        structuredDataConfidence: profile.structuredDataConfidence,
+      },
+      profile.scoreBreakdown,
+    );
+
+    await onEvent?.({
+      type: 'fields_extracted',
       email,
-      company,
-      chatId,
-      enrichmentData: enrichmentResults,
-      score,
-      reason,
-      structuredFields: extractedStructuredFields,
+      structuredFields: profile.structuredFields,
+    });
+    const result: LeadEnrichmentResult = {
+      email,
+      company: profile.company,
+      domain: profile.domain,
+      chatId: profile.chatId,
+      enrichmentData: profile.enrichmentData,
+      score: scoreBreakdown.score,
+      scoreBreakdown,
+      structuredData: profile.structuredData,
+      structuredDataSources: profile.structuredDataSources,
+      structuredDataConfidence: profile.structuredDataConfidence,
+      structuredDataReconciliation: profile.structuredDataReconciliation,
+      structuredFields: profile.structuredFields,
+      profileReused: reused,
+      profileResearchedAt: profile.researchedAt,
+      person,
     };
+
+    // Every finished run is kept as the next version of the lead
+    try {
+      const saved = await saveLeadResult(result, attribution.jobId);
+      result.version = saved.version;
+      result.changes = saved.changes;
+    } catch (error) {
+      console.error(`Error saving lead ${email}:`, error);
+    }
+
+    return result;
   } catch (error) {
     console.error(`Error processing lead enrichment for ${email}:`, error);
+    const parsedDomain = parseEmailDomain(email);
     return {
       email,
-      company: email.split('@')[1]?.split('.')[0] || 'unknown',
+      company: parsedDomain ? guessCompanyName(parsedDomain) : 'unknown',
+      domain: parsedDomain?.registrableDomain,
       chatId: '',
       enrichmentData: [],
       error: toErrorString(error),
-      structuredFields: {}
+      structuredFields: {},
     };
   }
 }
 
-
 /**
  * Main function to enrich multiple leads
  */
@@ -620,6 +1160,11 @@ export async function enrichLeads(
     focusMode = DEFAULT_CONFIG.focusMode,
     optimizationMode = DEFAULT_CONFIG.optimizationMode,
     systemInstructions,
+    questionSetId,
+    forceRefresh = false,
+    jobId,
+    userId,
+    onEvent,
   } = params;
 
   // Validate and filter emails
@@ -635,8 +1180,8 @@ export async function enrichLeads(
     };
   }
 
-  const results = [];
-  const errors = [];
+  const results: LeadEnrichmentResult[] = [];
+  const errors: string[] = [];
 
   try {
     // Configure model providers
@@ -645,35 +1190,187 @@ export async function enrichLeads(
       embeddingModelProvider,
     );
 
-    // Process each email
-    for (const email of validEmails) {
-      try {
-        console.log(`Processing lead enrichment for: ${email}`);
+    const questions = await resolveQuestions(questionSetId);
+    const rubric = await getActiveRubric();
+    const scoringModel = await resolveChatModel(
+      getScoringModelSelection(chatModel),
+      { temperature: 0 },
+    );
+    const fallbackModel = getFallbackModelSelection();
+
+    // Emails on the same domain share one profile: a cached one if it is
+    // fresh enough, else the research started by the first of them
+    const questionsKey = getQuestionsKey(questions);
+    const cacheTtlHours = getCompanyCacheTtlHours();
+    const checkpointTtlHours = getCheckpointTtlHours();
+    const profiles = new Map<string, Promise<CompanyProfile>>();
+
+    // A company researched for several emails is counted against the first
+    const attribute = (email: string): LeadAttribution => ({
+      jobId,
+      userId,
+      email,
+    });
+
+    const loadProfile: CompanyProfileLoader = async (email, parsedDomain) => {
+      const domain = parsedDomain.registrableDomain;
+
+      const pending = profiles.get(domain);
+      if (pending) return { profile: await pending, reused: true };
 
-        const result = await processLeadEnrichment(
+      const cached = forceRefresh
+        ? null
+        : await getCachedCompanyProfile(domain, questionsKey, cacheTtlHours);
+      if (cached) {
+        console.log(`Reusing company profile of ${domain} for ${email}`);
+        profiles.set(domain, Promise.resolve(cached));
+        return { profile: cached, reused: true };
+      }
+
+      // Forced refreshes only resume their own job, after a restart
+      const checkpoints =
+        forceRefresh && !jobId
+          ? []
+          : await getQuestionCheckpoints(
+              domain,
+              questionsKey,
+              checkpointTtlHours,
+              forceRefresh ? jobId : undefined,
+            ).catch((error) => {
+              console.error(`Error loading checkpoints of ${domain}:`, error);
+              return [];
+            });
+      if (checkpoints.length > 0) {
+        console.log(
+          `Resuming research of ${domain} from ${checkpoints.length} answered questions`,
+        );
+      }
+
+      const research = researchCompany(
+        email,
+        attribute(email),
+        parsedDomain,
+        questions,
+        questionsKey,
+        checkpoints,
+        rubric,
+        scoringModel,
+        chatModel,
+        embeddingModel,
+        fallbackModel,
+        focusMode,
+        optimizationMode,
+        systemInstructions,
+        onEvent,
+      ).then(async ({ profile, complete }) => {
+        // Profiles with failed questions are researched again next time,
+        // resuming from the questions that were answered
+        if (complete && cacheTtlHours > 0) {
+          await saveCompanyProfile(profile, questionsKey).catch((error) =>
+            console.error(`Error caching company profile of ${domain}:`, error),
+          );
+        }
+        if (complete) {
+          await clearQuestionCheckpoints(domain, questionsKey).catch((error) =>
+            console.error(`Error clearing checkpoints of ${domain}:`, error),
+          );
+        }
+        return profile;
+      });
+      profiles.set(domain, research);
+
+      return { profile: await research, reused: false };
+    };
+
+    const enrichPeople = getEnrichPeople();
+    const importedAttributes = await getLeadAttributes(validEmails).catch(
+      (error) => {
+        console.error('Error loading imported lead attributes:', error);
+        return new Map<string, LeadAttributes>();
+      },
+    );
+
+    const loadPerson: PersonLoader = async (email, profile) => {
+      // Role accounts like sales@ have no single person behind them
+      if (!enrichPeople || classifyEmail(email).category === 'role') return;
+
+      try {
+        return await researchPerson(
           email,
+          attribute(email),
+          profile,
+          scoringModel,
           chatModel,
           embeddingModel,
-          focusMode,
           optimizationMode,
           systemInstructions,
+          importedAttributes.get(email.toLowerCase()),
         );
-
-        results.push(result);
-        if (result.error) {
-          errors.push(`Failed ${email}: ${result.error}`);
-        }
-
-        // Add delay between emails to avoid overwhelming the system
-        if (validEmails.indexOf(email) < validEmails.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 3000));
-        }
       } catch (error) {
-        const errorMessage = `Failed to process ${email}: ${toErrorString(error)}`;
-        console.error(errorMessage);
-        errors.push(errorMessage);
+        // The lead is still useful without the person
+        console.error(`Error researching the person behind ${email}:`, error);
       }
-    }
+    };
+
+    // Process emails in parallel up to the configured lead concurrency
+    await mapWithConcurrency(
+      validEmails,
+      getLeadConcurrency(),
+      async (email) => {
+        try {
+          // Free-mail, disposable and similar addresses have no company to
+          // research
+          const classification = classifyEmail(email);
+          if (classification.skip) {
+            const reason = `Skipped: ${classification.reason}`;
+            const result: LeadEnrichmentResult = {
+              email,
+              company: '',
+              chatId: '',
+              enrichmentData: [],
+              error: reason,
+              emailCategory: classification.category,
+            };
+            console.log(`Skipping lead enrichment for ${email}: ${reason}`);
+            results.push(result);
+            await onEvent?.({ type: 'lead_skipped', email, reason, result });
+            return;
+          }
+
+          console.log(`Processing lead enrichment for: ${email}`);
+          await onEvent?.({ type: 'lead_started', email });
+
+          const result = await processLeadEnrichment(
+            email,
+            attribute(email),
+            loadProfile,
+            loadPerson,
+            rubric,
+            scoringModel,
+            onEvent,
+          );
+          result.emailCategory = classification.category;
+
+          results.push(result);
+          if (result.error) {
+            errors.push(`Failed ${email}: ${result.error}`);
+            await onEvent?.({
+              type: 'lead_failed',
+              email,
+              error: result.error,
+              result,
+            });
+          } else {
+            await onEvent?.({ type: 'lead_finished', email, result });
+          }
+        } catch (error) {
+          const errorMessage = `Failed to process ${email}: ${toErrorString(error)}`;
+          console.error(errorMessage);
+          errors.push(errorMessage);
+          await onEvent?.({ type: 'lead_failed', email, error: errorMessage });
+        }
+      },
+    );
 
     return {
       success: errors.length === 0,
@@ -703,4 +1400,99 @@ export async function enrichSingleLead(
     emails: [email],
     ...options,
   });
-}
\ No newline at end of file
+}
+
+// Leads loaded and scored at a time, so a large rescore is paged through
+const RESCORE_BATCH_SIZE = 100;
+
+/**
+ * Scores the latest saved version of leads again with the active rubric and
+ * the scoring model, saving the new scores in place. Emails never saved are
+ * reported as failed.
+ */
+export async function rescoreLeads(
+  emails: string[],
+  {
+    jobId,
+    userId,
+    onEvent,
+  }: Pick<LeadEnrichmentParams, 'jobId' | 'userId' | 'onEvent'> = {},
+): Promise<LeadRescoreResult[]> {
+  if (emails.length === 0) return [];
+
+  const { chatModel } = await configureModelProviders();
+  const scoringModel = await resolveChatModel(
+    getScoringModelSelection(chatModel),
+    { temperature: 0 },
+  );
+  const rubric = await getActiveRubric();
+
+  const rescore = async (version: LeadVersion): Promise<LeadRescoreResult> => {
+    await onEvent?.({ type: 'lead_started', email: version.email });
+
+    try {
+      // Without the previous breakdown every criterion is judged again
+      const scoreBreakdown = await scoreLead(
+        withUsage(scoringModel, {
+          jobId,
+          userId,
+          email: version.email,
+          purpose: 'rescoring',
+        }),
+        rubric,
+        {
+          results: version.results,
+          structuredData: {
+            ...version.structuredData,
+            seniorityLevel: version.person?.seniority
+              ? SENIORITY_LEVELS[version.person.seniority]
+              : null,
+          },
+          structuredDataConfidence:
+            version.structuredDataConfidence ?? undefined,
+        },
+      );
+
+      const saved = await saveLeadScore(version.email, scoreBreakdown);
+      if (!saved) throw new Error('The lead was deleted while scoring');
+
+      const result = {
+        email: version.email,
+        score: scoreBreakdown.score,
+        scoreBreakdown,
+        scoredAt: saved.scoredAt ?? undefined,
+      };
+      await onEvent?.({ type: 'lead_rescored', email: version.email, result });
+      return result;
+    } catch (error) {
+      console.error(`Error re-scoring lead ${version.email}:`, error);
+      await onEvent?.({
+        type: 'lead_failed',
+        email: version.email,
+        error: toErrorString(error),
+      });
+      return { email: version.email, error: toErrorString(error) };
+    }
+  };
+
+  const results: LeadRescoreResult[] = [];
+
+  for (let i = 0; i < emails.length; i += RESCORE_BATCH_SIZE) {
+    const batch = emails
+      .slice(i, i + RESCORE_BATCH_SIZE)
+      .map((email) => email.trim().toLowerCase());
+    const versions = await getLatestLeads(batch);
+
+    for (const email of batch) {
+      if (versions.some((version) => version.email === email)) continue;
+      await onEvent?.({ type: 'lead_failed', email, error: 'Lead not found' });
+      results.push({ email, error: 'Lead not found' });
+    }
+
+    results.push(
+      ...(await mapWithConcurrency(versions, getLeadConcurrency(), rescore)),
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,55 @@
+/**
+ * Reads a Server-Sent Events response body and calls `onEvent` with each
+ * event name and its parsed JSON data. Resolves when the stream ends.
+ */
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: string, data: any) => void,
+) => {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue; // keep-alive comment
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+    }
+
+    if (dataLines.length === 0) return;
+
+    let data;
+    try {
+      data = JSON.parse(dataLines.join('\n'));
+    } catch (err) {
+      console.error('Error parsing event stream data:', err);
+      return;
+    }
+
+    onEvent(event, data);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+};
+
+export default readEventStream;